@@ -17,7 +17,9 @@ const ESM_ENTRY_POINTS: Record<string, string> = {
 };
 
 const CONTENT_ENTRY_POINTS: Record<string, string> = {
-  "content/index": path.join(ROOT_DIR, "src/content/index.ts")
+  "content/index": path.join(ROOT_DIR, "src/content/index.ts"),
+  "content/extract": path.join(ROOT_DIR, "src/content/extract.ts"),
+  "content/page-bridge": path.join(ROOT_DIR, "src/content/pageBridge.ts")
 };
 
 const isWatchMode = process.argv.includes("--watch");
@@ -1,6 +1,63 @@
-import { MESSAGE_ACTIONS, validateRequest } from "../../src/shared/messageContracts.js";
+import { readFileSync } from "node:fs";
+import { MESSAGE_ACTIONS, validateRequest, validateResponse } from "../../src/shared/messageContracts.js";
 import { withStatsDefaults, migrateStatsV0ToV1, STATS_VERSION } from "../../src/shared/stats.js";
-import { withSettingsDefaults, SETTINGS_VERSION } from "../../src/shared/settings.js";
+import {
+  withSettingsDefaults,
+  migrateSettings,
+  parseKeywordList,
+  formatKeywordList,
+  SETTINGS_VERSION
+} from "../../src/shared/settings.js";
+import { explainCategory, mapYouTubeCategory, predictCategory } from "../../src/background/categoryResolver.js";
+import { compileKeywordMatcher, getKeywordMatcher } from "../../src/background/keywordMatcher.js";
+import {
+  normalizeChannelHandle,
+  normalizeDurationSeconds,
+  normalizePlaylistId,
+  normalizePlaylistIndex,
+  isMetadataComplete,
+  METADATA_VERSION,
+  normalizeVideoMetadata,
+  parseHashtags,
+  EMPTY_METADATA
+} from "../../src/shared/metadataSchema.js";
+import { getGroupingStrategy, getMusicGroupKey } from "../../src/background/groupingStrategies.js";
+import { getVideoTypeRoute } from "../../src/background/videoTypeRouting.js";
+import { getPageGrouping } from "../../src/background/pagePolicy.js";
+import { isPlacedByHand, shouldRegroupTab } from "../../src/background/tabPlacements.js";
+import { isNoReceiverError } from "../../src/background/scriptInjection.js";
+import {
+  findGroupKeyColor,
+  getWindowGroupKey,
+  parseWindowGroupKey,
+  rebuildGroupingState
+} from "../../src/background/tabGrouping.js";
+import { getExtractionSuccessRate, recordExtractionReport, withExtractionHealthDefaults } from "../../src/shared/extractionHealth.js";
+import {
+  getMetadataCacheKey,
+  METADATA_CACHE_MAX_ENTRIES,
+  METADATA_CACHE_TTL_MS,
+  pruneMetadataCache
+} from "../../src/background/metadataCache.js";
+import { parseYouTubeUrl } from "../../src/shared/youtubeUrl.js";
+import { readAssignedJson } from "../../src/shared/inlineJson.js";
+import { deriveLiveFlags } from "../../src/shared/liveStatus.js";
+import { getSiteUrlPatterns, parseSiteUrl } from "../../src/shared/sites.js";
+import { upgradeChannelNameMappings } from "../../src/shared/channelMap.js";
+import { getRootCategory, normalizeCategoryPath } from "../../src/shared/categoryHierarchy.js";
+import {
+  mergeChannelImport,
+  parseSubscriptionsCsv,
+  previewChannelImport,
+  toSubscriptionMappings
+} from "../../src/shared/subscriptionsImport.js";
+import {
+  createEmptyLearnedModel,
+  predictFromLearnedModel,
+  tokenizeForLearning,
+  trainLearnedModel,
+  withLearnedModelDefaults
+} from "../../src/shared/learningModel.js";
 import type { Metadata } from "../../src/shared/types.js";
 
 function assert(condition: unknown, message: string): void {
@@ -9,14 +66,17 @@ function assert(condition: unknown, message: string): void {
   }
 }
 
+/** A v2 Metadata fixture: every field empty except `overrides`. */
+const buildMetadata = (overrides: Partial<Metadata> = {}): Metadata => ({ ...EMPTY_METADATA, ...overrides });
+
 function assertValidRequest() {
-  const metadata: Metadata = {
+  const metadata = buildMetadata({
     title: "Test title",
     channel: "Channel",
     description: "Desc",
     keywords: ["test"],
     youtubeCategory: "Music"
-  };
+  });
 
   const requestPayload = {
     action: MESSAGE_ACTIONS.GROUP_TAB,
@@ -40,6 +100,33 @@ function assertInvalidRequest() {
   assert(!result.valid, "Invalid metadata payload should fail validation");
 }
 
+function assertMetadataVersions() {
+  const v1 = { title: "Intro to Rust", channel: "Rustacean", keywords: ["rust"], youtubeCategory: "28", isLive: true };
+  const request = (metadata: unknown) =>
+    ({ action: MESSAGE_ACTIONS.GROUP_TAB, version: 1, requestId: "test_req", metadata }) as Record<string, unknown>;
+  assert(validateRequest(MESSAGE_ACTIONS.GROUP_TAB, request(v1)).valid, "v1 metadata should still validate");
+  assert(validateResponse(MESSAGE_ACTIONS.GET_VIDEO_METADATA, v1).valid, "v1 metadata responses should still validate");
+  assert(!validateRequest(MESSAGE_ACTIONS.GROUP_TAB, request({ ...v1, version: 3 })).valid, "Unknown metadata versions");
+  assert(!validateRequest(MESSAGE_ACTIONS.GROUP_TAB, request({ ...v1, videoId: 42 })).valid, "videoId must be a string");
+
+  const upgraded = normalizeVideoMetadata(v1);
+  assert(upgraded.version === METADATA_VERSION && upgraded.videoId === "", "v1 metadata upgrades to v2");
+  assert(upgraded.isLiveContent, "Live streams are live content");
+  const v2 = normalizeVideoMetadata({ ...v1, isLive: false, videoId: " dQw4w9WgXcQ ", isLiveContent: true, version: 2 });
+  assert(v2.videoId === "dQw4w9WgXcQ" && v2.isLiveContent && !v2.isLive, "v2 fields");
+  assert(normalizeVideoMetadata({ videoId: "../watch?v=1" }).videoId === "", "Malformed video ids are dropped");
+}
+
+function assertMetadataDeadline() {
+  const request = (deadline: unknown) =>
+    ({ action: MESSAGE_ACTIONS.GET_VIDEO_METADATA, version: 1, requestId: "test_req", deadline }) as Record<string, unknown>;
+  assert(validateRequest(MESSAGE_ACTIONS.GET_VIDEO_METADATA, request(Date.now() + 4000)).valid, "Metadata deadline");
+  assert(!validateRequest(MESSAGE_ACTIONS.GET_VIDEO_METADATA, request("soon")).valid, "Deadline must be a number");
+  assert(isMetadataComplete({ title: "Intro to Rust", channel: "Rustacean" }), "Title and channel are complete");
+  assert(isMetadataComplete({ title: "Intro to Rust", channelId: "UCabcdefghijklmnopqrstuv" }), "A channel id is enough");
+  assert(!isMetadataComplete({ title: "Intro to Rust" }), "A title alone is incomplete");
+}
+
 function assertStatsMigration() {
   const legacyStats = { totalTabs: 2, categoryCount: { Music: 2 }, version: 0 };
   const migrated = migrateStatsV0ToV1(legacyStats);
@@ -52,13 +139,605 @@ function assertSettingsDefaults() {
   const normalized = withSettingsDefaults({ extensionEnabled: false });
   assert(normalized.version === SETTINGS_VERSION, "Settings defaults should set version");
   assert(normalized.extensionEnabled === false, "Settings defaults should respect explicit flags");
+  assert(normalized.regroupOnNavigation && !withSettingsDefaults({ regroupOnNavigation: false }).regroupOnNavigation, "Regroup flag");
+  assert(
+    normalized.sameColorAcrossWindows && !withSettingsDefaults({ sameColorAcrossWindows: false }).sameColorAcrossWindows,
+    "Color scope flag"
+  );
+}
+
+function assertCategoryRules() {
+  const settings = withSettingsDefaults({
+    categoryRules: [
+      {
+        id: "podcasts",
+        name: "Podcasts",
+        enabled: true,
+        match: "all",
+        category: "Podcasts",
+        conditions: [
+          { field: "channel", operator: "equals", value: "Lex Fridman" },
+          { field: "title", operator: "contains", value: "podcast" }
+        ]
+      },
+      {
+        id: "broken",
+        name: "Broken",
+        enabled: true,
+        match: "all",
+        category: "Broken",
+        conditions: [{ field: "title", operator: "regex", value: "(" }]
+      }
+    ]
+  });
+  assert(settings.categoryRules.length === 1, "Rules with only invalid conditions should be dropped");
+
+  const metadata = buildMetadata({ title: "Podcast #400 - gaming talk", channel: "Lex Fridman" });
+  const options = { rules: settings.categoryRules, categoryKeywords: settings.categoryKeywords };
+  assert(predictCategory(metadata, options) === "Podcasts", "Matching rule should win over keywords");
+  assert(
+    predictCategory({ ...metadata, channel: "Someone else" }, options) === "Gaming",
+    "Built-in steps should run when no rule matches"
+  );
+  assert(
+    predictCategory({ ...metadata, channel: "Someone else" }, { ...options, rulesMode: "replace" }) === "Other",
+    "Replace mode should skip built-in steps"
+  );
+}
+
+function assertCategoryTrace() {
+  const metadata = buildMetadata({
+    title: "Speedrun gameplay with lyrics",
+    channel: "Runner",
+    youtubeCategory: "Music"
+  });
+  const { category, trace } = explainCategory(metadata, { channelMap: {} });
+  assert(category === "Gaming" && trace.step === "keywords", "Trace should report the keyword step");
+  assert(trace.channelKey === "name:runner" && !trace.channelMatched, "Trace should record the channel key tried");
+  assert(
+    trace.keywordScores[0]?.matchedTerms.includes("speedrun") === true,
+    "Trace should list matched terms for the winning category"
+  );
+  assert(trace.youtubeMappedCategory === "Music", "Trace should record the mapped YouTube category");
+}
+
+function assertHashtagCategories() {
+  const settings = withSettingsDefaults({ allowedHashtags: ["#Minecraft", "cooking"], hashtagCategoryMap: { minecraft: "Gaming" } });
+  const metadata = buildMetadata({
+    title: "Cozy build #minecraft #asmr",
+    hashtags: parseHashtags("Cozy build #minecraft #asmr")
+  });
+  assert(metadata.hashtags.join(",") === "minecraft,asmr", "Hashtags should be parsed in order and lowercased");
+  const options = { allowedHashtags: settings.allowedHashtags, hashtagMap: settings.hashtagCategoryMap };
+  assert(predictCategory(metadata, options) === "Gaming", "Whitelisted mapped hashtag should decide the category");
+  assert(
+    predictCategory({ ...metadata, title: "Cozy #asmr", hashtags: ["asmr"] }, { ...options, hashtagMap: { asmr: "Music" } }) === "Other",
+    "Hashtags outside the whitelist should be ignored"
+  );
+}
+
+function assertYouTubeCategoryMapping() {
+  const migrated = migrateSettings({ version: 1 } as Record<string, unknown>);
+  assert(migrated.version === SETTINGS_VERSION, "Settings migration should bump version");
+  assert(migrated.youtubeCategoryMap["28"] === "Tech", "V1 settings should receive the built-in YouTube category map");
+
+  assert(mapYouTubeCategory(10) === "Music", "Numeric category ids should resolve");
+  assert(mapYouTubeCategory("28") === "Tech", "Numeric string ids should resolve");
+  assert(mapYouTubeCategory("science and technology") === "Tech", "Category names should match loosely");
+
+  const custom = withSettingsDefaults({ youtubeCategoryMap: { Sports: "", "28": "Science" } });
+  assert(mapYouTubeCategory(17, custom.youtubeCategoryMap) === "", "Unmapped ids should not resolve");
+  assert(mapYouTubeCategory("Science & Technology", custom.youtubeCategoryMap) === "Science", "User map should win");
+}
+
+function assertKeywordMatcher() {
+  const keywords = {
+    Programming: parseKeywordList("c++, c#, how to code"),
+    Gaming: parseKeywordList("игра, 游戏, café")
+  };
+  const matcher = compileKeywordMatcher(keywords);
+  const count = (text: string, term: string) => matcher.matchText(text).find((hit) => hit.term === term)?.count ?? 0;
+
+  assert(count("Learn C++ today, then c++ again", "c++") === 2, "Keywords with symbols should match literally");
+  assert(count("abc++ is not a language", "c++") === 0, "Keywords should not match inside other words");
+  assert(count("Intro to C#", "c#") === 1, "Hash-suffixed keywords should match");
+  assert(count("How   to\ncode fast", "how to code") === 1, "Phrases should tolerate whitespace runs");
+  assert(count("Лучшая игра года", "игра") === 1, "Cyrillic keywords should match on word boundaries");
+  assert(count("我喜欢玩游戏", "游戏") === 1, "CJK keywords should match without spaces");
+  assert(count("Café vlog", "café") === 1, "Accented keywords should match case-insensitively");
+  assert(getKeywordMatcher(keywords) === getKeywordMatcher({ ...keywords }), "Unchanged keywords should reuse the matcher");
+}
+
+function assertWeightedKeywords() {
+  const parsed = parseKeywordList("tutorial:3, -reaction:2, !asmr, plain");
+  assert(
+    parsed[0].weight === 3 && parsed[1].weight === -2 && parsed[2].veto === true && parsed[3].weight === 1,
+    "Keyword syntax should parse weights, negatives and vetoes"
+  );
+  assert(formatKeywordList(parsed) === "tutorial:3, -reaction:2, !asmr, plain", "Keyword lists should round-trip");
+
+  const migrated = migrateSettings({ version: 2, categoryKeywords: { Gaming: ["speedrun"] } } as Record<string, unknown>);
+  assert(
+    migrated.categoryKeywords.Gaming[0]?.term === "speedrun" && migrated.categoryKeywords.Gaming[0]?.weight === 1,
+    "V2 keyword lists should migrate to weight-1 keywords"
+  );
+
+  const stored = withSettingsDefaults({
+    categoryKeywords: { Tech: ["rust", { term: "go", weight: 2 }, { term: "asmr", weight: 0, veto: true }] }
+  } as Record<string, unknown>);
+  assert(
+    formatKeywordList(stored.categoryKeywords.Tech) === "rust, go:2, !asmr",
+    "Compact stored keyword lists should read back as keyword objects"
+  );
+
+  const metadata = buildMetadata({ title: "Python tutorial", description: "game reaction" });
+  const categoryKeywords = {
+    Gaming: parseKeywordList("game"),
+    Tech: parseKeywordList("python, tutorial:2")
+  };
+  const { trace } = explainCategory(metadata, { categoryKeywords });
+  assert(trace.keywordScores[0]?.category === "Tech" && trace.keywordScores[0]?.score === 9, "Title hits should be weighted");
+
+  const negative = explainCategory(metadata, {
+    categoryKeywords: { ...categoryKeywords, Tech: parseKeywordList("python, -reaction:5") }
+  });
+  assert(negative.category === "Gaming", "Negative keywords should subtract from a category's score");
+
+  const vetoed = explainCategory(metadata, {
+    categoryKeywords: { ...categoryKeywords, Tech: parseKeywordList("python, !reaction") }
+  });
+  assert(
+    vetoed.category === "Gaming" && vetoed.trace.keywordScores.at(-1)?.vetoedBy === "reaction",
+    "Veto keywords should rule a category out"
+  );
+}
+
+function assertKeywordConfidence() {
+  const metadata = buildMetadata({
+    title: "Weekend vlog",
+    description: "We talked about many things for a long while, including one song we liked on the way home."
+  });
+  const weak = explainCategory(metadata, { minConfidence: 0.3, reviewCategory: "Review" });
+  assert(weak.category === "Review" && weak.trace.step === "review", "Weak keyword matches should go to review");
+  assert((weak.trace.confidence ?? 1) < 0.3, "Trace should report the low confidence");
+
+  const withYouTubeCategory = explainCategory({ ...metadata, youtubeCategory: "22" }, { minConfidence: 0.3 });
+  assert(withYouTubeCategory.trace.step === "youtubeCategory", "Low confidence should defer to the YouTube category");
+
+  const tie = explainCategory({ ...metadata, description: "", title: "song gameplay" }, { minConfidence: 0.1 });
+  assert(tie.trace.confidence === 0 && tie.trace.step === "review", "Tied keyword scores should not pick by order");
+
+  const strong = explainCategory({ ...metadata, title: "Minecraft gameplay" }, { minConfidence: 0.3 });
+  assert(strong.category === "Gaming" && (strong.trace.confidence ?? 0) >= 0.3, "Clear winners should keep their category");
+
+  assert(withSettingsDefaults({}).minKeywordConfidence === 0.2, "New installs get the default confidence threshold");
+  assert(migrateSettings({ version: 4 }).minKeywordConfidence === 0, "Existing installs keep accepting the best match");
+  assert(migrateSettings({ version: 4, minKeywordConfidence: 0.4 }).minKeywordConfidence === 0.4, "Saved thresholds are kept");
+}
+
+function assertLearnedModel() {
+  const video = (title: string, channel: string) => buildMetadata({ title, channel });
+  const examples: [Metadata, string][] = [
+    [video("Sourdough starter basics", "Bread Lab"), "Baking"],
+    [video("Laminated dough explained", "Bread Lab"), "Baking"],
+    [video("Rye sourdough loaf", "Crumb Club"), "Baking"],
+    [video("Modular synth patch tour", "Patch Cable"), "Synths"],
+    [video("Eurorack oscillator shootout", "Patch Cable"), "Synths"]
+  ];
+
+  const untrained = examples
+    .slice(0, 4)
+    .reduce((model, [metadata, category]) => trainLearnedModel(model, tokenizeForLearning(metadata), category), createEmptyLearnedModel());
+  assert(predictFromLearnedModel(untrained, tokenizeForLearning(video("Sourdough", ""))) === null, "Models need enough examples");
+
+  const model = trainLearnedModel(untrained, tokenizeForLearning(examples[4][0]), examples[4][1]);
+  const prediction = predictFromLearnedModel(model, tokenizeForLearning(video("Whole wheat sourdough", "Bread Lab")));
+  assert(prediction?.category === "Baking", "Trained models should predict from title and channel tokens");
+  assert(predictFromLearnedModel(model, tokenizeForLearning(video("Unrelated words", "Nobody"))) === null, "Unknown tokens should not predict");
+
+  const decision = explainCategory(video("Eurorack filter demo", "Patch Cable"), { learnedModel: model });
+  assert(decision.category === "Synths" && decision.trace.step === "learned", "Resolver should consult the learned model");
+
+  const restored = withLearnedModelDefaults(JSON.parse(JSON.stringify(model)));
+  assert(restored.examples === 5 && restored.categories.Baking?.examples === 3, "Exported models should round-trip");
+  assert(withLearnedModelDefaults({ categories: "bad" }).examples === 0, "Invalid imports should become empty models");
+}
+
+function assertChannelMapping() {
+  const channelId = "UC_x5XG1OV2P6uZZ5FSM9Ttw";
+  const migrated = migrateSettings({
+    version: 3,
+    channelCategoryMap: { "Google Developers": "Tech", "@Veritasium": "Education", [channelId]: "Tech" }
+  } as Record<string, unknown>);
+  const map = migrated.channelCategoryMap;
+  assert(map["name:google developers"]?.type === "name", "Legacy name keys should become name entries");
+  assert(map["handle:@veritasium"]?.category === "Education", "Legacy @ keys should become handle entries");
+  assert(map[`id:${channelId}`]?.type === "id", "Legacy channel id keys should become id entries");
+  assert(normalizeChannelHandle("https://www.youtube.com/@Veritasium/videos") === "@veritasium", "Handles should parse from URLs");
+
+  const metadata = buildMetadata({ title: "Some talk", channel: "Renamed Channel", channelHandle: "@veritasium" });
+  const byHandle = explainCategory(metadata, { channelMap: map });
+  assert(byHandle.category === "Education" && byHandle.trace.channelKey === "handle:@veritasium", "Handles should match");
+
+  const upgraded = upgradeChannelNameMappings(map, {
+    channel: "Google Developers",
+    channelId: "UCabcdefghijklmnopqrstuv",
+    artist: ""
+  });
+  assert(
+    upgraded?.["id:UCabcdefghijklmnopqrstuv"]?.label === "Google Developers" && upgraded["name:google developers"],
+    "Name entries should gain an id entry once the owner id is observed, and keep the name key"
+  );
+  assert(
+    upgradeChannelNameMappings(map, { channel: "Unknown", channelId, artist: "" }) === null,
+    "Unmapped names should not change"
+  );
+  assert(
+    upgradeChannelNameMappings(map, { channel: "Google Developers", channelId, artist: "Google Developers" }) === null,
+    "Music artist bylines should not upgrade channel mappings"
+  );
+}
+
+function assertNestedCategories() {
+  assert(normalizeCategoryPath(" Tech / Programming/ ") === "Tech/Programming", "Category paths should be normalized");
+  assert(getRootCategory("Tech/Programming") === "Tech", "Nested categories should know their root");
+  const settings = withSettingsDefaults({ categoryKeywords: { "Tech /Hardware": [] }, groupSplitThreshold: 1 });
+  assert("Tech/Hardware" in settings.categoryKeywords, "Stored category keys should be normalized");
+  assert(settings.groupingLevel === "leaf" && settings.groupSplitThreshold === 2, "Grouping level settings should be clamped");
+
+  const metadata = buildMetadata({ title: "Rust programming tutorial and gpu benchmark" });
+  const categoryKeywords = {
+    Gaming: parseKeywordList("gpu:4"),
+    Tech: parseKeywordList("tutorial"),
+    "Tech/Programming": parseKeywordList("rust, programming"),
+    "Tech/Hardware": parseKeywordList("gpu, benchmark")
+  };
+  const nested = explainCategory(metadata, { categoryKeywords });
+  assert(nested.category === "Tech/Programming", "The best subtree should resolve to its most specific child");
+
+  const vetoed = explainCategory(metadata, {
+    categoryKeywords: { ...categoryKeywords, Tech: parseKeywordList("tutorial, !benchmark") }
+  });
+  assert(vetoed.category === "Gaming", "Vetoing a parent should rule out its subcategories");
+
+  const hashtag = explainCategory(
+    { ...metadata, hashtags: ["programming"] },
+    { categoryKeywords, allowedHashtags: ["programming"], hashtagMap: {} }
+  );
+  assert(hashtag.category === "Tech/Programming", "Hashtags should match a subcategory's name");
+}
+
+function assertGroupingStrategies() {
+  assert(normalizeDurationSeconds("PT1H2M3S") === 3723, "ISO 8601 durations should parse");
+  assert(normalizeDurationSeconds("754") === 754 && normalizeDurationSeconds("PT") === null, "Invalid durations should be null");
+  const metadata = normalizeVideoMetadata({
+    title: "Talk",
+    channel: "Conf Channel",
+    uploadDate: "2026-10-10T07:00:00-07:00",
+    durationSeconds: 1500,
+    language: "pt_BR"
+  });
+  assert(metadata.uploadDate === "2026-10-10" && metadata.language === "pt-br", "Upload date and language should normalize");
+
+  const context = {
+    url: "https://www.youtube.com/watch?v=abc&list=PL123",
+    metadata,
+    category: "Education",
+    now: Date.parse("2026-10-12T12:00:00Z")
+  };
+  const keyFor = (id: string) => getGroupingStrategy(id).getGroupKey(context);
+  assert(keyFor("category") === "Education" && keyFor("unknown") === "Education", "Unknown strategies group by category");
+  assert(keyFor("channel") === "Conf Channel", "Channel strategy should group by channel name");
+  assert(keyFor("playlist") === "Playlist PL123", "Playlist strategy should read the list= parameter");
+  assert(keyFor("recency") === "Past Week" && keyFor("duration") === "Over 20 min", "Recency and duration should bucket");
+  assert(keyFor("language").includes("Portuguese"), "Language strategy should use the language's name");
+
+  const unknown = getGroupingStrategy("recency").getGroupKey({ ...context, metadata: { ...metadata, uploadDate: "" } });
+  assert(unknown === "Education", "Strategies should fall back to the category when their signal is missing");
+  assert(validateRequest(MESSAGE_ACTIONS.BATCH_GROUP, { strategy: 42 } as never).valid === false, "Strategy must be a string");
+}
+
+function assertPlaylistGrouping() {
+  assert(
+    normalizePlaylistId("https://www.youtube.com/watch?v=abc&list=PLrAXtmErZgOe") === "PLrAXtmErZgOe",
+    "Playlist ids should be read from URLs"
+  );
+  assert(normalizePlaylistIndex("3") === 3 && normalizePlaylistIndex(0) === null, "Playlist indexes should be 1-based");
+
+  const metadata = normalizeVideoMetadata({ title: "Lesson 3", playlistId: "PL123", playlistTitle: "Rust Course" });
+  const key = getGroupingStrategy("playlist").getGroupKey({
+    url: "https://www.youtube.com/watch?v=abc&list=PL123&index=3",
+    metadata,
+    category: "Education",
+    now: Date.now()
+  });
+  assert(key === "Rust Course", "Playlist strategy should prefer the playlist title");
+}
+
+function assertVideoTypeRouting() {
+  assert(parseYouTubeUrl("https://www.youtube.com/shorts/dQw4w9WgXcQ")?.kind === "shorts", "Shorts URLs should be recognized");
+  assert(parseYouTubeUrl("https://www.youtube.com/live/dQw4w9WgXcQ?si=x")?.kind === "live", "Live URLs should be recognized");
+
+  const { videoTypeRouting } = withSettingsDefaults({
+    videoTypeRouting: { short: { action: "group", group: " " }, live: { action: "skip" } }
+  } as never);
+  assert(videoTypeRouting.short.group === "Shorts", "Blank route groups should fall back to the default name");
+  assert(videoTypeRouting.upcoming.action === "classify", "Missing routes should default to classify");
+
+  const short = normalizeVideoMetadata({ title: "Clip", isShort: true });
+  assert(getVideoTypeRoute(short, videoTypeRouting)?.group === "Shorts", "Shorts should route to their group");
+  assert(getVideoTypeRoute({ ...short, isLive: true }, videoTypeRouting)?.action === "skip", "A live Short should count as live");
+  assert(
+    getVideoTypeRoute(normalizeVideoMetadata({ isUpcoming: true }), videoTypeRouting) === null,
+    "Classified video types should not be routed"
+  );
+}
+
+function assertYouTubeUrls() {
+  const kindOf = (url: string) => parseYouTubeUrl(url)?.kind;
+  assert(kindOf("https://m.youtube.com/watch?v=dQw4w9WgXcQ") === "watch", "Mobile watch pages should be recognized");
+  assert(kindOf("https://youtu.be/dQw4w9WgXcQ?t=42") === "watch", "youtu.be links should be watch pages");
+  assert(kindOf("https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ") === "watch", "Nocookie embeds should be watch pages");
+  assert(kindOf("https://music.youtube.com/watch?v=dQw4w9WgXcQ") === "music", "Music pages should be their own kind");
+  assert(kindOf("https://www.youtube.com/") === "home" && kindOf("https://www.youtube.com/feed/subscriptions") === "other", "Home and feeds");
+  assert(kindOf("https://notyoutube.com/watch?v=dQw4w9WgXcQ") === undefined, "Other hosts are not YouTube");
+  assert(parseYouTubeUrl("https://www.youtube.com/@Veritasium/videos")?.channel === "@veritasium", "Channel handles should parse");
+  assert(parseYouTubeUrl("https://www.youtube.com/results?search_query=rust+async")?.searchQuery === "rust async", "Search queries");
+
+  const { pageKindPolicies } = withSettingsDefaults({ pageKindPolicies: { search: "channel", home: "classify" } } as never);
+  assert(pageKindPolicies.search === "query" && pageKindPolicies.home === "classify", "Policies must be valid for their kind");
+
+  const channel = getPageGrouping("https://www.youtube.com/@veritasium", "(2) Veritasium - YouTube", pageKindPolicies);
+  assert(channel.action === "group" && channel.groupKey === "Veritasium", "Channel pages should group by channel");
+  const search = getPageGrouping("https://www.youtube.com/results?search_query=cats", "cats - YouTube", pageKindPolicies);
+  assert(search.action === "group" && search.groupKey === "Search: cats", "Search pages should group by query");
+  const feed = getPageGrouping("https://www.youtube.com/feed/history", "History - YouTube", pageKindPolicies);
+  assert(feed.action === "ignore", "Other pages should be ignored by default");
+}
+
+function assertMusicGrouping() {
+  const url = "https://music.youtube.com/watch?v=dQw4w9WgXcQ&list=OLAK5uy_album";
+  const track = normalizeVideoMetadata({ title: "Song", artist: "Band", channel: "Band", album: "Debut" });
+  assert(getMusicGroupKey("artist", url, track) === "Band", "Music tabs should group by artist");
+  assert(getMusicGroupKey("album", url, track) === "Debut", "Music tabs should group by album");
+  assert(getMusicGroupKey("album", url, { ...track, album: "" }) === "", "Singles should fall back from album grouping");
+  assert(getMusicGroupKey("playlist", url, track) === "Playlist OLAK5uy_album", "Music tabs should group by queue playlist");
+  assert(getMusicGroupKey("category", url, track) === "", "Category mode should defer to the grouping strategy");
+  assert(withSettingsDefaults({ musicGrouping: "genre" } as never).musicGrouping === "artist", "Unknown music modes default to artist");
+}
+
+function assertSiteAdapters() {
+  const kindOf = (url: string) => parseSiteUrl(url)?.kind;
+  assert(parseSiteUrl("https://vimeo.com/76979871")?.videoId === "76979871", "Vimeo clips should be watch pages");
+  assert(kindOf("https://vimeo.com/channels/staffpicks/76979871") === "watch", "Vimeo channel clips should be watch pages");
+  assert(kindOf("https://vimeo.com/showcase/123") === "playlist" && kindOf("https://vimeo.com/blender") === "channel", "Vimeo showcases and users");
+  assert(parseSiteUrl("https://www.twitch.tv/videos/2001234567")?.site === "twitch", "Twitch VODs should be recognized");
+  assert(kindOf("https://www.twitch.tv/Shroud") === "live" && parseSiteUrl("https://www.twitch.tv/Shroud")?.channel === "shroud", "Twitch channels are live pages");
+  assert(kindOf("https://www.twitch.tv/shroud/videos") === "channel" && kindOf("https://www.twitch.tv/directory") === "other", "Twitch sub-pages");
+
+  const disabled = withSettingsDefaults({ enabledSites: { twitch: false } } as never).enabledSites;
+  assert(disabled.youtube && disabled.vimeo && !disabled.twitch, "Sites missing from settings should stay enabled");
+  assert(parseSiteUrl("https://www.twitch.tv/shroud", disabled) === null, "Disabled sites should not parse");
+  assert(!getSiteUrlPatterns(disabled).some((pattern) => pattern.includes("twitch")), "Disabled sites should not be queried");
+  const { pageKindPolicies } = withSettingsDefaults({});
+  assert(getPageGrouping("https://www.twitch.tv/shroud", "shroud - Twitch", pageKindPolicies, disabled).action === "ignore", "Disabled sites are ignored");
+
+  const stream = normalizeVideoMetadata({ site: "twitch", title: "Ranked grind", siteCategory: "Counter-Strike" });
+  const decision = explainCategory(stream, { aiEnabled: false });
+  assert(decision.category === "Gaming" && decision.trace.step === "siteCategory", "Twitch games should map to Gaming");
+  assert(explainCategory({ ...stream, siteCategory: "Just Chatting" }, { aiEnabled: false }).category === "Entertainment", "Non-game Twitch categories");
+  assert(explainCategory({ ...stream, site: "vimeo", siteCategory: "Documentary" }, { aiEnabled: false }).category === "Education", "Vimeo categories");
+  assert(normalizeVideoMetadata({ site: "dailymotion" } as never).site === "youtube", "Unknown sites default to YouTube");
+}
+
+function assertSubscriptionImport() {
+  const csv = [
+    "\uFEFFChannel Id,Channel Url,Channel Title",
+    "UC_x5XG1OV2P6uZZ5FSM9Ttw,http://www.youtube.com/channel/UC_x5XG1OV2P6uZZ5FSM9Ttw,Google Developers",
+    'UCHnyfMqiRRG1u-2MsSQLbXA,http://www.youtube.com/channel/UCHnyfMqiRRG1u-2MsSQLbXA,"Veritasium, ""Science"""',
+    "not-a-channel,,Broken row",
+    ""
+  ].join("\r\n");
+  const subscriptions = parseSubscriptionsCsv(csv);
+  assert(subscriptions.length === 2, "Invalid channel ids should be skipped");
+  assert(subscriptions[1].title === 'Veritasium, "Science"', "Quoted titles should keep commas and quotes");
+
+  const existing = migrateSettings({
+    version: 3,
+    channelCategoryMap: { "Google Developers": "Education" }
+  } as Record<string, unknown>).channelCategoryMap;
+  const incoming = toSubscriptionMappings(subscriptions.map((subscription) => ({ subscription, category: "Tech" })));
+  const preview = previewChannelImport(existing, incoming);
+  assert(preview.added.length === 1 && preview.conflicts.length === 1, "Name mappings for the same channel should conflict");
+
+  const kept = mergeChannelImport(existing, preview, false);
+  assert(kept["name:google developers"]?.category === "Education", "Conflicts should be kept without overwrite");
+  const replaced = mergeChannelImport(existing, preview, true);
+  assert(
+    replaced["id:UC_x5XG1OV2P6uZZ5FSM9Ttw"]?.category === "Tech" && !replaced["name:google developers"],
+    "Overwritten conflicts should replace the name entry with an id entry"
+  );
+}
+
+function assertTabPlacements() {
+  const placed = { videoId: "dQw4w9WgXcQ", groupId: 7, manual: false };
+  assert(shouldRegroupTab(placed, 7, "jNQXAC9IVRw"), "A new video in the placed group should be re-resolved");
+  assert(!shouldRegroupTab(placed, 7, "dQw4w9WgXcQ"), "The same video should not be re-resolved");
+  assert(!shouldRegroupTab(placed, 7, ""), "Pages without a video should not be re-resolved");
+  assert(!shouldRegroupTab(placed, -1, "jNQXAC9IVRw"), "Ungrouped tabs are not regrouped");
+  assert(!shouldRegroupTab({ ...placed, manual: true }, 7, "jNQXAC9IVRw"), "Manual category choices are sticky");
+  assert(!shouldRegroupTab(placed, 9, "jNQXAC9IVRw"), "Tabs dragged to another group are sticky");
+  assert(!shouldRegroupTab(null, 7, "jNQXAC9IVRw"), "Tabs grouped outside the extension are sticky");
+  assert(isPlacedByHand(null, 7) && !isPlacedByHand(placed, 7), "Placed-by-hand check");
+}
+
+function assertMetadataCache() {
+  assert(getMetadataCacheKey("https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL1") === "youtube:dQw4w9WgXcQ", "YouTube key");
+  assert(getMetadataCacheKey("https://youtu.be/dQw4w9WgXcQ") === "youtube:dQw4w9WgXcQ", "Short links share the key");
+  assert(getMetadataCacheKey("https://vimeo.com/76979871") === "vimeo:76979871", "Vimeo key");
+  assert(getMetadataCacheKey("https://www.youtube.com/@veritasium") === "", "Pages without a video are not cached");
+
+  const now = 10 * METADATA_CACHE_TTL_MS;
+  const metadata = normalizeVideoMetadata({ title: "Intro to Rust", channel: "Rustacean" });
+  const pruned = pruneMetadataCache(
+    {
+      fresh: { metadata, storedAt: now - 1000 },
+      expired: { metadata, storedAt: now - METADATA_CACHE_TTL_MS },
+      malformed: { metadata: { title: 42 } as never, storedAt: now }
+    },
+    now
+  );
+  assert(Object.keys(pruned).join() === "fresh", "Expired and malformed entries are pruned");
+
+  const full = Object.fromEntries(
+    Array.from({ length: METADATA_CACHE_MAX_ENTRIES + 5 }, (_, i) => [`youtube:${i}`, { metadata, storedAt: now - i }])
+  );
+  const capped = pruneMetadataCache(full, now);
+  assert(Object.keys(capped).length === METADATA_CACHE_MAX_ENTRIES && "youtube:0" in capped, "Oldest entries are dropped first");
+}
+
+function assertNoReceiverDetection() {
+  assert(isNoReceiverError(new Error("Could not establish connection. Receiving end does not exist.")), "No receiver");
+  assert(!isNoReceiverError(new Error("Message timed out after 4500ms")), "Timeouts are not missing receivers");
+}
+
+function assertExtractionHealth() {
+  const fields = { title: "selector:h1.title yt-formatted-string", channelHandle: null };
+  const request = { site: "youtube", fields } as Record<string, unknown>;
+  assert(validateRequest(MESSAGE_ACTIONS.REPORT_EXTRACTION, request).valid, "Extraction report should validate");
+  assert(!validateRequest(MESSAGE_ACTIONS.REPORT_EXTRACTION, { fields: {} } as Record<string, unknown>).valid, "Site is required");
+
+  let health = recordExtractionReport({}, "youtube", { title: "selector:ytd-watch-metadata h1", channelId: "playerResponse" }, 1000);
+  health = recordExtractionReport(health, "youtube", { title: "documentTitle", channelId: "" }, 2000);
+  health = recordExtractionReport(health, "youtube", { title: "selector:ytd-watch-metadata h1", bogus: "x" } as never, 3000);
+
+  const title = health["youtube:title"];
+  assert(title.attempts === 3 && title.successes === 3, "Every title attempt succeeded");
+  assert(title.strategies["selector:ytd-watch-metadata h1"] === 2 && title.strategies.documentTitle === 1, "Strategies counted");
+  const channelId = health["youtube:channelId"];
+  assert(getExtractionSuccessRate(channelId) === 0.5 && channelId.lastFailureAt === 2000, "Failures lower the rate");
+  assert(!("youtube:bogus" in health), "Untracked fields are ignored");
+
+  health = recordExtractionReport(health, "youtube", { channelHandle: "playerResponse", durationSeconds: "jsonLd" }, 4000);
+  health = recordExtractionReport(health, "youtube", { channelHandle: null, durationSeconds: null }, 5000);
+  const handle = health["youtube:channelHandle"];
+  assert(
+    handle.attempts === 1 && handle.notApplicable === 1 && getExtractionSuccessRate(handle) === 1 && handle.lastFailureAt === null,
+    "Not-applicable fields are counted apart and do not lower the rate"
+  );
+  const notApplicableOnly = recordExtractionReport({}, "youtube", { language: null });
+  assert(getExtractionSuccessRate(notApplicableOnly["youtube:language"]) === null, "No rate without attempts");
+
+  const cleaned = withExtractionHealthDefaults({ ...health, "myspace:title": title, "youtube:title": { attempts: 1, successes: 5 } });
+  assert(!("myspace:title" in cleaned) && cleaned["youtube:title"].successes === 1, "Malformed entries are normalized");
+}
+
+function assertWindowGroupState() {
+  const key = getWindowGroupKey(7, "Tech/Programming");
+  assert(key === "7:Tech/Programming", "State keys combine window and group key");
+  assert(parseWindowGroupKey(key)?.windowId === 7 && parseWindowGroupKey(key)?.groupKey === "Tech/Programming", "Keys parse");
+  assert(parseWindowGroupKey("Music") === null, "Bare legacy keys have no window");
+  assert(findGroupKeyColor({ "3:Gaming": "red", "7:Music": "blue" }, "Music") === "blue", "Color shared across windows");
+  assert(findGroupKeyColor({ "3:Gaming": "red" }, "Music") === "", "No color for unseen keys");
+
+  const group = (id: number, windowId: number, title: string, color: chrome.tabGroups.ColorEnum) =>
+    ({ id, windowId, title, color, collapsed: false }) as chrome.tabGroups.TabGroup;
+  const rebuilt = rebuildGroupingState(
+    {
+      groupIdMap: { "4:Music": 1, "4:Gaming": 2 },
+      groupColorMap: { "4:Music": "blue", "4:Gaming": "red", "4:Cooking": "green" },
+      categoryColorMap: { News: "yellow" },
+      version: 2
+    },
+    [group(10, 1, "Music", "blue"), group(11, 2, "Music", "cyan"), group(12, 2, "Gaming", "red"), group(13, 2, "Notes", "grey")]
+  );
+  assert(rebuilt.groupIdMap["1:Music"] === 10 && rebuilt.groupIdMap["2:Music"] === 11, "One entry per window");
+  assert(rebuilt.groupColorMap["2:Music"] === "cyan" && rebuilt.groupIdMap["2:Gaming"] === 12, "Current ids and colors win");
+  assert(!("2:Notes" in rebuilt.groupIdMap) && !("4:Music" in rebuilt.groupIdMap), "Unknown groups and stale windows are dropped");
+  assert(
+    rebuilt.categoryColorMap.Cooking === "green" && rebuilt.categoryColorMap.News === "yellow",
+    "Colors of closed groups are remembered across restarts"
+  );
+
+  const legacy = rebuildGroupingState(
+    { groupIdMap: { "2024: Recap": 5 }, groupColorMap: { "2024: Recap": "pink" }, version: 1 },
+    [group(20, 3, "2024: Recap", "pink")]
+  );
+  assert(legacy.groupIdMap["3:2024: Recap"] === 20, "Legacy keys containing a colon are bare group keys");
+  assert(legacy.categoryColorMap["2024: Recap"] === "pink" && legacy.version === 2, "Legacy state is migrated");
+}
+
+function assertManifestHosts() {
+  const manifest = JSON.parse(readFileSync(new URL("../../manifest.json", import.meta.url), "utf8")) as {
+    host_permissions: string[];
+    content_scripts: { matches: string[] }[];
+  };
+  const contentMatches = manifest.content_scripts.flatMap((script) => script.matches);
+  for (const pattern of getSiteUrlPatterns()) {
+    assert(manifest.host_permissions.includes(pattern), `Manifest should grant ${pattern}`);
+    assert(contentMatches.includes(pattern), `Content script should match ${pattern}`);
+  }
+}
+
+function assertInlineJson() {
+  const source = [
+    "if (window.ytInitialPlayerResponse) { track(); }",
+    'var ytInitialPlayerResponse = {"videoDetails":{"videoId":"dQw4w9WgXcQ","title":"Braces } { and \\"quotes\\""}};',
+    "var meta = document.createElement('meta');"
+  ].join("\n");
+  const player = readAssignedJson(source, "ytInitialPlayerResponse") as { videoDetails?: { title?: string } } | null;
+  assert(player?.videoDetails?.title === 'Braces } { and "quotes"', "Inline player response should parse past braces in strings");
+
+  const initialData = readAssignedJson('window["ytInitialData"] = {"contents":{}};', "ytInitialData");
+  assert(initialData !== null && "contents" in initialData, "Bracket assignments should parse");
+  assert(readAssignedJson("var ytInitialData = {broken", "ytInitialData") === null, "Unclosed objects should be ignored");
+  assert(readAssignedJson(source, "ytInitialData") === null, "Missing assignments should return null");
+}
+
+function assertLiveSignals() {
+  const none = { player: null, liveBadge: false, upcomingBadge: false, liveUrl: false };
+  const vod = { isLive: false, isUpcoming: false, isLiveContent: false };
+  assert(!deriveLiveFlags(none).isLive && !deriveLiveFlags(none).isUpcoming, "No signals means neither live nor upcoming");
+  assert(deriveLiveFlags({ ...none, player: vod, liveBadge: true }).isLive, "A live badge should mark the video live");
+  const upcoming = deriveLiveFlags({ ...none, player: vod, liveBadge: true, upcomingBadge: true });
+  assert(upcoming.isUpcoming && !upcoming.isLive && upcoming.isLiveContent, "An upcoming slate should win over live");
+  assert(deriveLiveFlags({ ...none, liveUrl: true }).isLive, "A /live/ URL should count without a player response");
+  assert(!deriveLiveFlags({ ...none, player: vod, liveUrl: true }).isLive, "A /live/ URL should not override the player");
+  assert(deriveLiveFlags({ ...none, player: { ...vod, isLive: true } }).isLive, "The player's live flag should still count");
 }
 
 function run() {
   assertValidRequest();
   assertInvalidRequest();
+  assertMetadataDeadline();
+  assertMetadataVersions();
   assertStatsMigration();
   assertSettingsDefaults();
+  assertCategoryRules();
+  assertCategoryTrace();
+  assertHashtagCategories();
+  assertYouTubeCategoryMapping();
+  assertKeywordMatcher();
+  assertWeightedKeywords();
+  assertKeywordConfidence();
+  assertLearnedModel();
+  assertChannelMapping();
+  assertSubscriptionImport();
+  assertNestedCategories();
+  assertGroupingStrategies();
+  assertPlaylistGrouping();
+  assertVideoTypeRouting();
+  assertYouTubeUrls();
+  assertMusicGrouping();
+  assertSiteAdapters();
+  assertTabPlacements();
+  assertMetadataCache();
+  assertNoReceiverDetection();
+  assertExtractionHealth();
+  assertWindowGroupState();
+  assertManifestHosts();
+  assertInlineJson();
+  assertLiveSignals();
   console.log("Smoke tests passed.");
 }
 
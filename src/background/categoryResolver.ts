@@ -1,119 +1,247 @@
-import type { Metadata } from "../shared/types";
-import { normalizeVideoMetadata } from "../shared/metadataSchema";
+import type {
+  CategoryDecision,
+  ChannelCategoryMap,
+  CategoryKeywordsMap,
+  CategoryRule,
+  CategoryRulesMode,
+  CategoryTrace,
+  KeywordField,
+  KeywordFieldWeights,
+  KeywordScore,
+  LearnedModel,
+  Metadata
+} from "../shared/types";
+import { normalizeHashtag, normalizeVideoMetadata } from "../shared/metadataSchema";
 import { DEFAULT_SETTINGS } from "./constants";
+import { resolveYouTubeCategoryId } from "../shared/youtubeCategories";
+import { predictFromLearnedModel, tokenizeForLearning } from "../shared/learningModel";
+import { findChannelMapping, getPreferredChannelKey } from "../shared/channelMap";
+import { getCategoryLeafName } from "../shared/categoryHierarchy";
+import { getSiteCategoryHint } from "../shared/sites";
+import { findMatchingRule } from "./categoryRules";
+import {
+  aggregateKeywordHits,
+  computeKeywordConfidence,
+  countWords,
+  getKeywordMatcher,
+  pickKeywordWinner
+} from "./keywordMatcher";
 
 const FALLBACK_CATEGORY = "Other";
 
 const toCategory = (value: unknown) => (typeof value === "string" ? value.trim() : "");
 
-function fromChannelMap(channel: string, channelMap: Record<string, string> = {}) {
-  if (!channel) return "";
-  return channelMap[channel] || "";
-}
-
-function predictFromKeywords(
-  metadata: Metadata,
-  aiEnabled: boolean,
-  categoryKeywords: Record<string, string[]> = DEFAULT_SETTINGS.categoryKeywords
+/**
+ * First whitelisted hashtag that maps to a category, either explicitly or by sharing a category's name
+ * (full path first, then the last segment so #programming finds "Tech/Programming").
+ */
+function fromHashtags(
+  hashtags: string[],
+  allowedHashtags: string[],
+  hashtagMap: Record<string, string>,
+  knownCategories: string[]
 ) {
-  if (!aiEnabled) return "";
-
-  const scores: Record<string, number> = {};
-  const text = `${metadata.title} ${metadata.description} ${(metadata.keywords || []).join(" ")}`.toLowerCase();
-
-  for (const [category, keywords] of Object.entries(categoryKeywords || {})) {
-    const score = (keywords || []).reduce((sum, keyword) => {
-      const regex = new RegExp(`\\b${keyword}\\b`, "gi");
-      return sum + (text.match(regex) || []).length;
-    }, 0);
-
-    if (score > 0) {
-      scores[category] = score;
-    }
+  const allowed = new Set(allowedHashtags.map(normalizeHashtag));
+  const categoriesByName = new Map(knownCategories.map((category) => [category.toLowerCase(), category]));
+  for (const category of knownCategories) {
+    const leaf = getCategoryLeafName(category).toLowerCase();
+    if (leaf && !categoriesByName.has(leaf)) categoriesByName.set(leaf, category);
   }
 
-  let bestCategory = "";
-  let bestScore = 0;
-
-  for (const [category, score] of Object.entries(scores)) {
-    if (score > bestScore) {
-      bestCategory = category;
-      bestScore = score;
+  for (const hashtag of hashtags) {
+    if (!allowed.has(hashtag)) continue;
+    const category = toCategory(hashtagMap[hashtag]) || categoriesByName.get(hashtag) || "";
+    if (category) {
+      return { hashtag, category };
     }
   }
-
-  return bestCategory;
+  return null;
 }
 
-export function mapYouTubeCategory(youtubeCategory: string | number | null) {
-  if (!youtubeCategory) return "";
-
-  const categoryMap: Record<string, string> = {
-    Music: "Music",
-    Gaming: "Gaming",
-    Entertainment: "Entertainment",
-    Sports: "Fitness",
-    "News & Politics": "News",
-    Education: "Education",
-    Tech: "Tech",
-    Cooking: "Cooking",
-    "Howto & Style": "Education",
-    "Travel & Events": "Entertainment",
-    "People & Blogs": "Entertainment",
-    Comedy: "Entertainment",
-    "Film & Animation": "Entertainment",
-    Autos: "Tech",
-    "Pets & Animals": "Entertainment",
-    "Nonprofits & Activism": "News"
-  };
+/**
+ * Score every category by weighted keyword hits in each field; sorted best-first.
+ * Fields are matched separately so phrases never span two fields.
+ */
+const getKeywordFields = (metadata: Metadata): Record<KeywordField, string> => ({
+  title: metadata.title,
+  channel: metadata.channel,
+  keywords: (metadata.keywords || []).join(", "),
+  description: metadata.description
+});
+
+function scoreKeywords(
+  metadata: Metadata,
+  categoryKeywords: CategoryKeywordsMap = DEFAULT_SETTINGS.categoryKeywords,
+  fieldWeights: KeywordFieldWeights = DEFAULT_SETTINGS.keywordFieldWeights
+): KeywordScore[] {
+  const matcher = getKeywordMatcher(categoryKeywords || {});
+  const fields = getKeywordFields(metadata);
+
+  const hits = (Object.keys(fields) as KeywordField[]).flatMap((field) =>
+    matcher.matchText(fields[field]).map((hit) => ({ ...hit, fieldWeight: fieldWeights?.[field] ?? 1 }))
+  );
+  return aggregateKeywordHits(hits, matcher.categories);
+}
 
-  return categoryMap[String(youtubeCategory)] || "";
+/**
+ * Map a YouTube category (numeric id or display name) through the id-keyed category map.
+ */
+export function mapYouTubeCategory(
+  youtubeCategory: string | number | null,
+  youtubeCategoryMap: Record<string, string> = DEFAULT_SETTINGS.youtubeCategoryMap
+) {
+  const id = resolveYouTubeCategoryId(youtubeCategory);
+  if (!id) return "";
+  return toCategory(youtubeCategoryMap[id]);
 }
 
-interface CategoryOptions {
+export interface CategoryOptions {
   requestedCategory?: string;
   aiEnabled?: boolean;
-  categoryKeywords?: Record<string, string[]>;
-  channelMap?: Record<string, string>;
+  categoryKeywords?: CategoryKeywordsMap;
+  keywordFieldWeights?: KeywordFieldWeights;
+  /** Keyword winners below this confidence fall through to the YouTube category, then `reviewCategory`. */
+  minConfidence?: number;
+  reviewCategory?: string;
+  /** Locally trained classifier; omit or pass null when learning is disabled. */
+  learnedModel?: LearnedModel | null;
+  channelMap?: ChannelCategoryMap;
+  allowedHashtags?: string[];
+  hashtagMap?: Record<string, string>;
+  youtubeCategoryMap?: Record<string, string>;
+  rules?: CategoryRule[];
+  rulesMode?: CategoryRulesMode;
+  url?: string;
 }
 
 /**
  * Deterministic category resolution priority:
- * 1) channel mapping
+ * 0) user rules, in order (in "replace" mode they are the only step before the fallback)
+ * 1) channel mapping (by channel id, then handle, then display name)
  * 2) supplied override
- * 3) keyword scoring (if enabled)
- * 4) YouTube category mapping
- * 5) fallback ("Other")
+ * 2b) local classifier trained on explicit category choices
+ * 3) whitelisted hashtags
+ * 4) weighted keyword scoring (if enabled; veto keywords rule a category and its subcategories out)
+ *    when its confidence reaches `minConfidence`; nested categories ("Tech/Programming") resolve
+ *    to the most specific child that scored
+ * 5) YouTube category mapping, then the site adapter's hint from the site's own category (Twitch game, Vimeo genre)
+ * 6) review category when keywords matched with too little confidence, otherwise fallback ("Other")
+ *
+ * Returns the category together with a trace of what each step saw, so callers can explain the decision.
  */
-export function predictCategory(rawMetadata: Metadata, options: CategoryOptions = {}) {
+export function explainCategory(rawMetadata: Metadata, options: CategoryOptions = {}): CategoryDecision {
   const {
     requestedCategory = "",
     aiEnabled = true,
     categoryKeywords = DEFAULT_SETTINGS.categoryKeywords,
-    channelMap = {}
+    keywordFieldWeights = DEFAULT_SETTINGS.keywordFieldWeights,
+    minConfidence = 0,
+    reviewCategory = DEFAULT_SETTINGS.reviewCategory,
+    learnedModel = null,
+    channelMap = {},
+    allowedHashtags = DEFAULT_SETTINGS.allowedHashtags,
+    hashtagMap = DEFAULT_SETTINGS.hashtagCategoryMap,
+    youtubeCategoryMap = DEFAULT_SETTINGS.youtubeCategoryMap,
+    rules = [],
+    rulesMode = "before",
+    url = ""
   } = options;
 
   const metadata = normalizeVideoMetadata(rawMetadata);
 
-  const mappedChannelCategory = fromChannelMap(metadata.channel, channelMap);
-  if (mappedChannelCategory) {
-    return mappedChannelCategory;
+  const trace: CategoryTrace = {
+    step: "fallback",
+    rule: null,
+    rulesMode,
+    channelKey: getPreferredChannelKey(metadata),
+    channelMatched: false,
+    override: toCategory(requestedCategory),
+    learned: null,
+    hashtags: metadata.hashtags,
+    matchedHashtag: "",
+    aiEnabled,
+    keywordScores: [],
+    confidence: null,
+    minConfidence,
+    youtubeCategory: metadata.youtubeCategory,
+    youtubeCategoryId: resolveYouTubeCategoryId(metadata.youtubeCategory),
+    youtubeMappedCategory: "",
+    site: metadata.site,
+    siteCategory: metadata.siteCategory,
+    siteMappedCategory: ""
+  };
+
+  const decide = (step: CategoryTrace["step"], category: string): CategoryDecision => {
+    trace.step = step;
+    return { category, trace };
+  };
+
+  const matchedRule = findMatchingRule(rules, metadata, url);
+  if (matchedRule) {
+    trace.rule = { id: matchedRule.id, name: matchedRule.name };
+    return decide("rule", matchedRule.category);
+  }
+
+  if (rulesMode === "replace") {
+    return decide("fallback", FALLBACK_CATEGORY);
+  }
+
+  const channelMatch = findChannelMapping(channelMap, metadata);
+  if (channelMatch) {
+    trace.channelKey = channelMatch.key;
+    trace.channelMatched = true;
+    return decide("channelMap", channelMatch.entry.category);
+  }
+
+  if (trace.override) {
+    return decide("override", trace.override);
+  }
+
+  trace.learned = predictFromLearnedModel(learnedModel, tokenizeForLearning(metadata));
+  if (trace.learned) {
+    return decide("learned", trace.learned.category);
+  }
+
+  const hashtagMatch = fromHashtags(
+    metadata.hashtags,
+    allowedHashtags,
+    hashtagMap,
+    Object.keys(categoryKeywords || {})
+  );
+  if (hashtagMatch) {
+    trace.matchedHashtag = hashtagMatch.hashtag;
+    return decide("hashtag", hashtagMatch.category);
+  }
+
+  // Scores are collected for the trace even when they do not decide the category.
+  trace.keywordScores = scoreKeywords(metadata, categoryKeywords, keywordFieldWeights);
+  trace.youtubeMappedCategory = mapYouTubeCategory(metadata.youtubeCategory, youtubeCategoryMap);
+  trace.siteMappedCategory = getSiteCategoryHint(metadata);
+
+  const bestKeyword = pickKeywordWinner(trace.keywordScores);
+  if (bestKeyword) {
+    const wordCount = Object.values(getKeywordFields(metadata)).reduce((sum, text) => sum + countWords(text), 0);
+    trace.confidence = computeKeywordConfidence(trace.keywordScores, wordCount);
+  }
+  if (aiEnabled && bestKeyword && (trace.confidence ?? 0) >= minConfidence) {
+    return decide("keywords", bestKeyword.category);
   }
 
-  const override = toCategory(requestedCategory);
-  if (override) {
-    return override;
+  if (trace.youtubeMappedCategory) {
+    return decide("youtubeCategory", trace.youtubeMappedCategory);
   }
 
-  const keywordCategory = predictFromKeywords(metadata, aiEnabled, categoryKeywords);
-  if (keywordCategory) {
-    return keywordCategory;
+  if (trace.siteMappedCategory) {
+    return decide("siteCategory", trace.siteMappedCategory);
   }
 
-  const youtubeMappedCategory = mapYouTubeCategory(metadata.youtubeCategory);
-  if (youtubeMappedCategory) {
-    return youtubeMappedCategory;
+  if (aiEnabled && bestKeyword && toCategory(reviewCategory)) {
+    return decide("review", toCategory(reviewCategory));
   }
 
-  return FALLBACK_CATEGORY;
+  return decide("fallback", FALLBACK_CATEGORY);
+}
+
+export function predictCategory(rawMetadata: Metadata, options: CategoryOptions = {}) {
+  return explainCategory(rawMetadata, options).category;
 }
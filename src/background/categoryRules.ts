@@ -0,0 +1,75 @@
+import type { CategoryRule, CategoryRuleCondition, Metadata } from "../shared/types";
+
+const patternCache = new Map<string, RegExp | null>();
+
+function getPattern(source: string): RegExp | null {
+  if (!patternCache.has(source)) {
+    try {
+      patternCache.set(source, new RegExp(source, "i"));
+    } catch {
+      patternCache.set(source, null);
+    }
+  }
+  return patternCache.get(source) ?? null;
+}
+
+function readFieldValues(condition: CategoryRuleCondition, metadata: Metadata, url: string): string[] {
+  switch (condition.field) {
+    case "title":
+      return [metadata.title];
+    case "channel":
+      return [metadata.channel];
+    case "description":
+      return [metadata.description];
+    case "keywords":
+      return metadata.keywords || [];
+    case "youtubeCategory":
+      return metadata.youtubeCategory === null ? [] : [String(metadata.youtubeCategory)];
+    case "url":
+      return [url];
+    default:
+      return [];
+  }
+}
+
+function matchesValue(condition: CategoryRuleCondition, candidate: string) {
+  if (!candidate) return false;
+
+  switch (condition.operator) {
+    case "contains":
+      return candidate.toLowerCase().includes(condition.value.toLowerCase());
+    case "equals":
+      return candidate.trim().toLowerCase() === condition.value.toLowerCase();
+    case "regex":
+      return getPattern(condition.value)?.test(candidate) ?? false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * A condition on a multi-valued field (keywords) holds when any of its values match.
+ */
+export function matchesCondition(condition: CategoryRuleCondition, metadata: Metadata, url = "") {
+  return readFieldValues(condition, metadata, url).some((candidate) => matchesValue(condition, candidate));
+}
+
+export function matchesRule(rule: CategoryRule, metadata: Metadata, url = "") {
+  if (!rule.enabled || rule.conditions.length === 0) return false;
+
+  return rule.match === "any"
+    ? rule.conditions.some((condition) => matchesCondition(condition, metadata, url))
+    : rule.conditions.every((condition) => matchesCondition(condition, metadata, url));
+}
+
+/**
+ * Evaluate user rules in order; the first matching rule wins.
+ */
+export function findMatchingRule(rules: CategoryRule[] = [], metadata: Metadata, url = ""): CategoryRule | null {
+  for (const rule of rules) {
+    if (matchesRule(rule, metadata, url)) {
+      return rule;
+    }
+  }
+  return null;
+}
@@ -33,6 +33,47 @@ export function queryTabs(query: chrome.tabs.QueryInfo): Promise<chrome.tabs.Tab
   });
 }
 
+export function getTab(tabId: number): Promise<chrome.tabs.Tab> {
+  const context = "tabs.get";
+  return new Promise((resolve, reject) => {
+    try {
+      chrome.tabs.get(tabId, (tab) => {
+        if (chrome.runtime.lastError) {
+          const error = normalizeChromeError(context, chrome.runtime.lastError);
+          logError(`${context} failed`, error.message);
+          reject(error);
+        } else {
+          resolve(tab);
+        }
+      });
+    } catch (error) {
+      handleCatch(context, reject)(error);
+    }
+  });
+}
+
+/**
+ * Move tabs (in array order) so the first lands at `index` in its window.
+ */
+export function moveTabs(tabIds: number[], index: number): Promise<void> {
+  const context = "tabs.move";
+  return new Promise((resolve, reject) => {
+    try {
+      chrome.tabs.move(tabIds, { index }, () => {
+        if (chrome.runtime.lastError) {
+          const error = normalizeChromeError(context, chrome.runtime.lastError);
+          logError(`${context} failed`, error.message);
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    } catch (error) {
+      handleCatch(context, reject)(error);
+    }
+  });
+}
+
 export function queryGroups(query: chrome.tabGroups.QueryInfo): Promise<chrome.tabGroups.TabGroup[]> {
   const context = "tabGroups.query";
   return new Promise((resolve, reject) => {
@@ -135,3 +176,45 @@ export function removeTabGroup(groupId: number): Promise<void> {
     });
   });
 }
+
+/**
+ * Inject a script file or function into a tab (main frame, isolated world); resolves with the
+ * main frame's result.
+ */
+export function executeScript<Result>(injection: chrome.scripting.ScriptInjection<[], Result>): Promise<Result | undefined> {
+  const context = "scripting.executeScript";
+  return new Promise((resolve, reject) => {
+    try {
+      chrome.scripting.executeScript(injection, (results) => {
+        if (chrome.runtime.lastError) {
+          const error = normalizeChromeError(context, chrome.runtime.lastError);
+          logError(`${context} failed`, error.message);
+          reject(error);
+        } else {
+          resolve(results?.[0]?.result as Result | undefined);
+        }
+      });
+    } catch (error) {
+      handleCatch(context, reject)(error);
+    }
+  });
+}
+
+export function insertCSS(injection: chrome.scripting.CSSInjection): Promise<void> {
+  const context = "scripting.insertCSS";
+  return new Promise((resolve, reject) => {
+    try {
+      chrome.scripting.insertCSS(injection, () => {
+        if (chrome.runtime.lastError) {
+          const error = normalizeChromeError(context, chrome.runtime.lastError);
+          logError(`${context} failed`, error.message);
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    } catch (error) {
+      handleCatch(context, reject)(error);
+    }
+  });
+}
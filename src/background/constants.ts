@@ -5,7 +5,11 @@ export {
     SETTINGS_VERSION,
     withSettingsDefaults,
     isSettings,
-    migrateSettingsV0ToV1
+    migrateSettingsV0ToV1,
+    migrateSettingsV1ToV2,
+    migrateSettingsV2ToV3,
+    migrateSettingsV3ToV4,
+    migrateSettings
 } from '../shared/settings';
 
 export {
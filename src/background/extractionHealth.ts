@@ -0,0 +1,30 @@
+import { logWarn } from "./logger";
+import { getExtractionHealth, recordExtractionReport, saveExtractionHealth } from "../shared/extractionHealth";
+import type { ExtractionReport, SiteId } from "../shared/types";
+
+const toErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return "Unknown error";
+  }
+};
+
+// Reports from several tabs can arrive together; apply them one at a time so none is lost.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Add a content script's extraction report to the stored per-field health.
+ */
+export function recordExtraction(site: SiteId, report: ExtractionReport): Promise<void> {
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      await saveExtractionHealth(recordExtractionReport(await getExtractionHealth(), site, report));
+    } catch (error) {
+      logWarn("extractionHealth:recordExtraction failed", toErrorMessage(error));
+    }
+  });
+  return pendingWrite;
+}
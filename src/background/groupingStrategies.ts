@@ -0,0 +1,141 @@
+import { isGroupingStrategyId } from "../shared/settings";
+import type { GroupingStrategyId, Metadata, MusicGroupingMode } from "../shared/types";
+
+export interface GroupingContext {
+  url: string;
+  metadata: Metadata;
+  /** Category resolved for the tab; strategies fall back to it when their own signal is missing. */
+  category: string;
+  now: number;
+}
+
+export interface GroupingStrategy {
+  id: GroupingStrategyId;
+  /** Tab group title; tabs with the same key share a group. */
+  getGroupKey: (context: GroupingContext) => string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RECENCY_BUCKETS: readonly { maxDays: number; label: string }[] = [
+  { maxDays: 1, label: "Today" },
+  { maxDays: 7, label: "Past Week" },
+  { maxDays: 31, label: "Past Month" },
+  { maxDays: 365, label: "Past Year" }
+];
+
+/** YouTube's own search filter buckets. */
+const DURATION_BUCKETS: readonly { maxSeconds: number; label: string }[] = [
+  { maxSeconds: 4 * 60, label: "Under 4 min" },
+  { maxSeconds: 20 * 60, label: "4-20 min" }
+];
+
+const languageNames =
+  typeof Intl !== "undefined" && typeof Intl.DisplayNames === "function"
+    ? new Intl.DisplayNames(["en"], { type: "language" })
+    : null;
+
+const readUrlParam = (url: string, name: string) => {
+  try {
+    return new URL(url).searchParams.get(name)?.trim() || "";
+  } catch {
+    return "";
+  }
+};
+
+/**
+ * Playlist id from a watch URL's `list=` parameter.
+ */
+export function getPlaylistId(url: string): string {
+  return readUrlParam(url, "list");
+}
+
+/**
+ * 1-based playlist position from a watch URL's `index=` parameter.
+ */
+export function getPlaylistIndex(url: string): number | null {
+  const index = Number(readUrlParam(url, "index"));
+  return Number.isInteger(index) && index > 0 ? index : null;
+}
+
+/**
+ * Group title for the tab's playlist: its title when known, otherwise its id; empty when not in a playlist.
+ */
+export function getPlaylistGroupKey(url: string, metadata: Metadata): string {
+  const playlistId = metadata.playlistId || getPlaylistId(url);
+  if (!playlistId) return "";
+  return metadata.playlistTitle || `Playlist ${playlistId}`;
+}
+
+/**
+ * Group title for a YouTube Music tab under `musicGrouping`. Empty for "category" and when the track
+ * lacks the field (e.g. a single has no album), so the caller falls back to its usual group key.
+ */
+export function getMusicGroupKey(mode: MusicGroupingMode, url: string, metadata: Metadata): string {
+  switch (mode) {
+    case "artist":
+      return metadata.artist || metadata.channel;
+    case "album":
+      return metadata.album;
+    case "playlist":
+      return getPlaylistGroupKey(url, metadata);
+    default:
+      return "";
+  }
+}
+
+function getRecencyLabel(uploadDate: string, now: number): string {
+  const uploaded = Date.parse(`${uploadDate}T00:00:00Z`);
+  if (!uploadDate || Number.isNaN(uploaded)) return "";
+
+  const ageDays = Math.max(0, (now - uploaded) / DAY_MS);
+  return RECENCY_BUCKETS.find((bucket) => ageDays < bucket.maxDays)?.label ?? "Older";
+}
+
+function getDurationLabel(durationSeconds: number | null): string {
+  if (!durationSeconds) return "";
+  return DURATION_BUCKETS.find((bucket) => durationSeconds < bucket.maxSeconds)?.label ?? "Over 20 min";
+}
+
+function getLanguageLabel(language: string): string {
+  if (!language) return "";
+  try {
+    return languageNames?.of(language) || language.toUpperCase();
+  } catch {
+    return language.toUpperCase();
+  }
+}
+
+export const GROUPING_STRATEGY_REGISTRY: Record<GroupingStrategyId, GroupingStrategy> = {
+  category: {
+    id: "category",
+    getGroupKey: ({ category }) => category
+  },
+  channel: {
+    id: "channel",
+    getGroupKey: ({ metadata, category }) => metadata.channel || metadata.channelHandle || category
+  },
+  playlist: {
+    id: "playlist",
+    getGroupKey: ({ url, metadata, category }) => getPlaylistGroupKey(url, metadata) || category
+  },
+  recency: {
+    id: "recency",
+    getGroupKey: ({ metadata, category, now }) => getRecencyLabel(metadata.uploadDate, now) || category
+  },
+  duration: {
+    id: "duration",
+    getGroupKey: ({ metadata, category }) => getDurationLabel(metadata.durationSeconds) || category
+  },
+  language: {
+    id: "language",
+    getGroupKey: ({ metadata, category }) => getLanguageLabel(metadata.language) || category
+  }
+};
+
+/**
+ * Strategy for an id, falling back to grouping by category for unknown ids.
+ */
+export function getGroupingStrategy(id: unknown): GroupingStrategy {
+  return GROUPING_STRATEGY_REGISTRY[isGroupingStrategyId(id) ? id : "category"];
+}
@@ -1,28 +1,72 @@
 import { AVAILABLE_COLORS, DEFAULT_SETTINGS } from "./constants";
 import { loadSettings, saveSettings, runMigrations } from "./storage";
-import { predictCategory } from "./categoryResolver";
+import { explainCategory } from "./categoryResolver";
+import type { CategoryOptions } from "./categoryResolver";
+import { resetKeywordMatcherCache } from "./keywordMatcher";
+import { upgradeChannelNameMappings } from "../shared/channelMap";
+import { isGroupingStrategyId } from "../shared/settings";
+import { getModelForPrediction, learnCategoryChoice, resetLearnedModelCache } from "./learning";
+import { listReviewItems, recordReviewDecision, removeReviewItem } from "./reviewQueue";
+import {
+  getTabPlacement,
+  isPlacedByHand,
+  pruneTabPlacements,
+  recordTabPlacement,
+  removeTabPlacement,
+  shouldRegroupTab
+} from "./tabPlacements";
 import {
   initializeGroupingState,
   groupTab,
   autoCleanupEmptyGroups,
   handleGroupRemoved,
   handleGroupUpdated,
-  getEnabledColors
+  handleWindowRemoved,
+  getEnabledColors,
+  getGroupLayout,
+  forgetTabCategory,
+  getTabCategory,
+  groupTabUnder,
+  orderGroupTabs
 } from "./tabGrouping";
-import { queryTabs } from "./chromeApi";
+import { getTab, queryTabs } from "./chromeApi";
 import { getVideoMetadata } from "./metadataFetcher";
+import { cacheMetadata, getCachedMetadata } from "./metadataCache";
+import { injectContentScripts } from "./scriptInjection";
+import { recordExtraction } from "./extractionHealth";
+import { normalizeExtractionReport } from "../shared/extractionHealth";
+import { getGroupingStrategy, getMusicGroupKey, getPlaylistGroupKey, getPlaylistIndex } from "./groupingStrategies";
+import { getVideoTypeRoute } from "./videoTypeRouting";
+import { getPageGrouping } from "./pagePolicy";
+import { getSiteUrlPatterns, isSiteId, isSupportedUrl, parseSiteUrl } from "../shared/sites";
 import {
   MESSAGE_ACTIONS,
   MessageAction,
   buildBatchGroupResponse,
   buildErrorResponse,
+  buildExplainCategoryResponse,
   buildGroupTabResponse,
   buildIsGroupedResponse,
-  buildSettingsResponse
+  buildReviewQueueResponse,
+  buildSettingsResponse,
+  buildSuccessResponse
 } from "../shared/messageContracts";
 import { handleMessage, generateRequestId, MESSAGE_VERSION } from "../shared/messageTransport";
-import { logDebug, setDebugLogging } from "./logger";
-import type { Settings, Metadata, GroupTabRequest } from "../shared/types";
+import { logDebug, logWarn, setDebugLogging } from "./logger";
+import type {
+  BatchGroupRequest,
+  GroupingStrategyId,
+  GroupTabRequest,
+  LearnedModel,
+  Metadata,
+  Settings
+} from "../shared/types";
+
+const GROUP_AS_MENU_PREFIX = "groupTabAs:";
+/** Wait after a tab's URL changes before re-resolving it, so the new video's page has rendered. */
+const VIDEO_CHANGE_DELAY_MS = 2000;
+
+const videoChangeTimers = new Map<number, ReturnType<typeof setTimeout>>();
 
 const toErrorMessage = (error: unknown) => {
   if (error instanceof Error) return error.message;
@@ -36,12 +80,19 @@ const toErrorMessage = (error: unknown) => {
 
 void bootstrap();
 
-chrome.runtime.onInstalled.addListener(() => {
+chrome.runtime.onInstalled.addListener((details) => {
   void (async () => {
     try {
       await initializeGroupingState();
+      await pruneTabPlacements();
       await runMigrations();
       await registerContextMenus();
+      // Tabs opened before an install or update have no (or an orphaned) content script.
+      const { INSTALL, UPDATE } = chrome.runtime.OnInstalledReason;
+      if (details.reason === INSTALL || details.reason === UPDATE) {
+        const settings = await loadSettings();
+        await injectContentScripts(settings.enabledSites);
+      }
     } catch (error) {
       console.error("Install initialization failed:", error);
     }
@@ -75,6 +126,22 @@ const MESSAGE_ROUTES: Partial<Record<MessageAction, RouteConfig>> = {
   [MESSAGE_ACTIONS.IS_TAB_GROUPED]: {
     requiresEnabled: false,
     handler: handleIsTabGroupedMessage
+  },
+  [MESSAGE_ACTIONS.EXPLAIN_CATEGORY]: {
+    requiresEnabled: false,
+    handler: handleExplainCategoryMessage
+  },
+  [MESSAGE_ACTIONS.GET_REVIEW_QUEUE]: {
+    requiresEnabled: false,
+    handler: handleGetReviewQueueMessage
+  },
+  [MESSAGE_ACTIONS.ASSIGN_CATEGORY]: {
+    requiresEnabled: true,
+    handler: handleAssignCategoryMessage
+  },
+  [MESSAGE_ACTIONS.REPORT_EXTRACTION]: {
+    requiresEnabled: true,
+    handler: handleReportExtractionMessage
   }
 };
 
@@ -99,6 +166,28 @@ chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
   return backgroundDispatcher(msg, sender, sendResponse);
 });
 
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "sync" && (changes.categoryKeywords || changes.enabledSites)) {
+    resetKeywordMatcherCache();
+    void registerContextMenus().catch((error) => console.error("Context menu refresh failed:", error));
+  }
+  if (areaName === "local" && changes.learnedModel) {
+    resetLearnedModelCache();
+  }
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  clearTimeout(videoChangeTimers.get(tabId));
+  videoChangeTimers.delete(tabId);
+  void removeReviewItem(tabId);
+  void forgetTabCategory(tabId);
+  void removeTabPlacement(tabId);
+});
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.url) scheduleVideoChangeCheck(tabId);
+});
+
 chrome.contextMenus.onClicked.addListener((info, tab) => {
   void handleContextMenuClick(info, tab);
 });
@@ -120,6 +209,14 @@ chrome.tabGroups.onUpdated.addListener((group) => {
   })();
 });
 
+chrome.tabGroups.onMoved.addListener((group) => {
+  void handleGroupUpdated(group);
+});
+
+chrome.windows.onRemoved.addListener((windowId) => {
+  void handleWindowRemoved(windowId);
+});
+
 setInterval(() => {
   void loadSettings()
     .then((settings) => {
@@ -133,6 +230,7 @@ setInterval(() => {
 async function bootstrap() {
   try {
     await initializeGroupingState();
+    await pruneTabPlacements();
     await runMigrations();
     await registerContextMenus();
   } catch (error) {
@@ -185,17 +283,36 @@ function isLegacyGroupTab(msg) {
 
 async function registerContextMenus() {
   await clearContextMenus();
+  const settings = await loadSettings();
+  const documentUrlPatterns = getSiteUrlPatterns(settings.enabledSites);
 
   chrome.contextMenus.create({
     id: "groupTab",
     title: "Group This Tab",
     contexts: ["page"],
-    documentUrlPatterns: ["https://www.youtube.com/*"]
+    documentUrlPatterns
+  });
+
+  // Explicit choices made here also train the local classifier.
+  chrome.contextMenus.create({
+    id: "groupTabAs",
+    title: "Group This Tab As",
+    contexts: ["page"],
+    documentUrlPatterns
   });
+  for (const category of Object.keys(settings.categoryKeywords || {})) {
+    chrome.contextMenus.create({
+      id: `${GROUP_AS_MENU_PREFIX}${category}`,
+      parentId: "groupTabAs",
+      title: category,
+      contexts: ["page"],
+      documentUrlPatterns
+    });
+  }
 
   chrome.contextMenus.create({
     id: "groupAllYT",
-    title: "Group All YouTube Tabs",
+    title: "Group All Video Tabs",
     contexts: ["page"]
   });
 }
@@ -211,8 +328,18 @@ async function clearContextMenus() {
   });
 }
 
-async function handleGroupTabMessage(msg: GroupTabRequest, sender: chrome.runtime.MessageSender, preloadedSettings?: Settings) {
+/**
+ * The tab a request is about: a content script's own tab, which need not be the active one
+ * (autoplay and navigation in background tabs), otherwise the active tab (popup, commands).
+ */
+async function getRequestTab(sender: chrome.runtime.MessageSender): Promise<chrome.tabs.Tab | undefined> {
+  if (sender.tab?.id !== undefined) return getTab(sender.tab.id);
   const [tab] = await queryTabs({ active: true, currentWindow: true });
+  return tab;
+}
+
+async function handleGroupTabMessage(msg: GroupTabRequest, sender: chrome.runtime.MessageSender, preloadedSettings?: Settings) {
+  const tab = await getRequestTab(sender);
   if (tab?.id === undefined) {
     return buildErrorResponse("No active tab found");
   }
@@ -222,25 +349,51 @@ async function handleGroupTabMessage(msg: GroupTabRequest, sender: chrome.runtim
     return buildErrorResponse("Extension is disabled");
   }
 
+  // Auto-grouping from the content script leaves tabs the user placed by hand where they are.
+  if (sender.tab && !msg.category?.trim() && (tab.groupId ?? -1) >= 0) {
+    if (isPlacedByHand(await getTabPlacement(tab.id), tab.groupId)) {
+      return buildErrorResponse("Skipped: tab was placed by hand");
+    }
+  }
+
+  // Content-script requests carry the page's metadata: cache it, and resolve from the cache.
+  if (sender.tab && msg.metadata) {
+    await cacheMetadata(tab.url, msg.metadata);
+  }
+
   const enabledColors = getEnabledColors(settings, AVAILABLE_COLORS);
-  const category = await resolveCategory(tab, settings, msg.metadata, msg.category);
-  const result = await groupTab(tab, category, enabledColors);
+  const result = await resolveAndGroupTab(tab, settings, enabledColors, {
+    metadata: msg.metadata,
+    category: msg.category,
+    useCache: Boolean(sender.tab)
+  });
+  if (!result) {
+    return buildErrorResponse("Skipped: grouping is turned off for this kind of page");
+  }
+  if (msg.category?.trim()) {
+    void learnCategoryChoice(tab, settings, result.category, msg.metadata);
+  }
 
-  return buildGroupTabResponse({ category, color: result.color });
+  return buildGroupTabResponse(result);
 }
 
-async function handleIsTabGroupedMessage() {
+async function handleIsTabGroupedMessage(_msg: Record<string, unknown>, sender: chrome.runtime.MessageSender) {
   try {
-    const [tab] = await queryTabs({ active: true, currentWindow: true });
+    const tab = await getRequestTab(sender);
     return buildIsGroupedResponse((tab?.groupId ?? -1) >= 0);
   } catch (error) {
     return buildIsGroupedResponse(false, (error as Error)?.message);
   }
 }
 
-async function handleBatchGroupMessage(_msg: unknown, _sender: chrome.runtime.MessageSender, preloadedSettings?: Settings) {
+async function handleBatchGroupMessage(
+  msg: BatchGroupRequest,
+  _sender: chrome.runtime.MessageSender,
+  preloadedSettings?: Settings
+) {
   try {
-    const result = await batchGroupAllTabs(preloadedSettings);
+    const strategy = isGroupingStrategyId(msg.strategy) ? msg.strategy : undefined;
+    const result = await batchGroupAllTabs(preloadedSettings, undefined, strategy);
     return result;
   } catch (error) {
     return buildErrorResponse((error as Error)?.message || "Batch grouping failed");
@@ -256,22 +409,90 @@ async function handleGetSettingsMessage() {
   }
 }
 
+async function handleExplainCategoryMessage() {
+  try {
+    const [tab] = await queryTabs({ active: true, currentWindow: true });
+    if (tab?.id === undefined) {
+      return buildErrorResponse("No active tab found");
+    }
+    const settings = await loadSettings();
+    if (!isSupportedUrl(tab.url, settings.enabledSites)) {
+      return buildErrorResponse("Active tab is not on an enabled video site");
+    }
+
+    const metadata = await getVideoMetadata(tab.id, { fallbackTitle: tab.title || "" });
+    await cacheMetadata(tab.url, metadata);
+    const learnedModel = await getModelForPrediction(settings);
+    const { category, trace } = explainCategory(metadata, buildCategoryOptions(tab, settings, "", learnedModel));
+
+    return buildExplainCategoryResponse(category, trace, metadata);
+  } catch (error) {
+    return buildErrorResponse((error as Error)?.message || "Failed to explain category");
+  }
+}
+
+async function handleGetReviewQueueMessage() {
+  try {
+    return buildReviewQueueResponse(await listReviewItems());
+  } catch (error) {
+    return buildErrorResponse((error as Error)?.message || "Failed to load review queue");
+  }
+}
+
+async function handleAssignCategoryMessage(
+  msg: Record<string, unknown>,
+  _sender: chrome.runtime.MessageSender,
+  preloadedSettings?: Settings
+) {
+  const tabId = Number(msg.tabId);
+  const category = typeof msg.category === "string" ? msg.category.trim() : "";
+
+  try {
+    const tab = await getTab(tabId);
+    const settings = preloadedSettings || (await loadSettings());
+    const enabledColors = getEnabledColors(settings, AVAILABLE_COLORS);
+    const result = await groupTab(tab, category, enabledColors, getGroupLayout(settings));
+    await recordTabPlacement(tab, result.groupId, true);
+    await removeReviewItem(tabId);
+    void learnCategoryChoice(tab, settings, category);
+
+    return buildGroupTabResponse({ category, color: result.color });
+  } catch (error) {
+    return buildErrorResponse((error as Error)?.message || "Failed to assign category");
+  }
+}
+
+async function handleReportExtractionMessage(msg: Record<string, unknown>) {
+  if (!isSiteId(msg.site)) {
+    return buildErrorResponse("Unknown site");
+  }
+  await recordExtraction(msg.site, normalizeExtractionReport(msg.fields));
+  return buildSuccessResponse();
+}
+
 async function handleContextMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) {
-  if (!tab || !isYouTubeUrl(tab.url)) {
+  if (!tab) {
     return;
   }
 
   try {
     const settings = await loadSettings();
-    if (!settings.extensionEnabled) {
+    if (!settings.extensionEnabled || !isSupportedUrl(tab.url, settings.enabledSites)) {
       return;
     }
 
     const enabledColors = getEnabledColors(settings, AVAILABLE_COLORS);
 
     if (info.menuItemId === "groupTab") {
-      const category = await resolveCategory(tab, settings);
-      await groupTab(tab, category, enabledColors);
+      await resolveAndGroupTab(tab, settings, enabledColors, { useCache: true });
+    }
+
+    if (typeof info.menuItemId === "string" && info.menuItemId.startsWith(GROUP_AS_MENU_PREFIX)) {
+      const category = info.menuItemId.slice(GROUP_AS_MENU_PREFIX.length);
+      const result = await groupTab(tab, category, enabledColors, getGroupLayout(settings));
+      await recordTabPlacement(tab, result.groupId, true);
+      if (tab.id !== undefined) await removeReviewItem(tab.id);
+      await learnCategoryChoice(tab, settings, category);
     }
 
     if (info.menuItemId === "groupAllYT") {
@@ -289,9 +510,8 @@ async function handleCommand(command: string) {
 
     if (command === "group-current-tab") {
       const [tab] = await queryTabs({ active: true, currentWindow: true });
-      if (tab && isYouTubeUrl(tab.url) && settings.extensionEnabled) {
-        const category = await resolveCategory(tab, settings);
-        await groupTab(tab, category, enabledColors);
+      if (tab && isSupportedUrl(tab.url, settings.enabledSites) && settings.extensionEnabled) {
+        await resolveAndGroupTab(tab, settings, enabledColors, { useCache: true });
       }
     }
 
@@ -308,26 +528,31 @@ async function handleCommand(command: string) {
   }
 }
 
-async function batchGroupAllTabs(settingsOverride?: Settings, enabledColorsOverride?: string[]) {
+async function batchGroupAllTabs(
+  settingsOverride?: Settings,
+  enabledColorsOverride?: string[],
+  strategy?: GroupingStrategyId
+) {
   try {
-    const tabs = await queryTabs({
-      url: "https://www.youtube.com/*",
-      currentWindow: true
-    });
-
     const settings = settingsOverride || (await loadSettings());
     if (!settings.extensionEnabled) {
       return buildErrorResponse("Extension is disabled");
     }
 
+    const urlPatterns = getSiteUrlPatterns(settings.enabledSites);
+    if (urlPatterns.length === 0) {
+      return buildBatchGroupResponse(0);
+    }
+
+    const tabs = await queryTabs({ url: urlPatterns, currentWindow: true });
+
     const enabledColors = enabledColorsOverride || getEnabledColors(settings, AVAILABLE_COLORS);
 
     let successCount = 0;
     for (const tab of tabs) {
       try {
-        const category = await resolveCategory(tab, settings);
-        await groupTab(tab, category, enabledColors);
-        successCount++;
+        const result = await resolveAndGroupTab(tab, settings, enabledColors, { strategy, useCache: true });
+        if (result) successCount++;
       } catch (error) {
         console.error(`Failed to group tab ${tab.id}:`, error);
       }
@@ -339,34 +564,209 @@ async function batchGroupAllTabs(settingsOverride?: Settings, enabledColorsOverr
   }
 }
 
+interface ResolveGroupOptions {
+  metadata?: Partial<Metadata>;
+  category?: string;
+  /** Overrides `settings.groupingStrategy` for this call (e.g. a batch run from the popup). */
+  strategy?: GroupingStrategyId;
+  /** Use metadata cached for the tab's video instead of asking the tab (see `metadataCache.ts`). */
+  useCache?: boolean;
+}
+
+interface ResolvedCategory {
+  category: string;
+  metadata: Metadata | null;
+}
+
+/**
+ * Resolve the tab's category, turn it into a group key with the grouping strategy, and group the tab.
+ * An explicitly requested category always groups by category. Otherwise the page kind's policy
+ * comes first (channel/search/playlist pages can be grouped without classification). Returns null
+ * when the page kind is ignored or the tab's video type (Short, live, upcoming) is skipped.
+ */
+async function resolveAndGroupTab(
+  tab: chrome.tabs.Tab,
+  settings: Settings,
+  enabledColors: string[],
+  { metadata: metadataOverride = {}, category: requestedCategory = "", strategy, useCache = false }: ResolveGroupOptions = {}
+) {
+  const manual = Boolean(requestedCategory?.trim());
+  if (!manual) {
+    const page = getPageGrouping(tab.url, tab.title, settings.pageKindPolicies, settings.enabledSites);
+    if (page.action === "ignore") return null;
+    if (page.action === "group") {
+      const result = await groupTabUnder(tab, page.groupKey, enabledColors, getGroupLayout(settings));
+      await recordTabPlacement(tab, result.groupId, false);
+      return { category: page.groupKey, group: result.group, color: result.color };
+    }
+  }
+
+  const resolved = await resolveCategory(tab, settings, metadataOverride, requestedCategory, { useCache });
+  if (!resolved) return null;
+  return placeResolvedTab(tab, settings, enabledColors, resolved, { strategy, manual });
+}
+
+/**
+ * Group a tab under its resolved category (or the playlist, music or strategy key derived from it)
+ * and remember the placement; `manual` marks an explicit category choice.
+ */
+async function placeResolvedTab(
+  tab: chrome.tabs.Tab,
+  settings: Settings,
+  enabledColors: string[],
+  { category, metadata }: ResolvedCategory,
+  { strategy, manual = false }: { strategy?: GroupingStrategyId; manual?: boolean } = {}
+) {
+  const url = tab.url || "";
+  // With `groupPlaylists`, a playlist tab joins its playlist's group whatever the strategy says,
+  // and YouTube Music tabs follow `musicGrouping` rather than the video grouping strategy.
+  const playlistKey = metadata && settings.groupPlaylists ? getPlaylistGroupKey(url, metadata) : "";
+  const musicKey =
+    metadata && parseSiteUrl(url)?.kind === "music" ? getMusicGroupKey(settings.musicGrouping, url, metadata) : "";
+  const groupKey =
+    playlistKey ||
+    musicKey ||
+    (metadata
+      ? getGroupingStrategy(strategy ?? settings.groupingStrategy).getGroupKey({ url, metadata, category, now: Date.now() })
+      : category);
+
+  const result = await groupTab(tab, category, enabledColors, getGroupLayout(settings), groupKey);
+  if (metadata && groupKey === getPlaylistGroupKey(url, metadata)) {
+    await orderGroupTabs(result.groupId, (groupedTab) =>
+      groupedTab.id === tab.id ? metadata.playlistIndex ?? getPlaylistIndex(url) : getPlaylistIndex(groupedTab.url || "")
+    );
+  }
+  await recordTabPlacement(tab, result.groupId, manual);
+  return { category, group: result.group, color: result.color };
+}
+
+/**
+ * Debounce URL changes per tab; SPA sites can report several URLs for one navigation.
+ */
+function scheduleVideoChangeCheck(tabId: number) {
+  clearTimeout(videoChangeTimers.get(tabId));
+  videoChangeTimers.set(
+    tabId,
+    setTimeout(() => {
+      videoChangeTimers.delete(tabId);
+      void regroupOnVideoChange(tabId);
+    }, VIDEO_CHANGE_DELAY_MS)
+  );
+}
+
+/**
+ * Re-resolve a grouped tab that now shows another video and move it when its category changed.
+ * Tabs placed by hand stay put (see `shouldRegroupTab`), as do tabs whose page kind is not classified.
+ */
+async function regroupOnVideoChange(tabId: number) {
+  try {
+    const settings = await loadSettings();
+    if (!settings.extensionEnabled || !settings.regroupOnNavigation) return;
+
+    const tab = await getTab(tabId);
+    const groupId = tab.groupId ?? -1;
+    const videoId = parseSiteUrl(tab.url, settings.enabledSites)?.videoId ?? "";
+    if (!shouldRegroupTab(await getTabPlacement(tabId), groupId, videoId)) return;
+
+    const page = getPageGrouping(tab.url, tab.title, settings.pageKindPolicies, settings.enabledSites);
+    if (page.action !== "classify") return;
+
+    const resolved = await resolveCategory(tab, settings);
+    if (!resolved) return;
+    if (resolved.category === getTabCategory(tabId)) {
+      await recordTabPlacement(tab, groupId, false);
+      return;
+    }
+
+    const result = await placeResolvedTab(tab, settings, getEnabledColors(settings, AVAILABLE_COLORS), resolved);
+    logDebug("videoChange:regrouped", { tabId, videoId, category: result.category, group: result.group });
+  } catch (error) {
+    logWarn("videoChange:regroupOnVideoChange failed", toErrorMessage(error));
+  }
+}
+
+/**
+ * Resolve a tab's category; `metadata` is null when an explicit category or a video type's fixed
+ * group skipped detection, and the result is null when the video type is skipped altogether.
+ * With `useCache`, metadata cached for the tab's video spares a round trip to the tab; metadata
+ * fetched from the tab is cached either way.
+ */
 async function resolveCategory(
   tab: chrome.tabs.Tab,
   settings: Settings,
   metadataOverride: Partial<Metadata> = {},
-  requestedCategory = ""
-) {
+  requestedCategory = "",
+  { useCache = false }: { useCache?: boolean } = {}
+): Promise<ResolvedCategory | null> {
   if (tab.id === undefined) {
     throw new Error("Cannot resolve category for tab without id");
   }
 
   const trimmedCategory = requestedCategory?.trim();
   if (trimmedCategory) {
-    return trimmedCategory;
+    await removeReviewItem(tab.id);
+    return { category: trimmedCategory, metadata: null };
   }
 
-  const metadata = await getVideoMetadata(tab.id, {
-    fallbackMetadata: metadataOverride,
-    fallbackTitle: tab?.title || ""
-  });
+  const cached = useCache ? await getCachedMetadata(tab.url) : null;
+  const metadata =
+    cached ??
+    (await getVideoMetadata(tab.id, {
+      fallbackMetadata: metadataOverride,
+      fallbackTitle: tab?.title || ""
+    }));
+  if (!cached) await cacheMetadata(tab.url, metadata);
+
+  const route = getVideoTypeRoute(metadata, settings.videoTypeRouting);
+  if (route) {
+    await removeReviewItem(tab.id);
+    logDebug("videoType:routed", { tabId: tab.id, type: route.type, action: route.action });
+    return route.action === "group" ? { category: route.group, metadata: null } : null;
+  }
+
+  await upgradeChannelMappings(settings, metadata);
+  const learnedModel = await getModelForPrediction(settings);
+  const decision = explainCategory(metadata, buildCategoryOptions(tab, settings, requestedCategory, learnedModel));
+  await recordReviewDecision(tab, decision);
+  return { category: decision.category, metadata };
+}
+
+/**
+ * Add an id-keyed copy of a name-based channel mapping once the owner id for that name is observed.
+ */
+async function upgradeChannelMappings(settings: Settings, metadata: Metadata) {
+  const upgraded = upgradeChannelNameMappings(settings.channelCategoryMap, metadata);
+  if (!upgraded) return;
+
+  settings.channelCategoryMap = upgraded;
+  try {
+    await saveSettings(settings);
+    logDebug("channelMap:upgraded", { channel: metadata.channel, channelId: metadata.channelId });
+  } catch (error) {
+    console.warn("Failed to persist upgraded channel mapping:", toErrorMessage(error));
+  }
+}
 
-  return predictCategory(metadata, {
+function buildCategoryOptions(
+  tab: chrome.tabs.Tab,
+  settings: Settings,
+  requestedCategory = "",
+  learnedModel: LearnedModel | null = null
+): CategoryOptions {
+  return {
     requestedCategory,
+    learnedModel,
     aiEnabled: settings.aiCategoryDetection,
     categoryKeywords: settings.categoryKeywords || DEFAULT_SETTINGS.categoryKeywords,
-    channelMap: settings.channelCategoryMap || {}
-  });
-}
-
-function isYouTubeUrl(url = "") {
-  return url.includes("youtube.com");
+    keywordFieldWeights: settings.keywordFieldWeights || DEFAULT_SETTINGS.keywordFieldWeights,
+    minConfidence: settings.minKeywordConfidence ?? DEFAULT_SETTINGS.minKeywordConfidence,
+    reviewCategory: settings.reviewCategory || DEFAULT_SETTINGS.reviewCategory,
+    channelMap: settings.channelCategoryMap || {},
+    allowedHashtags: settings.allowedHashtags || [],
+    hashtagMap: settings.hashtagCategoryMap || {},
+    youtubeCategoryMap: settings.youtubeCategoryMap || DEFAULT_SETTINGS.youtubeCategoryMap,
+    rules: settings.categoryRules || [],
+    rulesMode: settings.categoryRulesMode,
+    url: tab.url || ""
+  };
 }
@@ -0,0 +1,251 @@
+import type { CategoryKeywordsMap, KeywordScore } from "../shared/types";
+import { getCategoryLineage, getParentCategory, isCategoryWithin } from "../shared/categoryHierarchy";
+
+interface CompiledKeyword {
+  category: string;
+  term: string;
+  weight: number;
+  veto: boolean;
+  pattern: RegExp;
+}
+
+export interface KeywordHit {
+  category: string;
+  term: string;
+  count: number;
+  weight: number;
+  veto: boolean;
+}
+
+export interface WeightedKeywordHit extends KeywordHit {
+  fieldWeight: number;
+}
+
+export interface KeywordMatcher {
+  signature: string;
+  categories: string[];
+  matchText: (text: string) => KeywordHit[];
+}
+
+const WORD_CHAR = /[\p{L}\p{N}\p{M}_]/u;
+
+const segmenter =
+  typeof Intl !== "undefined" && typeof Intl.Segmenter === "function"
+    ? new Intl.Segmenter(undefined, { granularity: "word" })
+    : null;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Escape each whitespace-separated part so "c++" or "c#" match literally and
+ * multi-word phrases tolerate any run of whitespace between words.
+ */
+function compileKeyword(term: string): RegExp {
+  const source = term.split(/\s+/).filter(Boolean).map(escapeRegExp).join("\\s+");
+  return new RegExp(source, "giu");
+}
+
+/**
+ * Word boundaries per Unicode segmentation (UAX #29 plus dictionary segmentation for CJK/Thai).
+ * Without Intl.Segmenter, fall back to "word char next to non-word char" boundaries.
+ */
+function computeBoundaries(text: string): Set<number> {
+  const boundaries = new Set<number>([0, text.length]);
+
+  if (segmenter) {
+    for (const { index, segment } of segmenter.segment(text)) {
+      boundaries.add(index);
+      boundaries.add(index + segment.length);
+    }
+    return boundaries;
+  }
+
+  for (let i = 1; i < text.length; i += 1) {
+    if (WORD_CHAR.test(text[i - 1]) !== WORD_CHAR.test(text[i]) || !WORD_CHAR.test(text[i])) {
+      boundaries.add(i);
+    }
+  }
+  return boundaries;
+}
+
+function countMatches(pattern: RegExp, text: string, boundaries: Set<number>) {
+  let count = 0;
+  pattern.lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (boundaries.has(start) && boundaries.has(end)) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+export function compileKeywordMatcher(categoryKeywords: CategoryKeywordsMap = {}): KeywordMatcher {
+  const compiled: CompiledKeyword[] = [];
+  const categories = Object.keys(categoryKeywords || {});
+
+  for (const category of categories) {
+    const seen = new Set<string>();
+    for (const keyword of categoryKeywords[category] || []) {
+      const term = typeof keyword?.term === "string" ? keyword.term.trim() : "";
+      const key = term.toLocaleLowerCase();
+      if (!term || seen.has(key)) continue;
+      seen.add(key);
+      compiled.push({
+        category,
+        term,
+        weight: Number.isFinite(keyword.weight) ? keyword.weight : 1,
+        veto: keyword.veto === true,
+        pattern: compileKeyword(term)
+      });
+    }
+  }
+
+  return {
+    signature: JSON.stringify(categoryKeywords || {}),
+    categories,
+    matchText(text: string) {
+      if (!text || compiled.length === 0) return [];
+
+      const boundaries = computeBoundaries(text);
+      const hits: KeywordHit[] = [];
+      for (const { category, term, weight, veto, pattern } of compiled) {
+        const count = countMatches(pattern, text, boundaries);
+        if (count > 0) hits.push({ category, term, count, weight, veto });
+      }
+      return hits;
+    }
+  };
+}
+
+let cachedMatcher: KeywordMatcher | null = null;
+let cachedSource: CategoryKeywordsMap | null = null;
+
+/**
+ * Matcher for the given keyword map, recompiled only when the map's contents change.
+ */
+export function getKeywordMatcher(categoryKeywords: CategoryKeywordsMap = {}): KeywordMatcher {
+  if (cachedMatcher && cachedSource === categoryKeywords) {
+    return cachedMatcher;
+  }
+
+  const signature = JSON.stringify(categoryKeywords || {});
+  if (cachedMatcher?.signature !== signature) {
+    cachedMatcher = compileKeywordMatcher(categoryKeywords);
+  }
+  cachedSource = categoryKeywords;
+  return cachedMatcher;
+}
+
+export function resetKeywordMatcherCache() {
+  cachedMatcher = null;
+  cachedSource = null;
+}
+
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Sum `count * keyword weight * field weight` per category. Vetoed categories are kept (for the
+ * trace) but sorted last; the rest are sorted best-first with ties in category declaration order.
+ */
+export function aggregateKeywordHits(hits: WeightedKeywordHit[], categories: string[]): KeywordScore[] {
+  const byCategory = new Map<string, KeywordScore>();
+
+  for (const hit of hits) {
+    if (hit.fieldWeight <= 0) continue;
+
+    const entry = byCategory.get(hit.category) ?? {
+      category: hit.category,
+      score: 0,
+      matchedTerms: [],
+      negativeTerms: [],
+      vetoedBy: null
+    };
+
+    if (hit.veto) {
+      entry.vetoedBy = entry.vetoedBy ?? hit.term;
+    } else {
+      entry.score = roundScore(entry.score + hit.count * hit.weight * hit.fieldWeight);
+      const terms = hit.weight < 0 ? entry.negativeTerms : entry.matchedTerms;
+      if (!terms.includes(hit.term)) terms.push(hit.term);
+    }
+    byCategory.set(hit.category, entry);
+  }
+
+  const rank = (entry: KeywordScore) => (entry.vetoedBy ? Number.NEGATIVE_INFINITY : entry.score);
+
+  return categories
+    .map((category) => byCategory.get(category))
+    .filter((entry): entry is KeywordScore => Boolean(entry))
+    .sort((a, b) => rank(b) - rank(a));
+}
+
+/**
+ * Subtree totals per category path: a child's score also counts toward each of its ancestors
+ * ("Tech" includes "Tech/Programming"). A vetoed category rules out its whole subtree.
+ * Insertion order follows `scores`, so ties keep their best-first order.
+ */
+export function rollUpKeywordScores(scores: KeywordScore[]): Map<string, number> {
+  const vetoed = scores.filter((entry) => entry.vetoedBy).map((entry) => entry.category);
+  const totals = new Map<string, number>();
+
+  for (const entry of scores) {
+    if (vetoed.some((category) => isCategoryWithin(entry.category, category))) continue;
+    for (const node of getCategoryLineage(entry.category)) {
+      totals.set(node, roundScore((totals.get(node) ?? 0) + entry.score));
+    }
+  }
+  return totals;
+}
+
+const childTotals = (totals: Map<string, number>, parent: string) =>
+  [...totals].filter(([node]) => getParentCategory(node) === parent).sort(([, a], [, b]) => b - a);
+
+/**
+ * Most specific category that scored above zero and was not vetoed: pick the best top-level
+ * subtree, then keep descending into the best-scoring child while one scored above zero.
+ */
+export function pickKeywordWinner(scores: KeywordScore[]): KeywordScore | null {
+  const totals = rollUpKeywordScores(scores);
+  let winner: KeywordScore | null = null;
+  let parent = "";
+
+  for (;;) {
+    const [best] = childTotals(totals, parent);
+    if (!best || best[1] <= 0) break;
+    parent = best[0];
+    winner = scores.find((entry) => entry.category === parent) ?? winner;
+  }
+  return winner;
+}
+
+/**
+ * Word count used to normalize confidence; CJK text without spaces is counted per segmented word.
+ */
+export function countWords(text: string): number {
+  if (!text) return 0;
+  if (segmenter) {
+    let count = 0;
+    for (const segment of segmenter.segment(text)) {
+      if (segment.isWordLike) count += 1;
+    }
+    return count;
+  }
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Confidence in [0, 1) from the margin between the winning top-level subtree and the runner-up
+ * (negative runner-ups count as 0). Longer texts need a wider margin: `margin / (margin + log2(1 + words))`.
+ */
+export function computeKeywordConfidence(scores: KeywordScore[], wordCount: number): number {
+  const [best, runnerUp] = childTotals(rollUpKeywordScores(scores), "").map(([, total]) => total);
+  if (best === undefined || best <= 0) return 0;
+
+  const margin = best - Math.max(0, runnerUp ?? 0);
+  if (margin <= 0) return 0;
+
+  const lengthPenalty = Math.log2(1 + Math.max(0, wordCount));
+  return roundScore(margin / (margin + lengthPenalty));
+}
@@ -0,0 +1,73 @@
+import { getLearnedModel, saveLearnedModel, tokenizeForLearning, trainLearnedModel } from "../shared/learningModel";
+import { getVideoMetadata } from "./metadataFetcher";
+import { cacheMetadata, getCachedMetadata } from "./metadataCache";
+import { logDebug, logWarn } from "./logger";
+import type { LearnedModel, Metadata, Settings } from "../shared/types";
+
+let cachedModel: LearnedModel | null = null;
+let trainingQueue: Promise<void> = Promise.resolve();
+
+const toErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return "Unknown error";
+  }
+};
+
+/**
+ * Model to consult during resolution, or null when learning is disabled.
+ */
+export async function getModelForPrediction(settings: Settings): Promise<LearnedModel | null> {
+  if (!settings.learningEnabled) return null;
+  cachedModel = cachedModel ?? (await getLearnedModel());
+  return cachedModel;
+}
+
+/**
+ * Drop the cached model; called when the options page resets or imports it.
+ */
+export function resetLearnedModelCache() {
+  cachedModel = null;
+}
+
+/**
+ * Train on an explicit category choice for a tab. The tab's metadata comes from the session cache
+ * when the video was seen recently, and is fetched from the tab only on a miss. Updates are
+ * serialized so concurrent choices never overwrite each other.
+ */
+export function learnCategoryChoice(
+  tab: chrome.tabs.Tab,
+  settings: Settings,
+  category: string,
+  metadataOverride: Partial<Metadata> = {}
+): Promise<void> {
+  if (!settings.learningEnabled || tab.id === undefined || !category.trim()) {
+    return Promise.resolve();
+  }
+  const tabId = tab.id;
+
+  trainingQueue = trainingQueue.then(async () => {
+    try {
+      const cached = await getCachedMetadata(tab.url);
+      const metadata =
+        cached ??
+        (await getVideoMetadata(tabId, {
+          fallbackMetadata: metadataOverride,
+          fallbackTitle: tab.title || ""
+        }));
+      if (!cached) await cacheMetadata(tab.url, metadata);
+      const tokens = tokenizeForLearning(metadata);
+      if (tokens.length === 0) return;
+
+      const model = trainLearnedModel(await getLearnedModel(), tokens, category);
+      cachedModel = await saveLearnedModel(model);
+      logDebug("learning:trained", { category, tokens: tokens.length, examples: cachedModel.examples });
+    } catch (error) {
+      logWarn("learning:learnCategoryChoice failed", toErrorMessage(error));
+    }
+  });
+  return trainingQueue;
+}
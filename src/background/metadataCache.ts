@@ -0,0 +1,82 @@
+import { loadMetadataCache, saveMetadataCache } from "./storage";
+import { logDebug, logWarn } from "./logger";
+import { parseSiteUrl } from "../shared/sites";
+import { isMetadataComplete, isVideoMetadata, normalizeVideoMetadata } from "../shared/metadataSchema";
+import type { Metadata, MetadataCacheEntry } from "../shared/types";
+
+/** Cached metadata older than this is fetched from the tab again. */
+export const METADATA_CACHE_TTL_MS = 30 * 60 * 1000;
+/** Most videos kept; the least recently stored are dropped first. */
+export const METADATA_CACHE_MAX_ENTRIES = 200;
+
+const toErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return "Unknown error";
+  }
+};
+
+/**
+ * Cache key for the video a URL points at ("<site>:<videoId>"); empty for pages without a video.
+ */
+export function getMetadataCacheKey(url: string | undefined): string {
+  const parsed = parseSiteUrl(url);
+  return parsed?.videoId ? `${parsed.site}:${parsed.videoId}` : "";
+}
+
+/**
+ * Drop expired and malformed entries, then the oldest ones beyond `METADATA_CACHE_MAX_ENTRIES`.
+ */
+export function pruneMetadataCache(
+  cache: Record<string, MetadataCacheEntry>,
+  now = Date.now()
+): Record<string, MetadataCacheEntry> {
+  const fresh = Object.entries(cache)
+    .filter(
+      ([, entry]) =>
+        typeof entry?.storedAt === "number" && now - entry.storedAt < METADATA_CACHE_TTL_MS && isVideoMetadata(entry.metadata)
+    )
+    .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+    .slice(0, METADATA_CACHE_MAX_ENTRIES);
+  return Object.fromEntries(fresh);
+}
+
+/**
+ * Metadata cached for the video at `url`, or null when it was never seen or has expired.
+ */
+export async function getCachedMetadata(url: string | undefined): Promise<Metadata | null> {
+  const key = getMetadataCacheKey(url);
+  if (!key) return null;
+
+  try {
+    const entry = pruneMetadataCache(await loadMetadataCache())[key];
+    if (!entry) return null;
+    logDebug("metadataCache:hit", { key });
+    return normalizeVideoMetadata(entry.metadata);
+  } catch (error) {
+    logWarn("metadataCache:getCachedMetadata failed", toErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Remember complete metadata for the video at `url`. Metadata naming another video (a page
+ * that has not caught up with an in-page navigation) is not stored.
+ */
+export async function cacheMetadata(url: string | undefined, metadata: Partial<Metadata>) {
+  const key = getMetadataCacheKey(url);
+  const normalized = normalizeVideoMetadata(metadata);
+  if (!key || !isMetadataComplete(normalized)) return;
+  if (normalized.videoId && key !== `${normalized.site}:${normalized.videoId}`) return;
+
+  try {
+    const cache = await loadMetadataCache();
+    cache[key] = { metadata: normalized, storedAt: Date.now() };
+    await saveMetadataCache(pruneMetadataCache(cache));
+  } catch (error) {
+    logWarn("metadataCache:cacheMetadata failed", toErrorMessage(error));
+  }
+}
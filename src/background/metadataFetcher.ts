@@ -2,54 +2,95 @@ import type { Metadata } from "../shared/types";
 import { hasMetadataContent, mergeMetadata, normalizeVideoMetadata } from "../shared/metadataSchema";
 import { MESSAGE_ACTIONS } from "../shared/messageContracts";
 import { sendMessageSafe } from "../shared/messageTransport";
+import { getTab } from "./chromeApi";
 import { logWarn } from "./logger";
+import { extractMetadataWithScript, isNoReceiverError } from "./scriptInjection";
 
-const CONTENT_METADATA_TIMEOUTS_MS = [1200, 2000, 3200];
-const CONTENT_METADATA_BACKOFF_MS = [150, 350];
+/** How long the content script may wait for the page's metadata to be complete. */
+const CONTENT_METADATA_WAIT_MS = 4000;
+/** Time allowed for the reply to arrive after the content script's deadline. */
+const CONTENT_METADATA_REPLY_MARGIN_MS = 500;
+/** Pause before asking again when the content script cannot be reached yet (e.g. the page is loading). */
+const CONTENT_METADATA_RETRY_MS = 250;
 
 const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
-async function requestContentMetadata(tabId: number, timeoutMs: number, fallbackTitle: string): Promise<Metadata> {
-  const response = await sendMessageSafe(MESSAGE_ACTIONS.GET_VIDEO_METADATA, {}, { tabId, timeoutMs });
+async function requestContentMetadata(tabId: number, deadline: number, fallbackTitle: string): Promise<Metadata> {
+  const timeoutMs = Math.max(0, deadline - Date.now()) + CONTENT_METADATA_REPLY_MARGIN_MS;
+  const response = await sendMessageSafe(MESSAGE_ACTIONS.GET_VIDEO_METADATA, { deadline }, { tabId, timeoutMs });
   return normalizeVideoMetadata(response as Partial<Metadata>, { fallbackTitle });
 }
 
+/**
+ * Whether a tab without a content script will not get one by waiting: the page has finished
+ * loading (opened before install or update) or is discarded. A tab that is gone counts as settled.
+ */
+async function isTabSettled(tabId: number): Promise<boolean> {
+  try {
+    const tab = await getTab(tabId);
+    return tab.status === "complete" || tab.discarded === true;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Read the tab through the injected extractor and merge the result with the fallbacks; only the
+ * fallbacks when the tab cannot be scripted.
+ */
+async function getScriptedMetadata(tabId: number, fallbackMetadata: Partial<Metadata>, fallbackTitle: string, cause: unknown) {
+  const scripted = await extractMetadataWithScript(tabId);
+  if (!scripted) {
+    logWarn("metadata:getVideoMetadata could not script the tab; returning fallback metadata", (cause as Error)?.message || cause);
+  }
+  return normalizeVideoMetadata(mergeMetadata(scripted ?? {}, fallbackMetadata), { fallbackTitle });
+}
+
 interface MetadataOptions {
   fallbackMetadata?: Partial<Metadata>;
   fallbackTitle?: string;
+  /** Longest wait for the page's metadata; the content script answers as soon as it is complete. */
+  waitMs?: number;
 }
 
 /**
- * Fetch metadata from content script with retries and merge with fallbacks.
+ * Fetch metadata from the content script and merge with fallbacks. The request carries a deadline:
+ * the content script replies once the page's metadata is complete, or with what it has at the
+ * deadline. When no content script listens in the tab, a page that is still loading is asked
+ * again until the deadline, since its content script may not have started yet. A loaded or
+ * discarded tab, or one still unreachable at the deadline, is read by injecting the extractor with
+ * `chrome.scripting` instead, and whatever it returns is merged with the fallbacks; a tab that
+ * cannot be scripted gets the fallbacks.
  */
 export async function getVideoMetadata(tabId: number, options: MetadataOptions = {}): Promise<Metadata> {
-  const { fallbackMetadata = {}, fallbackTitle = "" } = options;
+  const { fallbackMetadata = {}, fallbackTitle = "", waitMs = CONTENT_METADATA_WAIT_MS } = options;
+  const deadline = Date.now() + waitMs;
   let lastError: unknown = null;
-  let attempts = 0;
 
-  const attemptCount = CONTENT_METADATA_TIMEOUTS_MS.length;
-
-  for (const timeoutMs of CONTENT_METADATA_TIMEOUTS_MS) {
-    attempts += 1;
+  do {
     try {
-      const contentMetadata = await requestContentMetadata(tabId, timeoutMs, fallbackTitle);
+      const contentMetadata = await requestContentMetadata(tabId, deadline, fallbackTitle);
       const merged = mergeMetadata(contentMetadata, fallbackMetadata);
       if (hasMetadataContent(merged)) {
         return merged;
       }
+      lastError = null;
+      break;
     } catch (error) {
       lastError = error;
+      if (isNoReceiverError(error) && (await isTabSettled(tabId))) {
+        return getScriptedMetadata(tabId, fallbackMetadata, fallbackTitle, error);
+      }
+      await delay(CONTENT_METADATA_RETRY_MS);
     }
+  } while (Date.now() < deadline);
 
-    const isLastAttempt = attempts >= attemptCount;
-    const backoff = CONTENT_METADATA_BACKOFF_MS[Math.min(attempts - 1, CONTENT_METADATA_BACKOFF_MS.length - 1)];
-    if (!isLastAttempt && backoff) {
-      await delay(backoff);
-    }
+  if (lastError && isNoReceiverError(lastError)) {
+    return getScriptedMetadata(tabId, fallbackMetadata, fallbackTitle, lastError);
   }
 
   if (lastError) {
-    logWarn("metadata:getVideoMetadata exhausted retries; returning fallback metadata", (lastError as Error)?.message || lastError);
+    logWarn("metadata:getVideoMetadata gave up at the deadline; returning fallback metadata", (lastError as Error)?.message || lastError);
   } else {
     logWarn("metadata:getVideoMetadata returning fallback metadata after empty content response");
   }
@@ -0,0 +1,42 @@
+import { getSiteForUrl } from "../shared/sites";
+import type { EnabledSites, PageKindPolicies } from "../shared/types";
+
+/**
+ * "classify" resolves the tab's category from its metadata; "group" puts it straight into
+ * `groupKey`; "ignore" leaves it ungrouped.
+ */
+export type PageGrouping = { action: "classify" } | { action: "ignore" } | { action: "group"; groupKey: string };
+
+const IGNORE: PageGrouping = { action: "ignore" };
+
+/**
+ * Apply the page kind's policy to a tab. Channel and playlist groups are named after the page
+ * title, falling back to the handle/id; a search without a query is ignored, and so is every page
+ * of an unsupported or disabled site.
+ */
+export function getPageGrouping(
+  url: string | undefined,
+  title: string | undefined,
+  policies: PageKindPolicies,
+  enabledSites?: Partial<EnabledSites>
+): PageGrouping {
+  const site = getSiteForUrl(url, enabledSites);
+  const page = site?.parseUrl(url);
+  if (!site || !page) return IGNORE;
+
+  const pageTitle = site.stripTitle(title);
+  const group = (groupKey: string): PageGrouping => (groupKey ? { action: "group", groupKey } : IGNORE);
+
+  switch (policies[page.kind]) {
+    case "classify":
+      return { action: "classify" };
+    case "channel":
+      return group(pageTitle || page.channel);
+    case "query":
+      return group(page.searchQuery ? `Search: ${page.searchQuery}` : "");
+    case "playlist":
+      return group(pageTitle || (page.playlistId ? `Playlist ${page.playlistId}` : ""));
+    default:
+      return IGNORE;
+  }
+}
@@ -0,0 +1,95 @@
+import { loadReviewQueue, saveReviewQueue } from "./storage";
+import { queryTabs } from "./chromeApi";
+import { logWarn } from "./logger";
+import type { CategoryDecision, ReviewItem } from "../shared/types";
+
+const MAX_CANDIDATES = 3;
+
+const toErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return "Unknown error";
+  }
+};
+
+// Decisions for several tabs can land together; apply queue changes one at a time so none is lost.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const queueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const result = pendingWrite.then(write);
+  pendingWrite = result.then(
+    (): void => undefined,
+    (): void => undefined
+  );
+  return result;
+};
+
+/**
+ * Track tabs resolved to the review category; any other decision for the tab clears its entry.
+ */
+export function recordReviewDecision(tab: chrome.tabs.Tab, decision: CategoryDecision): Promise<void> {
+  const tabId = tab.id;
+  if (tabId === undefined) return Promise.resolve();
+
+  return queueWrite(async () => {
+    try {
+      const queue = await loadReviewQueue();
+      const key = String(tabId);
+
+      if (decision.trace.step !== "review") {
+        if (!queue[key]) return;
+        delete queue[key];
+        await saveReviewQueue(queue);
+        return;
+      }
+
+      queue[key] = {
+        tabId,
+        title: tab.title || "",
+        url: tab.url || "",
+        candidates: decision.trace.keywordScores
+          .filter((entry) => !entry.vetoedBy && entry.score > 0)
+          .slice(0, MAX_CANDIDATES)
+          .map((entry) => entry.category),
+        confidence: decision.trace.confidence,
+        addedAt: queue[key]?.addedAt ?? Date.now()
+      };
+      await saveReviewQueue(queue);
+    } catch (error) {
+      logWarn("review:recordReviewDecision failed", toErrorMessage(error));
+    }
+  });
+}
+
+export function removeReviewItem(tabId: number): Promise<void> {
+  return queueWrite(async () => {
+    try {
+      const queue = await loadReviewQueue();
+      if (!queue[String(tabId)]) return;
+      delete queue[String(tabId)];
+      await saveReviewQueue(queue);
+    } catch (error) {
+      logWarn("review:removeReviewItem failed", toErrorMessage(error));
+    }
+  });
+}
+
+/**
+ * Review items for tabs that still exist, oldest first. Entries for closed tabs are pruned.
+ */
+export function listReviewItems(): Promise<ReviewItem[]> {
+  return queueWrite(async () => {
+    const [queue, tabs] = await Promise.all([loadReviewQueue(), queryTabs({})]);
+    const openTabIds = new Set(tabs.map((tab) => tab.id));
+
+    const stale = Object.keys(queue).filter((key) => !openTabIds.has(Number(key)));
+    if (stale.length > 0) {
+      stale.forEach((key) => delete queue[key]);
+      await saveReviewQueue(queue);
+    }
+    return Object.values(queue).sort((a, b) => a.addedAt - b.addedAt);
+  });
+}
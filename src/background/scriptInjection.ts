@@ -0,0 +1,79 @@
+import { executeScript, insertCSS, queryTabs } from "./chromeApi";
+import { logDebug, logWarn } from "./logger";
+import { isVideoMetadata, normalizeVideoMetadata } from "../shared/metadataSchema";
+import { getSiteUrlPatterns } from "../shared/sites";
+import type { EnabledSites, Metadata } from "../shared/types";
+
+/** Built by `scripts/build.ts`; paths are relative to the extension root, as in the manifest. */
+const CONTENT_SCRIPT_FILE = "content/index.js";
+const CONTENT_STYLE_FILE = "ui/styles/common.css";
+const EXTRACTOR_FILE = "content/extract.js";
+
+/** The page's isolated world once the extractor bundle has run (see `src/content/extract.ts`). */
+type ExtractorWindow = Window & { __youtubeTabGrouperExtract?: () => unknown };
+
+const NO_RECEIVER_PATTERN = /receiving end does not exist|could not establish connection/i;
+
+const toErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return "Unknown error";
+  }
+};
+
+/**
+ * The error `chrome.tabs.sendMessage` reports when no content script listens in the tab (tabs
+ * opened before the extension was installed or updated, discarded tabs, pages still loading).
+ */
+export function isNoReceiverError(error: unknown): boolean {
+  return NO_RECEIVER_PATTERN.test(toErrorMessage(error));
+}
+
+/**
+ * Read a tab's metadata without its content script: inject the extractor bundle
+ * (`src/content/extract.ts`, the same site adapters the content script uses), then call it.
+ * Null when the tab cannot be scripted (e.g. it is discarded) or no adapter matches the page.
+ */
+export async function extractMetadataWithScript(tabId: number): Promise<Metadata | null> {
+  try {
+    await executeScript({ target: { tabId }, files: [EXTRACTOR_FILE] });
+    const result = await executeScript({
+      target: { tabId },
+      func: () => (window as ExtractorWindow).__youtubeTabGrouperExtract?.() ?? null
+    });
+    if (!isVideoMetadata(result)) return null;
+    logDebug("injection:extracted", { tabId });
+    return normalizeVideoMetadata(result);
+  } catch (error) {
+    logWarn("injection:extractMetadataWithScript failed", toErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Inject the content script into already open tabs of the enabled sites, which Chrome only does
+ * by itself for pages loaded after install. Discarded tabs are skipped; they load the content
+ * script when reloaded. Returns the number of tabs injected.
+ */
+export async function injectContentScripts(enabledSites?: Partial<EnabledSites>): Promise<number> {
+  const urlPatterns = getSiteUrlPatterns(enabledSites);
+  if (urlPatterns.length === 0) return 0;
+
+  const tabs = await queryTabs({ url: urlPatterns, discarded: false });
+  let injected = 0;
+  for (const tab of tabs) {
+    if (tab.id === undefined) continue;
+    try {
+      await insertCSS({ target: { tabId: tab.id }, files: [CONTENT_STYLE_FILE] });
+      await executeScript({ target: { tabId: tab.id }, files: [CONTENT_SCRIPT_FILE] });
+      injected++;
+    } catch (error) {
+      logWarn("injection:injectContentScripts failed for tab", tab.id, toErrorMessage(error));
+    }
+  }
+  logDebug("injection:contentScripts", { injected, tabs: tabs.length });
+  return injected;
+}
@@ -5,12 +5,19 @@ import {
   STATS_VERSION,
   withSettingsDefaults,
   withStatsDefaults,
-  migrateSettingsV0ToV1,
+  migrateSettings,
   migrateStatsV0ToV1
 } from "./constants";
-import { getSettings, updateSettings, resetSettings } from "../shared/settings";
+import { CHANNEL_MAP_STORAGE_KEY, getSettings, updateSettings, resetSettings } from "../shared/settings";
 import { getStats, updateStats, resetStats } from "../shared/stats";
-import type { GroupingState, Settings, GroupingStats } from "../shared/types";
+import type {
+  GroupingState,
+  Settings,
+  GroupingStats,
+  MetadataCacheEntry,
+  ReviewItem,
+  TabPlacement
+} from "../shared/types";
 
 const isObject = (value: unknown): value is Record<string, unknown> =>
   typeof value === "object" && value !== null && !Array.isArray(value);
@@ -75,21 +82,96 @@ export async function setLocal(values: Record<string, unknown>): Promise<void> {
   });
 }
 
+export async function getSession(defaults: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    try {
+      chrome.storage.session.get(defaults, (result) => handleCallback(resolve, reject, () => result || defaults));
+    } catch (error) {
+      reject(toError(error));
+    }
+  });
+}
+
+export async function setSession(values: Record<string, unknown>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    try {
+      chrome.storage.session.set(values, () => handleCallback(resolve, reject, () => undefined));
+    } catch (error) {
+      reject(toError(error));
+    }
+  });
+}
+
+/** Grouping state version 2 keys group ids and colors by window (`getWindowGroupKey`). */
+export const GROUPING_STATE_VERSION = 2;
+
+/**
+ * Saved group colors and ids; state saved without `groupStateVersion` is version 1 (bare group keys).
+ */
 export async function loadState(): Promise<GroupingState> {
-  const { groupColorMap = {}, groupIdMap = {} } = await getLocal({ groupColorMap: {}, groupIdMap: {} });
+  const {
+    groupColorMap = {},
+    groupIdMap = {},
+    categoryColorMap = {},
+    groupStateVersion
+  } = await getLocal({ groupColorMap: {}, groupIdMap: {}, categoryColorMap: {}, groupStateVersion: 1 });
   return {
-    groupColorMap: groupColorMap as GroupingState["groupColorMap"],
-    groupIdMap: groupIdMap as GroupingState["groupIdMap"]
+    groupColorMap: isObject(groupColorMap) ? (groupColorMap as GroupingState["groupColorMap"]) : {},
+    groupIdMap: isObject(groupIdMap) ? (groupIdMap as GroupingState["groupIdMap"]) : {},
+    categoryColorMap: isObject(categoryColorMap) ? (categoryColorMap as GroupingState["categoryColorMap"]) : {},
+    version: Number(groupStateVersion) || 1
   };
 }
 
-export async function saveState(groupColorMap: Record<string, string>, groupIdMap: Record<string, number>): Promise<void> {
-  await setLocal({ groupColorMap, groupIdMap });
+export async function saveState({ groupColorMap, groupIdMap, categoryColorMap }: Omit<GroupingState, "version">): Promise<void> {
+  await setLocal({ groupColorMap, groupIdMap, categoryColorMap, groupStateVersion: GROUPING_STATE_VERSION });
+}
+
+/**
+ * Category each grouped tab resolved to (keyed by tab id), used to split parent groups into children.
+ */
+export async function loadTabCategories(): Promise<Record<string, string>> {
+  const { tabCategoryMap } = await getLocal({ tabCategoryMap: {} });
+  return isObject(tabCategoryMap) ? (tabCategoryMap as Record<string, string>) : {};
+}
+
+export async function saveTabCategories(tabCategoryMap: Record<string, string>): Promise<void> {
+  await setLocal({ tabCategoryMap });
+}
+
+export async function loadTabPlacements(): Promise<Record<string, TabPlacement>> {
+  const { tabPlacements } = await getLocal({ tabPlacements: {} });
+  return isObject(tabPlacements) ? (tabPlacements as Record<string, TabPlacement>) : {};
+}
+
+export async function saveTabPlacements(tabPlacements: Record<string, TabPlacement>): Promise<void> {
+  await setLocal({ tabPlacements });
+}
+
+/**
+ * Per-video metadata cache (keyed by "<site>:<videoId>"); session storage, so it ends with the browser session.
+ */
+export async function loadMetadataCache(): Promise<Record<string, MetadataCacheEntry>> {
+  const { metadataCache } = await getSession({ metadataCache: {} });
+  return isObject(metadataCache) ? (metadataCache as Record<string, MetadataCacheEntry>) : {};
+}
+
+export async function saveMetadataCache(metadataCache: Record<string, MetadataCacheEntry>): Promise<void> {
+  await setSession({ metadataCache });
+}
+
+export async function loadReviewQueue(): Promise<Record<string, ReviewItem>> {
+  const { reviewQueue } = await getLocal({ reviewQueue: {} });
+  return isObject(reviewQueue) ? (reviewQueue as Record<string, ReviewItem>) : {};
+}
+
+export async function saveReviewQueue(reviewQueue: Record<string, ReviewItem>): Promise<void> {
+  await setLocal({ reviewQueue });
 }
 
 export async function loadSettings(defaults: Settings = DEFAULT_SETTINGS): Promise<Settings> {
   const settings = await getSettings(withSettingsDefaults(defaults));
-  return migrateSettingsV0ToV1(settings);
+  return migrateSettings(settings);
 }
 
 export async function saveSettings(settings: Settings): Promise<Settings> {
@@ -139,18 +221,30 @@ export async function runMigrations(defaults: Settings = DEFAULT_SETTINGS): Prom
       })
     ]);
 
-    // Settings migration (sync)
+    // Settings migration (sync, plus the channel map kept in local)
+    const localChannelMap = localData[CHANNEL_MAP_STORAGE_KEY];
+    const storedSettings = isObject(localChannelMap) ? { ...syncData, channelCategoryMap: localChannelMap } : syncData;
     const needsSettingsMigration = !syncData?.version || Number(syncData.version) < SETTINGS_VERSION;
     let migratedSettings: Settings;
     if (needsSettingsMigration) {
-      migratedSettings = migrateSettingsV0ToV1({
-        ...defaults,
-        ...syncData
-      });
-      await resetSettings(migratedSettings);
-      results.settingsMigrated = true;
+      // Defaults are for new installs; filling them in first would hide which settings an existing
+      // install never saved (e.g. `minKeywordConfidence` before version 5).
+      const isNewInstall = Object.keys(storedSettings).length === 0;
+      migratedSettings = isNewInstall
+        ? { ...withSettingsDefaults(defaults), version: SETTINGS_VERSION }
+        : migrateSettings({
+            ...storedSettings,
+            version: Number(syncData?.version) || 0
+          });
+      try {
+        await resetSettings(migratedSettings);
+        results.settingsMigrated = true;
+      } catch (error) {
+        console.warn("Storage migrations: failed to save migrated settings", (error as Error)?.message || error);
+        results.settingsError = error;
+      }
     } else {
-      migratedSettings = withSettingsDefaults(syncData as Partial<Settings>);
+      migratedSettings = withSettingsDefaults(storedSettings as Partial<Settings>);
     }
 
     // Stats migration (local)
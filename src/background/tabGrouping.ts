@@ -1,8 +1,18 @@
-import { AVAILABLE_COLORS, DEFAULT_STATS } from "./constants";
-import { loadState, saveState, loadStats, saveStats } from "./storage";
-import { queryTabs, queryGroups, getTabGroup, groupTabs, updateTabGroup, removeTabGroup } from "./chromeApi";
-import { logError, logWarn, toErrorEnvelope } from "./logger";
-import type { Settings } from "../shared/types";
+import { AVAILABLE_COLORS, DEFAULT_SETTINGS, DEFAULT_STATS } from "./constants";
+import {
+  GROUPING_STATE_VERSION,
+  loadState,
+  saveState,
+  loadStats,
+  saveStats,
+  loadTabCategories,
+  saveTabCategories
+} from "./storage";
+import { queryTabs, queryGroups, getTabGroup, groupTabs, updateTabGroup, removeTabGroup, moveTabs } from "./chromeApi";
+import { logDebug, logError, logWarn, toErrorEnvelope } from "./logger";
+import { updateTabPlacementGroup } from "./tabPlacements";
+import { getRootCategory, isCategoryWithin } from "../shared/categoryHierarchy";
+import type { GroupingLevel, GroupingState, Settings } from "../shared/types";
 
 const toErrorMessage = (error: unknown) => {
   if (error instanceof Error) return error.message;
@@ -14,9 +24,91 @@ const toErrorMessage = (error: unknown) => {
   }
 };
 
+// Keyed by `getWindowGroupKey`: the same group title can have a group in every window.
 const groupColorMap: Record<string, string> = {};
 const groupIdMap: Record<string, number> = {};
+// Keyed by group key alone; outlives the groups so a closed and reopened category keeps its color.
+const categoryColorMap: Record<string, string> = {};
 const pendingCleanup = new Map<number, number>();
+const tabCategoryMap: Record<string, string> = {};
+
+export interface GroupLayout {
+  level: GroupingLevel;
+  splitThreshold: number;
+  /** Reuse a group key's color from other windows instead of picking one per window. */
+  sameColorAcrossWindows: boolean;
+}
+
+const LEAF_LAYOUT: GroupLayout = {
+  level: "leaf",
+  splitThreshold: DEFAULT_SETTINGS.groupSplitThreshold,
+  sameColorAcrossWindows: DEFAULT_SETTINGS.sameColorAcrossWindows
+};
+
+/**
+ * Grouping-state key of the group titled `groupKey` in window `windowId`.
+ */
+export const getWindowGroupKey = (windowId: number, groupKey: string) => `${windowId}:${groupKey}`;
+
+/**
+ * Window id and group key of a version 2 grouping-state key; null when the key has no window
+ * prefix. Only for window keys: a bare version 1 key such as "2024: Recap" would misparse.
+ */
+export function parseWindowGroupKey(key: string): { windowId: number; groupKey: string } | null {
+  const separator = key.indexOf(":");
+  const windowId = Number(key.slice(0, separator));
+  if (separator <= 0 || !Number.isInteger(windowId)) return null;
+  return { windowId, groupKey: key.slice(separator + 1) };
+}
+
+/**
+ * Color the group key already has in some window, for `sameColorAcrossWindows`; empty when none.
+ */
+export function findGroupKeyColor(colorMap: Record<string, string>, groupKey: string): string {
+  const entry = Object.entries(colorMap).find(([key]) => parseWindowGroupKey(key)?.groupKey === groupKey);
+  return entry?.[1] || "";
+}
+
+/**
+ * Rebuild grouping state from the groups that exist now. Group and window ids change across
+ * browser restarts, but restored groups keep their titles and colors, so every open group titled
+ * like a remembered group key is taken over with its current window, id and color. Remembered
+ * per-key colors are kept for groups that are not open; version 1 state (bare group keys) seeds them.
+ */
+export function rebuildGroupingState(saved: Partial<GroupingState>, groups: chrome.tabGroups.TabGroup[]): GroupingState {
+  const windowed = (saved.version ?? 1) >= GROUPING_STATE_VERSION;
+  const toGroupKey = (key: string) => (windowed ? (parseWindowGroupKey(key)?.groupKey ?? key) : key);
+  const state: GroupingState = {
+    groupColorMap: {},
+    groupIdMap: {},
+    categoryColorMap: { ...saved.categoryColorMap },
+    version: GROUPING_STATE_VERSION
+  };
+  for (const [key, color] of Object.entries(saved.groupColorMap || {})) {
+    state.categoryColorMap[toGroupKey(key)] ??= color;
+  }
+  const knownGroupKeys = new Set([
+    ...Object.keys(saved.groupIdMap || {}).map(toGroupKey),
+    ...Object.keys(state.categoryColorMap)
+  ]);
+
+  for (const group of groups) {
+    if (!group.title || !knownGroupKeys.has(group.title)) continue;
+    const key = getWindowGroupKey(group.windowId, group.title);
+    if (key in state.groupIdMap) continue;
+    state.groupIdMap[key] = group.id;
+    state.groupColorMap[key] = group.color;
+    state.categoryColorMap[group.title] = group.color;
+  }
+  return state;
+}
+
+const persistState = () => saveState({ groupColorMap, groupIdMap, categoryColorMap });
+
+const replaceEntries = <Value>(target: Record<string, Value>, source: Record<string, Value>) => {
+  Object.keys(target).forEach((key) => delete target[key]);
+  Object.assign(target, source);
+};
 
 const now = () => Date.now();
 
@@ -54,15 +146,60 @@ function createMutex() {
   };
 }
 
-const runCategoryExclusive = createMutex();
+const runGroupExclusive = createMutex();
+const runSplitExclusive = createMutex();
 
 /**
- * Load persisted group color/id maps into memory.
+ * Load the persisted group color/id maps, matched to the groups open now (see
+ * `rebuildGroupingState`); tab categories are kept only for open tabs.
  */
 export async function initializeGroupingState() {
-  const { groupColorMap: savedColors, groupIdMap: savedIds } = await loadState();
-  Object.assign(groupColorMap, savedColors || {});
-  Object.assign(groupIdMap, savedIds || {});
+  const [saved, groups] = await Promise.all([loadState(), queryGroups({})]);
+  const state = rebuildGroupingState(saved, groups);
+  replaceEntries(groupColorMap, state.groupColorMap);
+  replaceEntries(groupIdMap, state.groupIdMap);
+  replaceEntries(categoryColorMap, state.categoryColorMap);
+  try {
+    await persistState();
+  } catch (error) {
+    logWarn("grouping:initializeGroupingState failed to persist", toErrorMessage(error));
+  }
+
+  const [savedTabCategories, openTabs] = await Promise.all([loadTabCategories(), queryTabs({})]);
+  const openTabIds = new Set(openTabs.map((t) => String(t.id)));
+  for (const [tabId, category] of Object.entries(savedTabCategories)) {
+    if (openTabIds.has(tabId)) tabCategoryMap[tabId] = category;
+  }
+}
+
+async function rememberTabCategory(tabId: number, category: string) {
+  if (tabCategoryMap[String(tabId)] === category) return;
+  tabCategoryMap[String(tabId)] = category;
+  try {
+    await saveTabCategories(tabCategoryMap);
+  } catch (error) {
+    logWarn("grouping:rememberTabCategory failed to persist", toErrorMessage(error));
+  }
+}
+
+/**
+ * Full category the tab was last grouped under; empty when it was not grouped by category.
+ */
+export function getTabCategory(tabId: number) {
+  return tabCategoryMap[String(tabId)] || "";
+}
+
+/**
+ * Drop the remembered category of a closed tab.
+ */
+export async function forgetTabCategory(tabId: number) {
+  if (!(String(tabId) in tabCategoryMap)) return;
+  delete tabCategoryMap[String(tabId)];
+  try {
+    await saveTabCategories(tabCategoryMap);
+  } catch (error) {
+    logWarn("grouping:forgetTabCategory failed to persist", toErrorMessage(error));
+  }
 }
 
 async function getNeighborColors(tabId: number, windowId: number): Promise<Set<string>> {
@@ -91,14 +228,25 @@ function pickRandomColor(colors: string[] = []) {
 const isGroupColor = (value: unknown): value is chrome.tabGroups.ColorEnum =>
   typeof value === "string" && (AVAILABLE_COLORS as readonly string[]).includes(value);
 
-async function selectColorForCategory(
-  category: string,
+async function selectColorForKey(
+  groupKey: string,
   tabId: number,
   windowId: number,
-  enabledColors: string[] = []
+  enabledColors: string[] = [],
+  sameColorAcrossWindows = true
 ) {
-  if (groupColorMap[category]) {
-    return groupColorMap[category];
+  const stateKey = getWindowGroupKey(windowId, groupKey);
+  if (groupColorMap[stateKey]) {
+    return groupColorMap[stateKey];
+  }
+  // Another window's open group shares its color, if wanted; otherwise a key open in no window
+  // gets back the color it had when its group was last open.
+  const openElsewhere = findGroupKeyColor(groupColorMap, groupKey);
+  const sharedColor = sameColorAcrossWindows ? openElsewhere : "";
+  const rememberedColor = openElsewhere ? "" : categoryColorMap[groupKey] || "";
+  if (sharedColor || rememberedColor) {
+    groupColorMap[stateKey] = sharedColor || rememberedColor;
+    return groupColorMap[stateKey];
   }
 
   if (!Array.isArray(enabledColors) || enabledColors.length === 0) {
@@ -110,14 +258,17 @@ async function selectColorForCategory(
   const color = available.length > 0 ? pickRandomColor(available) : pickRandomColor(enabledColors);
 
   if (!color) {
-    throw new Error("Unable to assign a color for the category");
+    throw new Error("Unable to assign a color for the group");
   }
 
-  groupColorMap[category] = color;
+  groupColorMap[stateKey] = color;
   return color;
 }
 
-async function ensureGroupForCategory(tab: chrome.tabs.Tab, category: string, color: string) {
+/**
+ * Find or create the window's group titled `groupKey` (a strategy's group key) and move the tab in.
+ */
+async function ensureGroupForKey(tab: chrome.tabs.Tab, groupKey: string, color: string) {
   if (tab.windowId === undefined) {
     throw new Error("Tab missing windowId");
   }
@@ -125,8 +276,7 @@ async function ensureGroupForCategory(tab: chrome.tabs.Tab, category: string, co
     throw new Error("Tab missing id");
   }
 
-  const groups = await queryGroups({ title: category });
-  const groupInWindow = groups.find((g) => g.windowId === tab.windowId);
+  const [groupInWindow] = await queryGroups({ windowId: tab.windowId, title: groupKey });
 
   let groupId: number;
   if (groupInWindow) {
@@ -137,15 +287,17 @@ async function ensureGroupForCategory(tab: chrome.tabs.Tab, category: string, co
   }
 
   const groupColor: chrome.tabGroups.ColorEnum = color as chrome.tabGroups.ColorEnum;
-  await updateTabGroup(groupId, { title: category, color: groupColor });
+  await updateTabGroup(groupId, { title: groupKey, color: groupColor });
   return { groupId, color };
 }
 
-async function persistGroupingState(category: string, groupId: number, color: string) {
-  groupIdMap[category] = groupId;
-  groupColorMap[category] = color;
+async function persistGroupingState(stateKey: string, groupId: number, color: string) {
+  groupIdMap[stateKey] = groupId;
+  groupColorMap[stateKey] = color;
+  const groupKey = parseWindowGroupKey(stateKey)?.groupKey;
+  if (groupKey) categoryColorMap[groupKey] = color;
   try {
-    await saveState(groupColorMap, groupIdMap);
+    await persistState();
   } catch (error) {
     const err = new Error(`Failed to persist grouping state: ${toErrorMessage(error)}`);
     (err as { cause?: unknown }).cause = error;
@@ -165,24 +317,31 @@ async function recordGroupingStats(category: string) {
 }
 
 /**
- * Group a tab under a category, handling color assignment and stats.
+ * Move a tab into the group titled `title`; `statsCategory` is counted in stats unless null.
  */
-export async function groupTab(tab: chrome.tabs.Tab, category: string, enabledColors: string[]) {
+async function assignTabToGroup(
+  tab: chrome.tabs.Tab,
+  title: string,
+  enabledColors: string[],
+  statsCategory: string | null,
+  sameColorAcrossWindows = LEAF_LAYOUT.sameColorAcrossWindows
+) {
   if (tab.id === undefined || tab.windowId === undefined) {
     const missing = tab.id === undefined ? "id" : "windowId";
     throw new Error(`Cannot group tab without ${missing}`);
   }
   const { id: tabId, windowId } = tab;
 
-  return runCategoryExclusive(category, async () => {
+  const stateKey = getWindowGroupKey(windowId, title);
+  return runGroupExclusive(stateKey, async () => {
     try {
-      const color = await selectColorForCategory(category, tabId, windowId, enabledColors);
-      const { groupId } = await ensureGroupForCategory(tab, category, color);
+      const color = await selectColorForKey(title, tabId, windowId, enabledColors, sameColorAcrossWindows);
+      const { groupId } = await ensureGroupForKey(tab, title, color);
 
-      await persistGroupingState(category, groupId, color);
-      await recordGroupingStats(category);
+      await persistGroupingState(stateKey, groupId, color);
+      if (statsCategory !== null) await recordGroupingStats(statsCategory);
 
-      return { groupId, color };
+      return { groupId, color, group: title };
     } catch (error) {
       const wrapped = toErrorEnvelope(error, (error as Error)?.message || "Failed to group tab");
       logError("grouping:groupTab failed", wrapped.message);
@@ -191,6 +350,101 @@ export async function groupTab(tab: chrome.tabs.Tab, category: string, enabledCo
   });
 }
 
+/**
+ * Keep a nested category in its parent's group until that group would exceed the threshold, then
+ * move every tab of the parent group into its own child group. Once a child group exists in the
+ * window, further tabs go straight to their child group.
+ */
+async function groupTabAdaptive(tab: chrome.tabs.Tab, category: string, root: string, enabledColors: string[], layout: GroupLayout) {
+  const { splitThreshold, sameColorAcrossWindows } = layout;
+  return runSplitExclusive(`${tab.windowId}:${root}`, async () => {
+    const groups = await queryGroups({ windowId: tab.windowId });
+    const alreadySplit = groups.some((g) => g.title && g.title !== root && isCategoryWithin(g.title, root));
+    if (alreadySplit) {
+      return assignTabToGroup(tab, category, enabledColors, category, sameColorAcrossWindows);
+    }
+
+    const parentGroup = groups.find((g) => g.title === root);
+    const members = parentGroup ? (await queryTabs({ groupId: parentGroup.id })).filter((t) => t.id !== tab.id) : [];
+    if (members.length + 1 <= splitThreshold) {
+      return assignTabToGroup(tab, root, enabledColors, category, sameColorAcrossWindows);
+    }
+
+    logDebug("grouping:groupTab splitting parent group", { root, tabs: members.length + 1 });
+    for (const member of members) {
+      const memberCategory = tabCategoryMap[String(member.id)];
+      if (memberCategory && memberCategory !== root && isCategoryWithin(memberCategory, root) && member.id !== undefined) {
+        const moved = await assignTabToGroup(member, memberCategory, enabledColors, null, sameColorAcrossWindows);
+        await updateTabPlacementGroup(member.id, moved.groupId);
+      }
+    }
+    return assignTabToGroup(tab, category, enabledColors, category, sameColorAcrossWindows);
+  });
+}
+
+/**
+ * Group a tab under a category, handling color assignment and stats. Nested categories
+ * ("Tech/Programming") are grouped at the level chosen by `layout`. A `groupKey` from a
+ * non-category grouping strategy replaces the category as the group title; stats still count
+ * the category.
+ */
+export async function groupTab(
+  tab: chrome.tabs.Tab,
+  category: string,
+  enabledColors: string[],
+  layout: GroupLayout = LEAF_LAYOUT,
+  groupKey = category
+) {
+  if (tab.id !== undefined) await rememberTabCategory(tab.id, category);
+  const { sameColorAcrossWindows } = layout;
+  if (groupKey !== category) {
+    return assignTabToGroup(tab, groupKey, enabledColors, category, sameColorAcrossWindows);
+  }
+
+  const root = getRootCategory(category);
+  if (layout.level === "leaf" || !root || root === category) {
+    return assignTabToGroup(tab, category, enabledColors, category, sameColorAcrossWindows);
+  }
+  if (layout.level === "parent") {
+    return assignTabToGroup(tab, root, enabledColors, category, sameColorAcrossWindows);
+  }
+  return groupTabAdaptive(tab, category, root, enabledColors, layout);
+}
+
+/**
+ * Group a tab under a title that is not a category (channel, search and playlist pages); such
+ * tabs do not count toward category stats.
+ */
+export async function groupTabUnder(
+  tab: chrome.tabs.Tab,
+  groupKey: string,
+  enabledColors: string[],
+  layout: GroupLayout = LEAF_LAYOUT
+) {
+  if (tab.id !== undefined) await forgetTabCategory(tab.id);
+  return assignTabToGroup(tab, groupKey, enabledColors, null, layout.sameColorAcrossWindows);
+}
+
+/**
+ * Reorder a group's tabs by `positionOf` (e.g. playlist index); tabs without a position keep
+ * their relative order after the positioned ones.
+ */
+export async function orderGroupTabs(groupId: number, positionOf: (tab: chrome.tabs.Tab) => number | null) {
+  try {
+    const tabs = (await queryTabs({ groupId })).sort((a, b) => a.index - b.index);
+    const rank = (tab: chrome.tabs.Tab) => positionOf(tab) ?? Number.POSITIVE_INFINITY;
+    const ordered = [...tabs].sort((a, b) => (rank(a) === rank(b) ? 0 : rank(a) < rank(b) ? -1 : 1));
+    if (ordered.every((tab, index) => tab.id === tabs[index].id)) return;
+
+    const tabIds = ordered.map((tab) => tab.id).filter((id): id is number => typeof id === "number");
+    await moveTabs(tabIds, tabs[0].index);
+    // Moving can pull tabs out of the group, so regroup them in place.
+    await groupTabs(tabIds, groupId);
+  } catch (error) {
+    logWarn("grouping:orderGroupTabs failed to reorder tabs", toErrorMessage(error));
+  }
+}
+
 async function isGroupActive(group: chrome.tabGroups.TabGroup) {
   try {
     const [activeTab] = await queryTabs({ active: true, windowId: group.windowId });
@@ -219,7 +473,7 @@ async function pruneGroupState(groupId: number) {
   if (!mutated) return;
 
   try {
-    await saveState(groupColorMap, groupIdMap);
+    await persistState();
   } catch (error) {
     logWarn("grouping:pruneGroupState failed to persist", toErrorMessage(error));
   }
@@ -283,7 +537,7 @@ export async function handleGroupRemoved(groupId: number) {
 }
 
 /**
- * Update in-memory maps when a group is renamed/color-changed.
+ * Update in-memory maps when a group is renamed, recolored or moved to another window.
  */
 export async function handleGroupUpdated(group: chrome.tabGroups.TabGroup) {
   if (!group || typeof group !== "object") {
@@ -292,20 +546,56 @@ export async function handleGroupUpdated(group: chrome.tabGroups.TabGroup) {
 
   try {
     clearPendingCleanup(group.id);
-    for (const [name, id] of Object.entries(groupIdMap)) {
-      if (id === group.id && group.title && group.title !== name) {
-        delete groupIdMap[name];
-        delete groupColorMap[name];
-        groupIdMap[group.title] = group.id;
-        if (group.color) groupColorMap[group.title] = group.color;
+    for (const [key, id] of Object.entries(groupIdMap)) {
+      if (id !== group.id) continue;
+      const groupKey = group.title || parseWindowGroupKey(key)?.groupKey || key;
+      const nextKey = getWindowGroupKey(group.windowId, groupKey);
+      const color = group.color || groupColorMap[key];
+      delete groupIdMap[key];
+      delete groupColorMap[key];
+      groupIdMap[nextKey] = group.id;
+      if (color) {
+        groupColorMap[nextKey] = color;
+        categoryColorMap[groupKey] = color;
       }
     }
-    await saveState(groupColorMap, groupIdMap);
+    await persistState();
   } catch (error) {
     logWarn("grouping:handleGroupUpdated failed to persist update", toErrorMessage(error));
   }
 }
 
+/**
+ * Drop the grouping state of a closed window.
+ */
+export async function handleWindowRemoved(windowId: number) {
+  const keys = Object.keys(groupIdMap).filter((key) => parseWindowGroupKey(key)?.windowId === windowId);
+  const colorKeys = Object.keys(groupColorMap).filter((key) => parseWindowGroupKey(key)?.windowId === windowId);
+  if (keys.length === 0 && colorKeys.length === 0) return;
+
+  keys.forEach((key) => {
+    clearPendingCleanup(groupIdMap[key]);
+    delete groupIdMap[key];
+  });
+  colorKeys.forEach((key) => delete groupColorMap[key]);
+  try {
+    await persistState();
+  } catch (error) {
+    logWarn("grouping:handleWindowRemoved failed to persist cleanup", toErrorMessage(error));
+  }
+}
+
+/**
+ * Grouping level for nested categories and the color scope, from settings.
+ */
+export function getGroupLayout(settings: Settings): GroupLayout {
+  return {
+    level: settings.groupingLevel || LEAF_LAYOUT.level,
+    splitThreshold: settings.groupSplitThreshold || LEAF_LAYOUT.splitThreshold,
+    sameColorAcrossWindows: settings.sameColorAcrossWindows !== false
+  };
+}
+
 /**
  * Return enabled colors from settings with fallback when all disabled.
  */
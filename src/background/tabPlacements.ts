@@ -0,0 +1,117 @@
+import { loadTabPlacements, saveTabPlacements } from "./storage";
+import { queryTabs } from "./chromeApi";
+import { logWarn } from "./logger";
+import { parseSiteUrl } from "../shared/sites";
+import type { TabPlacement } from "../shared/types";
+
+const toErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return "Unknown error";
+  }
+};
+
+// Several tabs are grouped at once; apply placement changes one at a time so none is lost.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const queueWrite = (write: () => Promise<void>): Promise<void> => {
+  pendingWrite = pendingWrite.then(write);
+  return pendingWrite;
+};
+
+/**
+ * Remember which group the extension put a tab in and which video it showed at the time.
+ */
+export function recordTabPlacement(tab: chrome.tabs.Tab, groupId: number, manual: boolean): Promise<void> {
+  const tabId = tab.id;
+  if (tabId === undefined) return Promise.resolve();
+
+  return queueWrite(async () => {
+    try {
+      const placements = await loadTabPlacements();
+      placements[String(tabId)] = { videoId: parseSiteUrl(tab.url)?.videoId ?? "", groupId, manual };
+      await saveTabPlacements(placements);
+    } catch (error) {
+      logWarn("placement:recordTabPlacement failed", toErrorMessage(error));
+    }
+  });
+}
+
+/**
+ * Follow a tab the extension itself moved to another group (e.g. when a parent group is split).
+ */
+export function updateTabPlacementGroup(tabId: number, groupId: number): Promise<void> {
+  return queueWrite(async () => {
+    try {
+      const placements = await loadTabPlacements();
+      const placement = placements[String(tabId)];
+      if (!placement || placement.groupId === groupId) return;
+      placement.groupId = groupId;
+      await saveTabPlacements(placements);
+    } catch (error) {
+      logWarn("placement:updateTabPlacementGroup failed", toErrorMessage(error));
+    }
+  });
+}
+
+/** The tab's placement once the changes already queued have been saved. */
+export async function getTabPlacement(tabId: number): Promise<TabPlacement | null> {
+  try {
+    await pendingWrite;
+    return (await loadTabPlacements())[String(tabId)] ?? null;
+  } catch (error) {
+    logWarn("placement:getTabPlacement failed", toErrorMessage(error));
+    return null;
+  }
+}
+
+export function removeTabPlacement(tabId: number): Promise<void> {
+  return queueWrite(async () => {
+    try {
+      const placements = await loadTabPlacements();
+      if (!placements[String(tabId)]) return;
+      delete placements[String(tabId)];
+      await saveTabPlacements(placements);
+    } catch (error) {
+      logWarn("placement:removeTabPlacement failed", toErrorMessage(error));
+    }
+  });
+}
+
+/**
+ * Drop placements of tabs that no longer exist; tab ids do not survive a browser restart.
+ */
+export function pruneTabPlacements(): Promise<void> {
+  return queueWrite(async () => {
+    try {
+      const [placements, tabs] = await Promise.all([loadTabPlacements(), queryTabs({})]);
+      const openTabIds = new Set(tabs.map((tab) => String(tab.id)));
+      const stale = Object.keys(placements).filter((key) => !openTabIds.has(key));
+      if (stale.length === 0) return;
+      stale.forEach((key) => delete placements[key]);
+      await saveTabPlacements(placements);
+    } catch (error) {
+      logWarn("placement:pruneTabPlacements failed", toErrorMessage(error));
+    }
+  });
+}
+
+/**
+ * Sticky manual assignment: a grouped tab stays where the user put it. That covers explicit
+ * category choices, tabs grouped without the extension (no placement), and tabs dragged to
+ * another group since the extension placed them.
+ */
+export function isPlacedByHand(placement: TabPlacement | null, groupId: number): boolean {
+  return !placement || placement.manual || placement.groupId !== groupId;
+}
+
+/**
+ * Whether a grouped tab now showing `videoId` should have its category re-resolved.
+ */
+export function shouldRegroupTab(placement: TabPlacement | null, groupId: number, videoId: string): boolean {
+  if (!videoId || groupId < 0 || isPlacedByHand(placement, groupId)) return false;
+  return placement?.videoId !== videoId;
+}
@@ -0,0 +1,26 @@
+import type { Metadata, VideoType, VideoTypeRoute, VideoTypeRouting } from "../shared/types";
+
+export interface ResolvedVideoTypeRoute extends VideoTypeRoute {
+  type: VideoType;
+}
+
+/**
+ * Special video type of a tab; a Short that is also live counts as live, and a scheduled stream
+ * counts as upcoming until it starts. Null for regular videos.
+ */
+export function getVideoType(metadata: Metadata): VideoType | null {
+  if (metadata.isUpcoming) return "upcoming";
+  if (metadata.isLive) return "live";
+  if (metadata.isShort) return "short";
+  return null;
+}
+
+/**
+ * Route configured for the tab's video type, or null when it should be classified like any video.
+ */
+export function getVideoTypeRoute(metadata: Metadata, routing: VideoTypeRouting): ResolvedVideoTypeRoute | null {
+  const type = getVideoType(metadata);
+  const route = type ? routing[type] : null;
+  if (!type || !route || route.action === "classify") return null;
+  return { ...route, type };
+}
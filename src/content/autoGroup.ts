@@ -2,6 +2,8 @@ import { isEnabled } from "./config";
 import type { Settings } from "../shared/types";
 
 let autoGroupTimer: ReturnType<typeof setTimeout> | null = null;
+// Bumped on every start/cancel so a `ready` promise from an earlier run cannot fire.
+let autoGroupRun = 0;
 
 const toDelay = (value: unknown) => {
   const numeric = Number(value);
@@ -9,16 +11,23 @@ const toDelay = (value: unknown) => {
 };
 
 export function cancelAutoGroup() {
+  autoGroupRun += 1;
   if (autoGroupTimer) {
     clearTimeout(autoGroupTimer);
     autoGroupTimer = null;
   }
 }
 
+/**
+ * Run `onGroup` once, as soon as `ready` resolves (the page's metadata is complete) or when
+ * `autoGroupDelay` elapses, whichever comes first; the delay is a maximum wait. A delay of 0
+ * turns auto-grouping off.
+ */
 export function startAutoGroup({
   config,
-  onGroup
-}: { config?: Settings; onGroup?: () => Promise<void> } = {}) {
+  onGroup,
+  ready
+}: { config?: Settings; onGroup?: () => Promise<void>; ready?: Promise<unknown> } = {}) {
   cancelAutoGroup();
 
   if (!config || !isEnabled(config)) return null;
@@ -26,13 +35,18 @@ export function startAutoGroup({
   const delay = toDelay(config.autoGroupDelay);
   if (delay <= 0 || typeof onGroup !== "function") return null;
 
-  autoGroupTimer = setTimeout(() => {
-    autoGroupTimer = null;
+  const run = autoGroupRun;
+  const fire = () => {
+    if (run !== autoGroupRun) return;
+    cancelAutoGroup();
     Promise.resolve(onGroup())
       .catch((error) => {
         console.warn("Auto-group handler failed:", (error as Error)?.message || error);
       });
-  }, delay);
+  };
+
+  autoGroupTimer = setTimeout(fire, delay);
+  void ready?.then(fire);
 
   return autoGroupTimer;
 }
@@ -1,5 +1,5 @@
 import { withSettingsDefaults } from "../shared/settings";
-import type { Settings } from "../shared/types";
+import type { Settings, SiteId } from "../shared/types";
 import { CONTENT_SETTINGS_DEFAULTS } from "./constants";
 import { sendGetSettings } from "./messageClient";
 
@@ -8,6 +8,8 @@ export const normalizeContentSettings = (settings: Partial<Settings> = {}): Sett
 
 export const isEnabled = (settings?: Settings | null) => settings?.extensionEnabled !== false;
 
+export const isSiteEnabled = (settings: Settings | null, site: SiteId) => settings?.enabledSites?.[site] !== false;
+
 export async function loadConfig(): Promise<Settings> {
   try {
     const response = await sendGetSettings();
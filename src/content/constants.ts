@@ -7,15 +7,67 @@ export const CONTENT_SETTINGS_DEFAULTS: Settings = {
 
 export const FALLBACK_GROUP = "Other";
 
+/** Longest wait for complete metadata before a page's extraction report is sent with what was found. */
+export const EXTRACTION_REPORT_WAIT_MS = 10000;
+
+/**
+ * Dispatched on `document` by every content script as it starts, so a copy left over from before an
+ * extension update (which the update re-injects next to it) tears itself down.
+ */
+export const CONTENT_SCRIPT_STARTED_EVENT = "youtube-tab-grouper:content-started";
+
 export const SELECTORS = {
-  title: "h1.title yt-formatted-string",
-  channelName: "ytd-channel-name a",
-  channelLink: "a.yt-simple-endpoint[href*='/channel/']",
-  channelHandleLink: "a.yt-simple-endpoint[href*='/@']",
   descriptionMeta: "meta[name='description']",
-  keywordsMeta: "meta[name='keywords']",
   jsonLdScript: 'script[type="application/ld+json"]',
-  genreMeta: "meta[itemprop='genre']"
+  playlistTitle: "ytd-playlist-panel-renderer #header-description h3 a",
+  musicTitle: "ytmusic-player-bar .content-info-wrapper .title",
+  musicArtistLink: "ytmusic-player-bar .byline a[href*='channel/']",
+  musicAlbumLink: "ytmusic-player-bar .byline a[href*='browse/MPREb']",
+  musicQueueTitle: "ytmusic-player-queue ytmusic-queue-header-renderer .subtitle",
+  ogTitle: "meta[property='og:title']",
+  ogDescription: "meta[property='og:description']",
+  vimeoCategoryLink: "a[href^='/categories/']",
+  twitchTitle: "[data-a-target='stream-title']",
+  twitchChannel: "h1.tw-title",
+  twitchCategoryLink: "a[data-a-target='stream-game-link']",
+  twitchTagLinks: "a[href*='/directory/all/tags/']",
+  twitchLiveIndicator: "[data-a-target='animated-channel-viewers-count']"
+} as const;
+
+/**
+ * Ordered selector fallbacks per YouTube field, current layout first. Each one is a separate
+ * extraction strategy, so the diagnostics view shows which of them still match.
+ */
+export const YOUTUBE_FIELD_SELECTORS = {
+  title: ["ytd-watch-metadata h1 yt-formatted-string", "#above-the-fold #title h1", "h1.title yt-formatted-string"],
+  /**
+   * The video owner's channel links; their text is the channel name, their href the channel id or
+   * handle. Scoped to the owner renderer so comment and recommendation links never match.
+   */
+  channel: [
+    "ytd-watch-metadata ytd-video-owner-renderer ytd-channel-name a",
+    "ytd-video-owner-renderer ytd-channel-name a",
+    "ytd-video-owner-renderer a.yt-simple-endpoint[href*='/channel/']",
+    "ytd-video-owner-renderer a.yt-simple-endpoint[href*='/@']"
+  ],
+  shortsTitle: ["ytd-reel-video-renderer[is-active] h2"],
+  shortsChannel: ["ytd-reel-video-renderer[is-active] ytd-channel-name a"],
+  description: [SELECTORS.descriptionMeta, "meta[property='og:description']"],
+  keywords: ["meta[name='keywords']"],
+  uploadDate: ["meta[itemprop='uploadDate']", "meta[itemprop='datePublished']"],
+  duration: ["meta[itemprop='duration']"],
+  /** The video's language; `<html lang>` is the viewer's UI language, so it is not a fallback. */
+  language: ["meta[itemprop='inLanguage']"],
+  genre: ["meta[itemprop='genre']"]
+} as const;
+
+/**
+ * Watch-page elements that mark the video as live now (the flexy attribute, the player's live state,
+ * the "LIVE" badge) or as a stream/premiere that has not started (the player's offline slate).
+ */
+export const YOUTUBE_LIVE_SELECTORS = {
+  live: ["ytd-watch-flexy[is-live]", "#movie_player.ytp-live", "ytd-watch-metadata .badge-style-type-live-now-alternate"],
+  upcoming: ["ytd-watch-flexy[is-upcoming]", "#movie_player .ytp-offline-slate:not([style*='display: none'])"]
 } as const;
 
 export const BUTTON = {
@@ -0,0 +1,19 @@
+import type { Metadata } from "../shared/types";
+import { normalizeVideoMetadata } from "../shared/metadataSchema";
+import { getSiteAdapter } from "./siteAdapters";
+
+declare global {
+  interface Window {
+    __youtubeTabGrouperExtract?: () => Metadata | null;
+  }
+}
+
+/**
+ * Injected by the background (`chrome.scripting.executeScript`) into tabs that have no content
+ * script. It only defines the extractor; the background calls it in a second injection and gets
+ * the page's metadata back, or null when no site adapter matches the page.
+ */
+window.__youtubeTabGrouperExtract = () => {
+  const adapter = getSiteAdapter(window.location.href);
+  return adapter ? normalizeVideoMetadata(adapter.extractMetadata()) : null;
+};
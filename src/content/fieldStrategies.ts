@@ -0,0 +1,85 @@
+import type { ExtractionField, ExtractionReport } from "../shared/types";
+
+/**
+ * One way of reading a metadata field. `id` names it in extraction reports: "selector:<css>" for
+ * DOM reads, otherwise the data source ("jsonLd", "playerResponse", "initialData", "documentTitle").
+ */
+export interface FieldStrategy<Value> {
+  id: string;
+  read: () => Value;
+}
+
+let currentReport: ExtractionReport = {};
+
+const isPresent = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim() !== "";
+  return value !== null && value !== undefined;
+};
+
+/**
+ * Start recording a new extraction; fields resolved from now on replace the previous report.
+ */
+export function startExtractionReport() {
+  currentReport = {};
+}
+
+/**
+ * Which strategy supplied each field in the most recent extraction.
+ */
+export function getExtractionReport(): ExtractionReport {
+  return { ...currentReport };
+}
+
+/**
+ * `applicable: false` marks a field the page cannot have (e.g. the length of a live stream): no
+ * strategy is tried. `optional` marks a field some pages legitimately lack (a channel without a
+ * handle): when no strategy finds it, it is recorded as not applicable rather than failed.
+ */
+export interface ResolveFieldOptions {
+  applicable?: boolean;
+  optional?: boolean;
+}
+
+/**
+ * Try `strategies` in order and return the first non-empty value (`empty` when none has one),
+ * recording the winning strategy's id for `field`, "" when all came up empty, or null when the
+ * field does not apply (see `ResolveFieldOptions`). A strategy that throws counts as empty.
+ */
+export function resolveField<Value>(
+  field: ExtractionField,
+  strategies: FieldStrategy<Value>[],
+  empty: Value,
+  { applicable = true, optional = false }: ResolveFieldOptions = {}
+): Value {
+  if (!applicable) {
+    currentReport[field] = null;
+    return empty;
+  }
+  for (const strategy of strategies) {
+    try {
+      const value = strategy.read();
+      if (isPresent(value)) {
+        currentReport[field] = strategy.id;
+        return value;
+      }
+    } catch (error) {
+      console.warn(`Extraction strategy ${strategy.id} failed for ${field}:`, error);
+    }
+  }
+  currentReport[field] = optional ? null : "";
+  return empty;
+}
+
+/**
+ * One strategy per selector, in order, each reading the first element that matches it.
+ */
+export function selectorStrategies<Value>(
+  selectors: readonly string[],
+  read: (element: HTMLElement | null) => Value
+): FieldStrategy<Value>[] {
+  return selectors.map((selector) => ({
+    id: `selector:${selector}`,
+    read: () => read(document.querySelector<HTMLElement>(selector))
+  }));
+}
@@ -1,18 +1,45 @@
 import { normalizeVideoMetadata } from "../shared/metadataSchema";
 import type { GroupTabResponse, Metadata, Settings } from "../shared/types";
-import { isEnabled, loadConfig } from "./config";
+import { isEnabled, isSiteEnabled, loadConfig } from "./config";
 import { cancelAutoGroup, startAutoGroup } from "./autoGroup";
 import { removeGroupButton, renderGroupButton } from "./dom";
-import { extractVideoMetadata } from "./metadataExtractor";
-import { registerMessageHandlers, sendGroupTab, sendIsTabGrouped } from "./messageClient";
+import { getSiteAdapter } from "./siteAdapters";
+import { watchNavigation } from "./navigation";
+import { watchMetadata } from "./metadataReady";
+import type { MetadataWatch } from "./metadataReady";
+import { getExtractionReport } from "./fieldStrategies";
+import { CONTENT_SCRIPT_STARTED_EVENT, CONTENT_SETTINGS_DEFAULTS, EXTRACTION_REPORT_WAIT_MS } from "./constants";
+import { startPageDataBridge } from "./pageData";
+import { registerMessageHandlers, sendGroupTab, sendIsTabGrouped, sendReportExtraction } from "./messageClient";
 
 const DISABLED_GROUP_RESPONSE: GroupTabResponse = { success: false, error: "Extension is disabled" };
 
+/** Whether this script's extension context is gone, i.e. the extension was updated, reloaded or removed. */
+const isOrphaned = () => !chrome.runtime?.id;
+
 export function startContent() {
+  const adapter = getSiteAdapter(window.location.href);
+  if (!adapter) return;
+
+  // Replace a copy of this script that an extension update left behind in the page.
+  document.dispatchEvent(new CustomEvent(CONTENT_SCRIPT_STARTED_EVENT));
+
   let config: Settings | null = null;
   let lastGroupedMetadataHash: string | null = null;
-
-  const getNormalizedMetadata = () => normalizeVideoMetadata(extractVideoMetadata());
+  // Bumped per page so checks still in flight from the previous video are dropped.
+  let pageToken = 0;
+  let stopWatchingNavigation: (() => void) | null = null;
+  let stopHandlingMessages: (() => void) | null = null;
+  let tornDown = false;
+  const stopPageDataBridge = adapter.id === "youtube" ? startPageDataBridge() : null;
+  let metadataWatch: MetadataWatch | null = null;
+  // The previous video's complete metadata, which may linger in the DOM right after navigation.
+  let readyMetadata: Metadata | null = null;
+
+  const isActive = () => isEnabled(config) && isSiteEnabled(config, adapter.id);
+  const getNormalizedMetadata = () => normalizeVideoMetadata(adapter.extractMetadata());
+  const getMetadataBy = (deadline?: number) =>
+    metadataWatch && deadline !== undefined ? metadataWatch.waitUntil(deadline) : getNormalizedMetadata();
   const computeMetadataHash = (metadata: Metadata) => {
     try {
       return JSON.stringify(metadata);
@@ -23,7 +50,11 @@ export function startContent() {
   };
 
   const requestGroupTab = async (category: string, metadata: Metadata): Promise<GroupTabResponse> => {
-    if (!isEnabled(config)) {
+    if (isOrphaned()) {
+      teardown();
+      return DISABLED_GROUP_RESPONSE;
+    }
+    if (!isActive()) {
       return DISABLED_GROUP_RESPONSE;
     }
 
@@ -47,20 +78,14 @@ export function startContent() {
     }
   };
 
-  const renderButton = async () => {
-    if (!isEnabled(config)) return null;
-
+  const isTabGrouped = async () => {
     try {
       const groupedCheck = await sendIsTabGrouped();
-      if (groupedCheck?.grouped) {
-        removeGroupButton();
-        return null;
-      }
+      return groupedCheck?.grouped === true;
     } catch (error) {
       console.warn("Grouped status check failed:", (error as Error)?.message || error);
+      return false;
     }
-
-    return renderGroupButton({ onClick: () => { void handleManualGroup(); } });
   };
 
   const triggerAutoGroup = async () => {
@@ -81,46 +106,141 @@ export function startContent() {
     }
   };
 
+  /**
+   * Tell the background which strategy supplied each field, once per page: as soon as the metadata
+   * is complete, or after `EXTRACTION_REPORT_WAIT_MS` with whatever was found by then.
+   */
+  const reportExtraction = async (watch: MetadataWatch, token: number) => {
+    await watch.waitUntil(Date.now() + EXTRACTION_REPORT_WAIT_MS);
+    const fields = getExtractionReport();
+    if (token !== pageToken || Object.keys(fields).length === 0) return;
+    const response = await sendReportExtraction({ site: adapter.id, fields });
+    if (!response?.success && response?.error) {
+      console.warn("Extraction report failed:", response.error);
+    }
+  };
+
+  /**
+   * Watch a video page's metadata until it is complete or the auto-group delay has passed (with
+   * auto-grouping off, the default delay). Null on pages that are not about one video or stream
+   * (home, feeds, search, channels, playlists), which never become complete.
+   */
+  const startMetadataWatch = (navigated: boolean): MetadataWatch | null => {
+    const page = adapter.parseUrl(window.location.href);
+    if (!page?.videoId && page?.kind !== "live") return null;
+
+    const delay = Number(config?.autoGroupDelay) > 0 ? Number(config?.autoGroupDelay) : CONTENT_SETTINGS_DEFAULTS.autoGroupDelay;
+    const watch = watchMetadata(getNormalizedMetadata, { stale: navigated ? readyMetadata : null, until: Date.now() + delay });
+    void watch.ready.then((metadata) => {
+      if (metadataWatch === watch) readyMetadata = metadata;
+    });
+    return watch;
+  };
+
+  /**
+   * Start watching the page's metadata, render the button and schedule auto-grouping, which fires
+   * once the metadata is complete or `autoGroupDelay` has passed. After an in-page navigation, a tab
+   * that is already grouped is left to the background, which regroups it when its video changes.
+   */
+  const startPage = async ({ navigated = false }: { navigated?: boolean } = {}) => {
+    if (!config || !isActive()) return;
+
+    pageToken += 1;
+    const token = pageToken;
+    metadataWatch?.stop();
+    const watch = startMetadataWatch(navigated);
+    metadataWatch = watch;
+    if (watch) void reportExtraction(watch, token);
+
+    const grouped = await isTabGrouped();
+    if (token !== pageToken) return;
+
+    if (grouped) {
+      removeGroupButton();
+    } else {
+      renderGroupButton({ onClick: () => { void handleManualGroup(); } });
+    }
+
+    if (navigated && grouped) return;
+    startAutoGroup({
+      config,
+      onGroup: triggerAutoGroup,
+      ready: watch?.ready
+    });
+  };
+
+  const cleanup = () => {
+    pageToken += 1;
+    metadataWatch?.stop();
+    metadataWatch = null;
+    cancelAutoGroup();
+    removeGroupButton();
+  };
+
+  /**
+   * In-page navigation (a related video, the next playlist item): drop the old page's button and
+   * timer and start over, so the new video is extracted and grouped on its own.
+   */
+  const handleNavigation = (url: string) => {
+    if (isOrphaned()) {
+      teardown();
+      return;
+    }
+    cleanup();
+    lastGroupedMetadataHash = null;
+    if (adapter.parseUrl(url)) {
+      void startPage({ navigated: true });
+    }
+  };
+
   const initialize = async () => {
     try {
       config = await loadConfig();
+      if (tornDown) return;
 
-      if (!isEnabled(config)) {
-        console.log("YouTube Tab Grouper is disabled");
+      if (!isActive()) {
+        console.log(`YouTube Tab Grouper is disabled on ${adapter.label}`);
         return;
       }
 
-      await renderButton();
+      await startPage();
 
-      startAutoGroup({
-        config,
-        onGroup: triggerAutoGroup
-      });
-
-      registerMessageHandlers({
-        getMetadata: getNormalizedMetadata,
-        isEnabled: () => isEnabled(config)
+      stopHandlingMessages = registerMessageHandlers({
+        getMetadata: getMetadataBy,
+        isEnabled: isActive
       });
+      stopWatchingNavigation = watchNavigation(handleNavigation);
     } catch (error) {
       console.error("Error initializing YouTube Tab Grouper:", error);
     }
   };
 
-  const cleanup = () => {
-    cancelAutoGroup();
-    removeGroupButton();
-  };
-
   if (document.readyState === "loading") {
     document.addEventListener("DOMContentLoaded", () => { void initialize(); }, { once: true });
   } else {
     void initialize();
   }
 
+  /**
+   * Stop everything this script started and remove its button: on `pagehide`, when a newer copy
+   * starts in the page, or once this copy finds its extension context gone.
+   */
+  function teardown() {
+    tornDown = true;
+    window.removeEventListener("pagehide", teardown);
+    document.removeEventListener(CONTENT_SCRIPT_STARTED_EVENT, teardown);
+    stopWatchingNavigation?.();
+    stopWatchingNavigation = null;
+    stopHandlingMessages?.();
+    stopHandlingMessages = null;
+    stopPageDataBridge?.();
+    cleanup();
+  }
+
   // Some pages (e.g., YouTube) disallow unload handlers by permission policy.
   // Use pagehide to trigger cleanup when the document is discarded.
-  const onPageHide = () => cleanup();
-  window.addEventListener("pagehide", onPageHide, { once: true });
+  window.addEventListener("pagehide", teardown, { once: true });
+  document.addEventListener(CONTENT_SCRIPT_STARTED_EVENT, teardown, { once: true });
 }
 
 startContent();
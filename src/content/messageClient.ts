@@ -1,7 +1,7 @@
 import { normalizeVideoMetadata } from "../shared/metadataSchema";
 import { MESSAGE_ACTIONS, validateResponse } from "../shared/messageContracts";
 import { handleMessage, sendMessageSafe } from "../shared/messageTransport";
-import type { GroupTabResponse, Metadata, MessageEnvelope, Settings } from "../shared/types";
+import type { ExtractionReportRequest, GroupTabResponse, Metadata, MessageEnvelope, Settings } from "../shared/types";
 
 interface GroupTabPayload extends Record<string, unknown> {
   category?: string;
@@ -96,19 +96,41 @@ export async function sendIsTabGrouped(
   >;
 }
 
+/**
+ * Report which strategy supplied each metadata field on this page.
+ */
+export async function sendReportExtraction(
+  payload: ExtractionReportRequest,
+  options: { timeoutMs?: number } = {}
+): Promise<{ success: boolean; error?: string }> {
+  const { timeoutMs } = options;
+  try {
+    return (await sendMessageSafe(MESSAGE_ACTIONS.REPORT_EXTRACTION, { ...payload }, { timeoutMs, validateResponsePayload: true })) as {
+      success: boolean;
+      error?: string;
+    };
+  } catch (error) {
+    return { success: false, error: (error as Error)?.message || "Unknown error" };
+  }
+}
+
+/**
+ * Answer `getVideoMetadata`, passing the request's `deadline` (epoch ms) on to `getMetadata`.
+ */
 export function replyWithMetadata({
   getMetadata,
   isEnabled
 }: {
-  getMetadata?: () => Promise<Metadata> | Metadata;
+  getMetadata?: (deadline?: number) => Promise<Metadata> | Metadata;
   isEnabled?: () => boolean;
 }) {
-  return async () => {
+  return async (msg: Record<string, unknown>) => {
     const enabled = typeof isEnabled === "function" ? isEnabled() : true;
     if (!enabled) {
       return normalizeVideoMetadata();
     }
-    const raw = typeof getMetadata === "function" ? await getMetadata() : {};
+    const deadline = typeof msg?.deadline === "number" ? msg.deadline : undefined;
+    const raw = typeof getMetadata === "function" ? await getMetadata(deadline) : {};
     return normalizeVideoMetadata(raw);
   };
 }
@@ -117,7 +139,7 @@ export function registerMessageHandlers({
   getMetadata,
   isEnabled
 }: {
-  getMetadata?: () => Promise<Metadata> | Metadata;
+  getMetadata?: (deadline?: number) => Promise<Metadata> | Metadata;
   isEnabled?: () => boolean;
 }) {
   const listener = handleMessage(
@@ -1,52 +1,42 @@
-import type { Metadata } from "../shared/types";
-import { mergeMetadata, normalizeVideoMetadata } from "../shared/metadataSchema";
-import { SELECTORS } from "./constants";
-
-interface YtInitialData {
-  contents?: {
-    twoColumnWatchNextResults?: {
-      results?: { results?: { contents?: unknown[] } };
-    };
-  };
-}
-
-declare global {
-  interface Window {
-    ytInitialData?: YtInitialData;
-  }
-}
+import type { Metadata, PageKind } from "../shared/types";
+import { parseYouTubeUrl } from "../shared/youtubeUrl";
+import {
+  normalizeChannelHandle,
+  normalizeChannelId,
+  normalizeDurationSeconds,
+  normalizeLanguage,
+  normalizePlaylistId,
+  normalizePlaylistIndex,
+  normalizeUploadDate,
+  normalizeVideoId,
+  normalizeVideoMetadata,
+  parseHashtags
+} from "../shared/metadataSchema";
+import { deriveLiveFlags } from "../shared/liveStatus";
+import type { LiveSignals } from "../shared/liveStatus";
+import { SELECTORS, YOUTUBE_FIELD_SELECTORS as FIELDS, YOUTUBE_LIVE_SELECTORS as LIVE_SELECTORS } from "./constants";
+import { resolveField, selectorStrategies, startExtractionReport } from "./fieldStrategies";
+import type { FieldStrategy } from "./fieldStrategies";
+import { extractMusicMetadata } from "./musicExtractor";
+import { getInitialData, getPlayerResponse } from "./pageData";
 
 const splitKeywords = (value: unknown = ""): string[] =>
   typeof value === "string" ? value.split(",").map((item) => item.trim()).filter(Boolean) : [];
 const getDocumentTitle = () => document.title.replace("- YouTube", "").trim();
-
-function readDomMetadata(): Partial<Metadata> {
-  const title = document.querySelector<HTMLElement>(SELECTORS.title)?.innerText || "";
-
-  const channel =
-    document.querySelector<HTMLElement>(SELECTORS.channelName)?.innerText ||
-    document.querySelector<HTMLElement>(SELECTORS.channelLink)?.innerText ||
-    document.querySelector<HTMLElement>(SELECTORS.channelHandleLink)?.innerText ||
-    "";
-
-  const description = document.querySelector<HTMLMetaElement>(SELECTORS.descriptionMeta)?.content || "";
-
-  const keywords = splitKeywords(document.querySelector<HTMLMetaElement>(SELECTORS.keywordsMeta)?.content || "");
-
-  return {
-    title,
-    channel,
-    description,
-    keywords
-  };
-}
+const getPageKind = (): PageKind => parseYouTubeUrl(window.location.href)?.kind ?? "other";
 
 function extractJsonLdMetadata(): Partial<Metadata> {
   const script = document.querySelector<HTMLScriptElement>(SELECTORS.jsonLdScript);
   if (!script) return {};
 
   try {
-    const data = JSON.parse(script.textContent || "{}") as { keywords?: unknown; description?: string };
+    const data = JSON.parse(script.textContent || "{}") as {
+      keywords?: unknown;
+      description?: string;
+      uploadDate?: string;
+      duration?: string;
+      inLanguage?: string;
+    };
     let keywords: string[] = [];
     if (Array.isArray(data.keywords)) {
       keywords = data.keywords.map((kw) => (typeof kw === "string" ? kw : String(kw))).filter(Boolean);
@@ -55,7 +45,10 @@ function extractJsonLdMetadata(): Partial<Metadata> {
     }
     return {
       description: data.description,
-      keywords
+      keywords,
+      uploadDate: normalizeUploadDate(data.uploadDate),
+      durationSeconds: normalizeDurationSeconds(data.duration),
+      language: normalizeLanguage(data.inLanguage)
     };
   } catch (error) {
     console.warn("Failed to parse JSON-LD:", error);
@@ -63,15 +56,40 @@ function extractJsonLdMetadata(): Partial<Metadata> {
   }
 }
 
+interface VideoPrimaryInfoRenderer {
+  categoryId?: string | number | null;
+  superTitleLink?: { runs?: { text?: string }[] };
+}
+
+const getPrimaryInfoRenderers = (): VideoPrimaryInfoRenderer[] => {
+  const contents = getInitialData()?.contents?.twoColumnWatchNextResults?.results?.results?.contents;
+  if (!Array.isArray(contents)) return [];
+  return contents
+    .map((item) => (item as { videoPrimaryInfoRenderer?: VideoPrimaryInfoRenderer })?.videoPrimaryInfoRenderer)
+    .filter((renderer): renderer is VideoPrimaryInfoRenderer => Boolean(renderer));
+};
+
+/**
+ * Hashtags YouTube links above the title ("super title"), e.g. "#minecraft #speedrun".
+ */
+function extractSuperTitleHashtags(): string[] {
+  try {
+    const texts = getPrimaryInfoRenderers().flatMap((renderer) =>
+      (renderer.superTitleLink?.runs || []).map((run) => run?.text || "")
+    );
+    return parseHashtags(texts.join(" "));
+  } catch (error) {
+    console.warn("Failed to extract hashtags from ytInitialData:", error);
+    return [];
+  }
+}
+
 function extractCategoryFromInitialData(): string | number | null {
   try {
-    if (!window.ytInitialData) return null;
-    const contents = window.ytInitialData?.contents?.twoColumnWatchNextResults?.results?.results?.contents;
-    if (!Array.isArray(contents)) return null;
+    if (!getInitialData()) return null;
 
-    for (const item of contents) {
-      const categoryId = (item as { videoPrimaryInfoRenderer?: { categoryId?: string | number | null } })
-        ?.videoPrimaryInfoRenderer?.categoryId;
+    for (const renderer of getPrimaryInfoRenderers()) {
+      const categoryId = renderer.categoryId;
       if (categoryId !== undefined && categoryId !== null) {
         return categoryId;
       }
@@ -82,39 +100,276 @@ function extractCategoryFromInitialData(): string | number | null {
   return null;
 }
 
-function extractCategoryFromMeta(): string | null {
+/**
+ * The microformat category is YouTube's English category name regardless of UI language.
+ */
+function extractCategoryFromPlayerResponse(): string | null {
   try {
-    const genreMeta = document.querySelector<HTMLMetaElement>(SELECTORS.genreMeta);
-    if (genreMeta?.content) {
-      return genreMeta.content.trim();
-    }
+    const category = getPlayerResponse()?.microformat?.playerMicroformatRenderer?.category;
+    return typeof category === "string" && category.trim() ? category.trim() : null;
   } catch (error) {
-    console.warn("Failed to extract category from meta tag:", error);
+    console.warn("Failed to extract YouTube category from ytInitialPlayerResponse:", error);
   }
   return null;
 }
 
-function detectYouTubeCategory(): string | number | null {
-  return extractCategoryFromInitialData() ?? extractCategoryFromMeta();
+/**
+ * Channel id/handle from the player response; more reliable than DOM links, which can point at
+ * other channels (e.g. collaborators) once the page has navigated.
+ */
+function extractChannelFromPlayerResponse(): Pick<Metadata, "channelId" | "channelHandle"> {
+  try {
+    const player = getPlayerResponse();
+    const microformat = player?.microformat?.playerMicroformatRenderer;
+    return {
+      channelId: normalizeChannelId(player?.videoDetails?.channelId || microformat?.externalChannelId),
+      channelHandle: normalizeChannelHandle(microformat?.ownerProfileUrl)
+    };
+  } catch (error) {
+    console.warn("Failed to extract channel from ytInitialPlayerResponse:", error);
+    return { channelId: "", channelHandle: "" };
+  }
 }
 
 /**
- * Extract basic metadata from the DOM.
+ * Upload date, length and spoken language from the player response. The language comes from the
+ * auto-generated ("asr") caption track, which YouTube creates in the language actually spoken.
  */
-export function getVideoData(): Metadata {
-  const base = readDomMetadata();
-  return normalizeVideoMetadata(base, { fallbackTitle: getDocumentTitle() });
+function extractDetailsFromPlayerResponse(): Pick<Metadata, "uploadDate" | "durationSeconds" | "language"> {
+  try {
+    const player = getPlayerResponse();
+    const microformat = player?.microformat?.playerMicroformatRenderer;
+    const tracks = player?.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+    const spokenTrack = tracks.find((track) => track?.kind === "asr");
+    const isLive = player?.videoDetails?.isLiveContent === true && !Number(player?.videoDetails?.lengthSeconds);
+
+    return {
+      uploadDate: normalizeUploadDate(microformat?.uploadDate || microformat?.publishDate),
+      durationSeconds: isLive
+        ? null
+        : normalizeDurationSeconds(player?.videoDetails?.lengthSeconds ?? microformat?.lengthSeconds),
+      language: normalizeLanguage(spokenTrack?.languageCode)
+    };
+  } catch (error) {
+    console.warn("Failed to extract video details from ytInitialPlayerResponse:", error);
+    return { uploadDate: "", durationSeconds: null, language: "" };
+  }
 }
 
 /**
- * Extract metadata from DOM + JSON-LD + meta tags, normalized.
+ * Title and channel name from the player response, for Shorts and live pages whose DOM lacks the
+ * watch-page title and owner elements.
+ */
+function extractVideoFromPlayerResponse(): Pick<Metadata, "title" | "channel"> {
+  try {
+    const details = getPlayerResponse()?.videoDetails;
+    return { title: details?.title || "", channel: details?.author || "" };
+  } catch (error) {
+    console.warn("Failed to extract title from ytInitialPlayerResponse:", error);
+    return { title: "", channel: "" };
+  }
+}
+
+/**
+ * Live and upcoming (premiere/scheduled stream) status from the player response: a stream that has
+ * not started reports an offline playability status until it goes live. `isLiveContent` also covers
+ * finished broadcasts. Null without a player response.
+ */
+function extractPlayerLiveFlags(): LiveSignals["player"] {
+  try {
+    const player = getPlayerResponse();
+    if (!player) return null;
+    const broadcast = player.microformat?.playerMicroformatRenderer?.liveBroadcastDetails;
+    return {
+      isLive: player.videoDetails?.isLive === true || broadcast?.isLiveNow === true,
+      isUpcoming: player.videoDetails?.isUpcoming === true || player.playabilityStatus?.status === "LIVE_STREAM_OFFLINE",
+      isLiveContent: player.videoDetails?.isLiveContent === true
+    };
+  } catch (error) {
+    console.warn("Failed to extract live status from ytInitialPlayerResponse:", error);
+    return null;
+  }
+}
+
+const matchesAny = (selectors: readonly string[]) => selectors.some((selector) => document.querySelector(selector) !== null);
+
+/**
+ * Shorts come from the URL; live and upcoming status from the player response combined with the
+ * page's live badge and offline slate, and a `/live/` URL (see `deriveLiveFlags`).
+ */
+function extractVideoFlags(pageKind: PageKind): Pick<Metadata, "isShort" | "isLive" | "isUpcoming" | "isLiveContent"> {
+  const flags = deriveLiveFlags({
+    player: extractPlayerLiveFlags(),
+    liveBadge: matchesAny(LIVE_SELECTORS.live),
+    upcomingBadge: matchesAny(LIVE_SELECTORS.upcoming),
+    liveUrl: pageKind === "live"
+  });
+  return { isShort: pageKind === "shorts", ...flags };
+}
+
+/**
+ * Playlist id, title and 1-based position. The watch page's playlist panel is authoritative;
+ * the `list=`/`index=` URL parameters and the panel header fill in what it lacks.
+ */
+function extractPlaylist(): Pick<Metadata, "playlistId" | "playlistTitle" | "playlistIndex"> {
+  const params = new URLSearchParams(window.location.search);
+  const urlPlaylist = {
+    playlistId: normalizePlaylistId(params.get("list")),
+    playlistTitle: document.querySelector<HTMLElement>(SELECTORS.playlistTitle)?.innerText?.trim() || "",
+    playlistIndex: normalizePlaylistIndex(params.get("index"))
+  };
+
+  try {
+    const panel = getInitialData()?.contents?.twoColumnWatchNextResults?.playlist?.playlist;
+    const playlistId = normalizePlaylistId(panel?.playlistId);
+    if (!panel || !playlistId || (urlPlaylist.playlistId && playlistId !== urlPlaylist.playlistId)) {
+      return urlPlaylist;
+    }
+    return {
+      playlistId,
+      playlistTitle: (typeof panel.title === "string" ? panel.title.trim() : "") || urlPlaylist.playlistTitle,
+      playlistIndex:
+        typeof panel.currentIndex === "number" ? normalizePlaylistIndex(panel.currentIndex + 1) : urlPlaylist.playlistIndex
+    };
+  } catch (error) {
+    console.warn("Failed to extract playlist from ytInitialData:", error);
+    return urlPlaylist;
+  }
+}
+
+const readText = (element: HTMLElement | null) => element?.innerText?.trim() || "";
+const readContent = (element: HTMLElement | null) => (element as HTMLMetaElement | null)?.content?.trim() || "";
+const readHref = (element: HTMLElement | null) => element?.getAttribute("href") || "";
+
+/** Run `read` at most once, on first use, so strategies sharing a source parse it only when reached. */
+const once = <Value>(read: () => Value) => {
+  let cached: { value: Value } | null = null;
+  return () => (cached ??= { value: read() }).value;
+};
+
+/**
+ * Each field from the first of its strategies that has a value, recorded in the extraction report.
+ * Channels without a handle, videos without keywords or a detectable language, and the length of a
+ * live or upcoming stream are recorded as not applicable rather than failed.
+ * The player response leads for channel ids and video details. Shorts and live pages lack the
+ * watch-page title and owner elements, so there it also leads for the title and channel name;
+ * Shorts try the active reel before the watch-page selectors.
+ */
+function resolveFields(pageKind: PageKind, { isLive, isUpcoming }: Pick<Metadata, "isLive" | "isUpcoming">): Partial<Metadata> {
+  const jsonLd = once(extractJsonLdMetadata);
+  const playerChannel = once(extractChannelFromPlayerResponse);
+  const playerDetails = once(extractDetailsFromPlayerResponse);
+  const playerVideo = once(extractVideoFromPlayerResponse);
+
+  const isShorts = pageKind === "shorts";
+  const titleSelectors = isShorts ? [...FIELDS.shortsTitle, ...FIELDS.title] : FIELDS.title;
+  const channelSelectors = isShorts ? [...FIELDS.shortsChannel, ...FIELDS.channel] : FIELDS.channel;
+  const playerFirst = <Value>(player: FieldStrategy<Value>, dom: FieldStrategy<Value>[]) =>
+    pageKind === "watch" ? [...dom, player] : [player, ...dom];
+
+  return {
+    title: resolveField(
+      "title",
+      [
+        ...playerFirst({ id: "playerResponse", read: () => playerVideo().title }, selectorStrategies(titleSelectors, readText)),
+        { id: "documentTitle", read: getDocumentTitle }
+      ],
+      ""
+    ),
+    channel: resolveField(
+      "channel",
+      playerFirst({ id: "playerResponse", read: () => playerVideo().channel }, selectorStrategies(channelSelectors, readText)),
+      ""
+    ),
+    channelId: resolveField(
+      "channelId",
+      [
+        { id: "playerResponse", read: () => playerChannel().channelId },
+        ...selectorStrategies(channelSelectors, (element) => normalizeChannelId(readHref(element)))
+      ],
+      ""
+    ),
+    channelHandle: resolveField(
+      "channelHandle",
+      [
+        { id: "playerResponse", read: () => playerChannel().channelHandle },
+        ...selectorStrategies(channelSelectors, (element) => normalizeChannelHandle(readHref(element)))
+      ],
+      "",
+      { optional: true }
+    ),
+    description: resolveField(
+      "description",
+      [{ id: "jsonLd", read: () => jsonLd().description ?? "" }, ...selectorStrategies(FIELDS.description, readContent)],
+      ""
+    ),
+    keywords: resolveField(
+      "keywords",
+      [
+        { id: "jsonLd", read: () => jsonLd().keywords ?? [] },
+        ...selectorStrategies(FIELDS.keywords, (element) => splitKeywords(readContent(element)))
+      ],
+      [],
+      { optional: true }
+    ),
+    uploadDate: resolveField(
+      "uploadDate",
+      [
+        { id: "playerResponse", read: () => playerDetails().uploadDate },
+        { id: "jsonLd", read: () => jsonLd().uploadDate ?? "" },
+        ...selectorStrategies(FIELDS.uploadDate, (element) => normalizeUploadDate(readContent(element)))
+      ],
+      ""
+    ),
+    durationSeconds: resolveField<number | null>(
+      "durationSeconds",
+      [
+        { id: "playerResponse", read: () => playerDetails().durationSeconds },
+        { id: "jsonLd", read: () => jsonLd().durationSeconds ?? null },
+        ...selectorStrategies(FIELDS.duration, (element) => normalizeDurationSeconds(readContent(element)))
+      ],
+      null,
+      { applicable: !isLive && !isUpcoming }
+    ),
+    language: resolveField(
+      "language",
+      [
+        { id: "playerResponse", read: () => playerDetails().language },
+        { id: "jsonLd", read: () => jsonLd().language ?? "" },
+        ...selectorStrategies(FIELDS.language, (element) => normalizeLanguage(readContent(element)))
+      ],
+      "",
+      { optional: true }
+    ),
+    youtubeCategory: resolveField<string | number | null>(
+      "youtubeCategory",
+      [
+        { id: "initialData", read: extractCategoryFromInitialData },
+        { id: "playerResponse", read: extractCategoryFromPlayerResponse },
+        ...selectorStrategies(FIELDS.genre, (element) => readContent(element) || null)
+      ],
+      null
+    )
+  };
+}
+
+/**
+ * Extract metadata from the DOM, JSON-LD, meta tags and the player response, normalized, recording
+ * which strategy supplied each field (see `getExtractionReport`). Hashtags come from the super-title
+ * links plus any "#tag" tokens in the title and description. YouTube Music has its own extractor.
  */
 export function extractVideoMetadata(): Metadata {
-  const base = getVideoData();
-  const jsonLd = extractJsonLdMetadata();
-  const youtubeCategory = detectYouTubeCategory();
+  startExtractionReport();
+  const pageKind = getPageKind();
+  if (pageKind === "music") return extractMusicMetadata();
+
+  const flags = extractVideoFlags(pageKind);
+  const fields = resolveFields(pageKind, flags);
+  const playlist = extractPlaylist();
+  const videoId = parseYouTubeUrl(window.location.href)?.videoId || normalizeVideoId(getPlayerResponse()?.videoDetails?.videoId);
 
-  const merged = mergeMetadata({ ...jsonLd, youtubeCategory }, base);
+  const metadata = normalizeVideoMetadata({ ...fields, ...playlist, ...flags, videoId });
+  const hashtags = [...new Set([...extractSuperTitleHashtags(), ...parseHashtags(metadata.title, metadata.description)])];
 
-  return normalizeVideoMetadata(merged, { fallbackTitle: base.title || getDocumentTitle() });
+  return normalizeVideoMetadata({ ...metadata, hashtags });
 }
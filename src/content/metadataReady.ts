@@ -0,0 +1,94 @@
+import type { Metadata } from "../shared/types";
+import { isMetadataComplete } from "../shared/metadataSchema";
+import { onPageDataUpdated } from "./pageData";
+
+/** Coalesce bursts of DOM mutations into one extraction per interval. */
+const CHECK_INTERVAL_MS = 100;
+
+export interface MetadataWatch {
+  /** Resolves with the first complete metadata; stays pending until then (or until `stop`). */
+  ready: Promise<Metadata>;
+  /** Complete metadata as soon as it is available, or whatever is extracted at `deadline` (epoch ms). */
+  waitUntil: (deadline: number) => Promise<Metadata>;
+  stop: () => void;
+}
+
+/**
+ * Re-extract the page's metadata whenever the DOM changes (new nodes, text, meta `content`, link
+ * `href`), YouTube swaps in a page's data (`yt-page-data-updated`) or the page bridge posts a new
+ * player response, until it is complete per `isMetadataComplete` or `until` (epoch ms) has passed.
+ * `ready` stays pending when the watch ends at `until`. After an in-page navigation the old
+ * video's title can linger for a moment, so metadata still titled like `stale` does not count.
+ */
+export function watchMetadata(
+  extract: () => Metadata,
+  { stale, until }: { stale?: Metadata | null; until?: number } = {}
+): MetadataWatch {
+  let resolveReady: (metadata: Metadata) => void = () => undefined;
+  const ready = new Promise<Metadata>((resolve) => {
+    resolveReady = resolve;
+  });
+  let done = false;
+  let checkTimer: ReturnType<typeof setTimeout> | null = null;
+  let untilTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const isReady = (metadata: Metadata) => isMetadataComplete(metadata) && metadata.title !== stale?.title;
+
+  const stopWatching = () => {
+    done = true;
+    observer.disconnect();
+    document.removeEventListener("yt-page-data-updated", scheduleCheck);
+    stopPageData();
+    if (checkTimer) clearTimeout(checkTimer);
+    if (untilTimer) clearTimeout(untilTimer);
+  };
+
+  const finish = (metadata: Metadata) => {
+    if (done) return;
+    stopWatching();
+    resolveReady(metadata);
+  };
+
+  const check = () => {
+    checkTimer = null;
+    const metadata = extract();
+    if (isReady(metadata)) finish(metadata);
+  };
+
+  const scheduleCheck = () => {
+    if (!done && !checkTimer) checkTimer = setTimeout(check, CHECK_INTERVAL_MS);
+  };
+
+  const observer = new MutationObserver(scheduleCheck);
+  observer.observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+    attributes: true,
+    attributeFilter: ["content", "href"]
+  });
+  document.addEventListener("yt-page-data-updated", scheduleCheck);
+  const stopPageData = onPageDataUpdated(scheduleCheck);
+  if (until !== undefined && Number.isFinite(until)) {
+    untilTimer = setTimeout(() => {
+      if (!done) stopWatching();
+    }, Math.max(0, until - Date.now()));
+  }
+  check();
+
+  const waitUntil = (deadline: number) => {
+    const remaining = deadline - Date.now();
+    if (done || !Number.isFinite(remaining) || remaining <= 0) {
+      return Promise.resolve(extract());
+    }
+    return Promise.race([ready, new Promise<Metadata>((resolve) => setTimeout(() => resolve(extract()), remaining))]);
+  };
+
+  return {
+    ready,
+    waitUntil,
+    stop: () => {
+      if (!done) stopWatching();
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import type { Metadata } from "../shared/types";
+import {
+  mergeMetadata,
+  normalizeChannelId,
+  normalizePlaylistId,
+  normalizePlaylistIndex,
+  normalizeVideoMetadata
+} from "../shared/metadataSchema";
+import { parseYouTubeUrl } from "../shared/youtubeUrl";
+import { SELECTORS } from "./constants";
+
+/** YouTube's "Music" category id, so the resolver's YouTube category step can place tracks. */
+const MUSIC_CATEGORY_ID = "10";
+
+const getDocumentTitle = () => document.title.replace("- YouTube Music", "").trim();
+
+/**
+ * The media session YouTube Music publishes for the OS media controls; it always describes the
+ * track that is actually playing.
+ */
+function readMediaSession(): Partial<Metadata> {
+  try {
+    const metadata = navigator.mediaSession?.metadata;
+    if (!metadata) return {};
+    return { title: metadata.title, artist: metadata.artist, album: metadata.album };
+  } catch (error) {
+    console.warn("Failed to read media session metadata:", error);
+    return {};
+  }
+}
+
+/**
+ * Player bar fallback: the byline links the artist channel(s) and, for album tracks, the album.
+ */
+function readPlayerBar(): Partial<Metadata> {
+  const artistLinks = Array.from(document.querySelectorAll<HTMLAnchorElement>(SELECTORS.musicArtistLink));
+
+  return {
+    title: document.querySelector<HTMLElement>(SELECTORS.musicTitle)?.innerText || "",
+    artist: artistLinks
+      .map((link) => link.innerText.trim())
+      .filter(Boolean)
+      .join(" & "),
+    channelId: normalizeChannelId(artistLinks[0]?.getAttribute("href")),
+    album: document.querySelector<HTMLAnchorElement>(SELECTORS.musicAlbumLink)?.innerText || ""
+  };
+}
+
+function readQueuePlaylist(): Pick<Metadata, "playlistId" | "playlistTitle" | "playlistIndex"> {
+  const params = new URLSearchParams(window.location.search);
+  return {
+    playlistId: normalizePlaylistId(params.get("list")),
+    playlistTitle: document.querySelector<HTMLElement>(SELECTORS.musicQueueTitle)?.innerText?.trim() || "",
+    playlistIndex: normalizePlaylistIndex(params.get("index"))
+  };
+}
+
+/**
+ * Track, artist, album and queue playlist of the YouTube Music player. The artist doubles as the
+ * channel so channel mappings and keyword scoring see it.
+ */
+export function extractMusicMetadata(): Metadata {
+  const track = mergeMetadata(readMediaSession(), readPlayerBar());
+
+  return normalizeVideoMetadata(
+    {
+      ...track,
+      ...readQueuePlaylist(),
+      channel: track.artist,
+      videoId: parseYouTubeUrl(window.location.href)?.videoId ?? "",
+      youtubeCategory: track.title ? MUSIC_CATEGORY_ID : null
+    },
+    { fallbackTitle: getDocumentTitle() }
+  );
+}
@@ -0,0 +1,35 @@
+/** YouTube's SPA events: the new page is in place, then its data has been swapped in. */
+const YOUTUBE_NAVIGATION_EVENTS = ["yt-navigate-finish", "yt-page-data-updated"] as const;
+
+/** The Navigation API, missing from older TypeScript DOM typings. */
+interface NavigationTarget {
+  addEventListener: (type: "navigatesuccess", listener: () => void) => void;
+  removeEventListener: (type: "navigatesuccess", listener: () => void) => void;
+}
+
+/**
+ * Call `onNavigate` with the new URL whenever the page changes without a reload: YouTube's navigation
+ * events, back/forward (`popstate`), and the Navigation API for sites (Twitch, Vimeo) that only use
+ * `history.pushState`. Several events for the same URL collapse into one call. Returns a function
+ * that stops watching.
+ */
+export function watchNavigation(onNavigate: (url: string) => void): () => void {
+  let lastUrl = window.location.href;
+  const checkUrl = () => {
+    const url = window.location.href;
+    if (url === lastUrl) return;
+    lastUrl = url;
+    onNavigate(url);
+  };
+
+  const navigation = (window as Window & { navigation?: NavigationTarget }).navigation;
+  YOUTUBE_NAVIGATION_EVENTS.forEach((type) => document.addEventListener(type, checkUrl));
+  window.addEventListener("popstate", checkUrl);
+  navigation?.addEventListener("navigatesuccess", checkUrl);
+
+  return () => {
+    YOUTUBE_NAVIGATION_EVENTS.forEach((type) => document.removeEventListener(type, checkUrl));
+    window.removeEventListener("popstate", checkUrl);
+    navigation?.removeEventListener("navigatesuccess", checkUrl);
+  };
+}
@@ -0,0 +1,70 @@
+import { PAGE_DATA_MESSAGE_SOURCE, isPageDataMessage } from "./pageData";
+import type { PageDataMessage, YtInitialData, YtInitialPlayerResponse } from "./pageData";
+
+declare global {
+  interface Window {
+    ytInitialData?: YtInitialData;
+    ytInitialPlayerResponse?: YtInitialPlayerResponse;
+  }
+}
+
+/** The `#movie_player` element's API; it always describes the video being played. */
+interface MoviePlayer extends HTMLElement {
+  getPlayerResponse?: () => unknown;
+}
+
+/** `yt-navigate-finish` detail: the data YouTube fetched for the page it navigated to. */
+interface NavigateFinishDetail {
+  response?: { playerResponse?: unknown; response?: unknown };
+}
+
+// The page's own globals describe the document's first video; in-page navigations replace them here.
+let navigated: { playerResponse?: unknown; initialData?: unknown } | null = null;
+// The nonce of the content script's latest request; nothing is posted before one arrives.
+let nonce: string | null = null;
+
+const readPlayerResponse = () => {
+  try {
+    const player = document.getElementById("movie_player") as MoviePlayer | null;
+    const playing = player?.getPlayerResponse?.();
+    if (playing) return playing;
+  } catch (error) {
+    console.warn("Failed to read the player's response:", error);
+  }
+  return navigated ? navigated.playerResponse : window.ytInitialPlayerResponse;
+};
+
+const postPageData = () => {
+  if (!nonce) return;
+  const message: PageDataMessage = {
+    source: PAGE_DATA_MESSAGE_SOURCE,
+    type: "data",
+    nonce,
+    playerResponse: readPlayerResponse(),
+    initialData: navigated ? navigated.initialData : window.ytInitialData
+  };
+  try {
+    window.postMessage(message, window.location.origin);
+  } catch (error) {
+    console.warn("Failed to post page data:", error);
+  }
+};
+
+/**
+ * Runs in the page's main world (see the manifest), where YouTube's `ytInitialPlayerResponse` and
+ * `ytInitialData` live, and posts them to the content script: when asked, once the document has
+ * loaded, and after every in-page navigation. Each post carries the nonce of the latest request, so
+ * a content script re-injected after an update takes over from the old one.
+ */
+window.addEventListener("message", (event: MessageEvent) => {
+  if (event.source !== window || !isPageDataMessage(event.data) || event.data.type !== "request") return;
+  nonce = event.data.nonce;
+  postPageData();
+});
+document.addEventListener("yt-navigate-finish", (event) => {
+  const response = (event as CustomEvent<NavigateFinishDetail | undefined>).detail?.response;
+  if (response) navigated = { playerResponse: response.playerResponse, initialData: response.response };
+  postPageData();
+});
+document.addEventListener("yt-page-data-updated", postPageData);
+document.addEventListener("DOMContentLoaded", postPageData, { once: true });
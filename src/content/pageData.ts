@@ -0,0 +1,142 @@
+import { readAssignedJson } from "../shared/inlineJson";
+import { normalizeVideoId } from "../shared/metadataSchema";
+import { parseYouTubeUrl } from "../shared/youtubeUrl";
+
+export interface YtInitialData {
+  currentVideoEndpoint?: { watchEndpoint?: { videoId?: string } };
+  contents?: {
+    twoColumnWatchNextResults?: {
+      results?: { results?: { contents?: unknown[] } };
+      playlist?: { playlist?: { playlistId?: string; title?: string; currentIndex?: number } };
+    };
+  };
+}
+
+export interface YtInitialPlayerResponse {
+  videoDetails?: {
+    videoId?: string;
+    title?: string;
+    author?: string;
+    channelId?: string;
+    lengthSeconds?: string;
+    isLiveContent?: boolean;
+    isLive?: boolean;
+    isUpcoming?: boolean;
+  };
+  playabilityStatus?: { status?: string };
+  microformat?: {
+    playerMicroformatRenderer?: {
+      category?: string;
+      externalChannelId?: string;
+      ownerProfileUrl?: string;
+      uploadDate?: string;
+      publishDate?: string;
+      lengthSeconds?: string;
+      liveBroadcastDetails?: { isLiveNow?: boolean };
+    };
+  };
+  captions?: {
+    playerCaptionsTracklistRenderer?: { captionTracks?: { languageCode?: string; kind?: string }[] };
+  };
+}
+
+/** Tags `window.postMessage` traffic between the page bridge (main world) and the content script. */
+export const PAGE_DATA_MESSAGE_SOURCE = "youtube-tab-grouper:page-data";
+
+/**
+ * `request` asks the bridge to post the current page data; `data` carries it. Either object may be
+ * missing, e.g. before the player has loaded. `nonce` is the content script's per-load token: the
+ * bridge tags its data with the nonce of the latest request, and data with any other nonce is ignored.
+ */
+export type PageDataMessage =
+  | { source: typeof PAGE_DATA_MESSAGE_SOURCE; type: "request"; nonce: string }
+  | { source: typeof PAGE_DATA_MESSAGE_SOURCE; type: "data"; nonce: string; playerResponse?: unknown; initialData?: unknown };
+
+interface PageData {
+  playerResponse?: YtInitialPlayerResponse;
+  initialData?: YtInitialData;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isPageDataMessage = (value: unknown): value is PageDataMessage =>
+  isObject(value) &&
+  value.source === PAGE_DATA_MESSAGE_SOURCE &&
+  (value.type === "request" || value.type === "data") &&
+  typeof value.nonce === "string" &&
+  value.nonce.length > 0;
+
+let bridged: PageData = {};
+const inlineData: Partial<Record<"ytInitialPlayerResponse" | "ytInitialData", Record<string, unknown>>> = {};
+const listeners = new Set<() => void>();
+
+/**
+ * Listen for page data from the main-world bridge and ask it for the current data. Content scripts
+ * run in an isolated world, where the page's `ytInitialPlayerResponse`/`ytInitialData` globals are
+ * never visible. Only data carrying this call's nonce is accepted, so forged messages from other
+ * scripts in the page are dropped. Returns a function that stops listening.
+ */
+export function startPageDataBridge(): () => void {
+  const nonce = crypto.randomUUID();
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== window || !isPageDataMessage(event.data) || event.data.type !== "data") return;
+    if (event.data.nonce !== nonce) return;
+    const { playerResponse, initialData } = event.data;
+    bridged = {
+      playerResponse: isObject(playerResponse) ? playerResponse : undefined,
+      initialData: isObject(initialData) ? initialData : undefined
+    };
+    listeners.forEach((listener) => listener());
+  };
+  window.addEventListener("message", onMessage);
+  const request: PageDataMessage = { source: PAGE_DATA_MESSAGE_SOURCE, type: "request", nonce };
+  window.postMessage(request, window.location.origin);
+  return () => window.removeEventListener("message", onMessage);
+}
+
+/**
+ * Call `listener` whenever the bridge posts new page data. Returns a function that unsubscribes.
+ */
+export function onPageDataUpdated(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * The object assigned to `name` by one of the page's inline scripts. Those scripts only describe the
+ * video the document was loaded for, so a found object is kept for the document's lifetime.
+ */
+function readInlineScript(name: "ytInitialPlayerResponse" | "ytInitialData") {
+  if (inlineData[name]) return inlineData[name];
+  for (const script of Array.from(document.scripts)) {
+    const source = script.src ? "" : script.textContent || "";
+    const value = source.includes(name) ? readAssignedJson(source, name) : null;
+    if (value) return (inlineData[name] = value);
+  }
+  return undefined;
+}
+
+/** Whether data tagged with `videoId` may describe the current page; video pages need a matching id. */
+const matchesPage = (videoId: string | undefined) => {
+  const pageVideoId = parseYouTubeUrl(window.location.href)?.videoId;
+  return !pageVideoId || normalizeVideoId(videoId) === pageVideoId;
+};
+
+/**
+ * The current video's player response: the bridge's copy, else the page's inline script. Either is
+ * ignored when it describes another video, e.g. the inline script after an in-page navigation.
+ */
+export function getPlayerResponse(): YtInitialPlayerResponse | undefined {
+  const candidates = [bridged.playerResponse, readInlineScript("ytInitialPlayerResponse") as YtInitialPlayerResponse | undefined];
+  return candidates.find((player) => player && matchesPage(player.videoDetails?.videoId));
+}
+
+/**
+ * The current page's `ytInitialData`, from the bridge or the inline script, unless it belongs to
+ * another video.
+ */
+export function getInitialData(): YtInitialData | undefined {
+  const candidates = [bridged.initialData, readInlineScript("ytInitialData") as YtInitialData | undefined];
+  return candidates.find((data) => data && matchesPage(data.currentVideoEndpoint?.watchEndpoint?.videoId));
+}
@@ -0,0 +1,31 @@
+import type { Metadata, SiteId } from "../shared/types";
+import type { SiteDefinition } from "../shared/sites";
+import { SITE_DEFINITIONS, SITE_IDS } from "../shared/sites";
+import { extractVideoMetadata } from "./metadataExtractor";
+import { extractVimeoMetadata } from "./vimeoExtractor";
+import { extractTwitchMetadata } from "./twitchExtractor";
+
+/**
+ * A site definition plus the page scraper the content script runs on that site.
+ */
+export interface SiteAdapter extends SiteDefinition {
+  extractMetadata: () => Metadata;
+}
+
+const EXTRACTORS: Record<SiteId, () => Metadata> = {
+  youtube: extractVideoMetadata,
+  vimeo: extractVimeoMetadata,
+  twitch: extractTwitchMetadata
+};
+
+export const SITE_ADAPTERS: readonly SiteAdapter[] = SITE_IDS.map((id) => ({
+  ...SITE_DEFINITIONS[id],
+  extractMetadata: EXTRACTORS[id]
+}));
+
+/**
+ * Adapter for the site serving `url`; null when no adapter recognizes it.
+ */
+export function getSiteAdapter(url: string): SiteAdapter | null {
+  return SITE_ADAPTERS.find((adapter) => adapter.parseUrl(url) !== null) ?? null;
+}
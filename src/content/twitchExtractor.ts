@@ -0,0 +1,36 @@
+import type { Metadata } from "../shared/types";
+import { normalizeVideoMetadata, parseHashtags } from "../shared/metadataSchema";
+import { parseTwitchUrl, stripTwitchTitle } from "../shared/twitchUrl";
+import { SELECTORS } from "./constants";
+
+const readText = (selector: string) => document.querySelector<HTMLElement>(selector)?.innerText?.trim() || "";
+const readMeta = (selector: string) => document.querySelector<HTMLMetaElement>(selector)?.content?.trim() || "";
+
+/**
+ * Stream or VOD metadata from Twitch's channel header. The channel login from the URL stands in for
+ * the display name until the header renders; the stream's game or category becomes `siteCategory`
+ * and its tags become keywords. Only a channel page with a viewer count is live.
+ */
+export function extractTwitchMetadata(): Metadata {
+  const page = parseTwitchUrl(window.location.href);
+  const title = readText(SELECTORS.twitchTitle) || readMeta(SELECTORS.ogDescription);
+  const description = readMeta(SELECTORS.descriptionMeta);
+  const keywords = Array.from(document.querySelectorAll<HTMLAnchorElement>(SELECTORS.twitchTagLinks))
+    .map((link) => link.innerText.trim())
+    .filter(Boolean);
+
+  return normalizeVideoMetadata(
+    {
+      site: "twitch",
+      title,
+      channel: readText(SELECTORS.twitchChannel) || page?.channel || "",
+      description,
+      keywords,
+      hashtags: parseHashtags(title, description),
+      siteCategory: readText(SELECTORS.twitchCategoryLink),
+      videoId: page?.videoId ?? "",
+      isLive: page?.kind === "live" && document.querySelector(SELECTORS.twitchLiveIndicator) !== null
+    },
+    { fallbackTitle: stripTwitchTitle(document.title) }
+  );
+}
@@ -0,0 +1,80 @@
+import type { Metadata } from "../shared/types";
+import {
+  mergeMetadata,
+  normalizeDurationSeconds,
+  normalizeLanguage,
+  normalizeUploadDate,
+  normalizeVideoMetadata,
+  parseHashtags
+} from "../shared/metadataSchema";
+import { parseVimeoUrl, stripVimeoTitle } from "../shared/vimeoUrl";
+import { SELECTORS } from "./constants";
+
+interface JsonLdVideoObject {
+  "@type"?: string;
+  name?: string;
+  description?: string;
+  uploadDate?: string;
+  duration?: string;
+  inLanguage?: string;
+  genre?: string | string[];
+  keywords?: string | string[];
+  author?: { name?: string };
+}
+
+const readMeta = (selector: string) => document.querySelector<HTMLMetaElement>(selector)?.content?.trim() || "";
+
+const toList = (value: string | string[] | undefined): string[] =>
+  (Array.isArray(value) ? value : (value || "").split(",")).map((item) => String(item).trim()).filter(Boolean);
+
+/**
+ * Vimeo publishes the clip as a VideoObject, sometimes inside an array next to its breadcrumbs.
+ */
+function readJsonLdVideo(): Partial<Metadata> {
+  for (const script of Array.from(document.querySelectorAll<HTMLScriptElement>(SELECTORS.jsonLdScript))) {
+    try {
+      const parsed = JSON.parse(script.textContent || "null") as JsonLdVideoObject | JsonLdVideoObject[] | null;
+      const video = (Array.isArray(parsed) ? parsed : [parsed]).find((item) => item?.["@type"] === "VideoObject");
+      if (!video) continue;
+
+      return {
+        title: video.name,
+        channel: video.author?.name,
+        description: video.description,
+        keywords: toList(video.keywords),
+        uploadDate: normalizeUploadDate(video.uploadDate),
+        durationSeconds: normalizeDurationSeconds(video.duration),
+        language: normalizeLanguage(video.inLanguage),
+        siteCategory: toList(video.genre)[0] || ""
+      };
+    } catch (error) {
+      console.warn("Failed to parse Vimeo JSON-LD:", error);
+    }
+  }
+  return {};
+}
+
+function readOpenGraph(): Partial<Metadata> {
+  return {
+    title: readMeta(SELECTORS.ogTitle),
+    description: readMeta(SELECTORS.ogDescription) || readMeta(SELECTORS.descriptionMeta),
+    siteCategory: document.querySelector<HTMLAnchorElement>(SELECTORS.vimeoCategoryLink)?.innerText?.trim() || ""
+  };
+}
+
+/**
+ * Clip metadata from Vimeo's JSON-LD, falling back to Open Graph tags. The clip's staff category
+ * (when it has one) becomes `siteCategory`.
+ */
+export function extractVimeoMetadata(): Metadata {
+  const merged = mergeMetadata(readJsonLdVideo(), readOpenGraph());
+  return normalizeVideoMetadata(
+    {
+      ...merged,
+      site: "vimeo",
+      videoId: parseVimeoUrl(window.location.href)?.videoId ?? "",
+      hashtags: parseHashtags(merged.title, merged.description)
+    },
+    { fallbackTitle: stripVimeoTitle(document.title) }
+  );
+}
@@ -0,0 +1,48 @@
+/** Separator between a parent category and its children, e.g. "Tech/Programming". */
+export const CATEGORY_PATH_SEPARATOR = "/";
+
+/**
+ * Trim each path segment and drop empty ones so "Tech / Programming/" becomes "Tech/Programming".
+ */
+export function normalizeCategoryPath(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value
+    .split(CATEGORY_PATH_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join(CATEGORY_PATH_SEPARATOR);
+}
+
+export function getCategorySegments(category: string): string[] {
+  return normalizeCategoryPath(category).split(CATEGORY_PATH_SEPARATOR).filter(Boolean);
+}
+
+/**
+ * The category and all of its ancestors, outermost first: "A/B/C" -> ["A", "A/B", "A/B/C"].
+ */
+export function getCategoryLineage(category: string): string[] {
+  const segments = getCategorySegments(category);
+  return segments.map((_, index) => segments.slice(0, index + 1).join(CATEGORY_PATH_SEPARATOR));
+}
+
+/** Direct parent, or "" for a top-level category. */
+export function getParentCategory(category: string): string {
+  return getCategorySegments(category).slice(0, -1).join(CATEGORY_PATH_SEPARATOR);
+}
+
+/** Top-level ancestor ("Tech" for "Tech/Programming"); a top-level category is its own root. */
+export function getRootCategory(category: string): string {
+  return getCategorySegments(category)[0] ?? "";
+}
+
+/** Last path segment, used to match hashtags like #programming against "Tech/Programming". */
+export function getCategoryLeafName(category: string): string {
+  return getCategorySegments(category).at(-1) ?? "";
+}
+
+/** True when `category` is `ancestor` itself or nested anywhere below it. */
+export function isCategoryWithin(category: string, ancestor: string): boolean {
+  const path = normalizeCategoryPath(category);
+  const root = normalizeCategoryPath(ancestor);
+  return Boolean(root) && (path === root || path.startsWith(`${root}${CATEGORY_PATH_SEPARATOR}`));
+}
@@ -0,0 +1,103 @@
+import { normalizeChannelHandle, normalizeChannelId } from "./metadataSchema";
+import type { ChannelCategoryMap, ChannelKeyType, ChannelMapping, Metadata } from "./types";
+
+export const CHANNEL_KEY_TYPES: readonly ChannelKeyType[] = ["id", "handle", "name"];
+
+/**
+ * Canonical form of a mapping value for its type; empty when the value is not valid for the type.
+ */
+export function normalizeChannelKeyValue(type: ChannelKeyType, value: unknown): string {
+  switch (type) {
+    case "id":
+      return normalizeChannelId(value);
+    case "handle":
+      return normalizeChannelHandle(value);
+    default:
+      return typeof value === "string" ? value.trim() : "";
+  }
+}
+
+/**
+ * Type of a bare legacy key: "UC…" ids, "@" handles, anything else is a display name.
+ */
+export function detectChannelKeyType(value: string): ChannelKeyType {
+  if (normalizeChannelId(value)) return "id";
+  if (value.trim().startsWith("@") && normalizeChannelHandle(value)) return "handle";
+  return "name";
+}
+
+/**
+ * Map key for an entry. Names are compared case-insensitively.
+ */
+export const toChannelMapKey = (type: ChannelKeyType, value: string) =>
+  `${type}:${type === "name" ? value.toLocaleLowerCase() : value}`;
+
+/**
+ * Build a normalized entry; returns null when the value is invalid for its type.
+ */
+export function createChannelMapping(
+  type: ChannelKeyType,
+  value: unknown,
+  category: string,
+  label = ""
+): ChannelMapping | null {
+  const normalized = normalizeChannelKeyValue(type, value);
+  if (!normalized) return null;
+  const entry: ChannelMapping = { type, value: normalized, category: category.trim() || "Other" };
+  if (type !== "name" && label.trim()) entry.label = label.trim();
+  return entry;
+}
+
+/**
+ * Most specific mapping for a video: channel id, then handle, then display name.
+ */
+export function findChannelMapping(
+  channelMap: ChannelCategoryMap = {},
+  metadata: Pick<Metadata, "channel" | "channelId" | "channelHandle">
+): { key: string; entry: ChannelMapping } | null {
+  const candidates: [ChannelKeyType, string][] = [
+    ["id", metadata.channelId],
+    ["handle", metadata.channelHandle],
+    ["name", metadata.channel]
+  ];
+
+  for (const [type, value] of candidates) {
+    if (!value) continue;
+    const key = toChannelMapKey(type, value);
+    const entry = channelMap[key];
+    if (entry?.category) return { key, entry };
+  }
+  return null;
+}
+
+/**
+ * Most specific key available for a video, used when reporting which key was tried.
+ */
+export function getPreferredChannelKey(metadata: Pick<Metadata, "channel" | "channelId" | "channelHandle">) {
+  if (metadata.channelId) return toChannelMapKey("id", metadata.channelId);
+  if (metadata.channelHandle) return toChannelMapKey("handle", metadata.channelHandle);
+  return metadata.channel ? toChannelMapKey("name", metadata.channel) : "";
+}
+
+/**
+ * When a name-keyed entry matches a video whose owner channel id is now known, add an id entry
+ * (with the name as label) so renames stop mattering. The name entry is kept, so a wrong id can
+ * never lose the user's mapping. Music tracks are skipped: their channel is the artist byline, not
+ * the video owner. Returns the updated map, or null when nothing changed.
+ */
+export function upgradeChannelNameMappings(
+  channelMap: ChannelCategoryMap = {},
+  metadata: Pick<Metadata, "channel" | "channelId" | "artist">
+): ChannelCategoryMap | null {
+  if (!metadata.channelId || !metadata.channel || metadata.artist) return null;
+
+  const nameKey = toChannelMapKey("name", metadata.channel);
+  const idKey = toChannelMapKey("id", metadata.channelId);
+  const nameEntry = channelMap[nameKey];
+  if (!nameEntry || channelMap[idKey]) return null;
+
+  return {
+    ...channelMap,
+    [idKey]: { type: "id", value: metadata.channelId, category: nameEntry.category, label: metadata.channel }
+  };
+}
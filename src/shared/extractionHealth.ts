@@ -0,0 +1,154 @@
+import { isSiteId } from "./sites";
+import type { ExtractionField, ExtractionHealth, ExtractionReport, FieldExtractionHealth, SiteId } from "./types";
+
+export const EXTRACTION_FIELDS: readonly ExtractionField[] = [
+  "title",
+  "channel",
+  "channelId",
+  "channelHandle",
+  "description",
+  "keywords",
+  "uploadDate",
+  "durationSeconds",
+  "language",
+  "youtubeCategory"
+];
+
+/** Fields below this success rate are flagged in the diagnostics view. */
+export const EXTRACTION_HEALTH_WARN_RATE = 0.8;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const toCount = (value: unknown) => (Number.isFinite(Number(value)) && Number(value) > 0 ? Math.floor(Number(value)) : 0);
+
+export const isExtractionField = (value: unknown): value is ExtractionField =>
+  typeof value === "string" && (EXTRACTION_FIELDS as readonly string[]).includes(value);
+
+export const getExtractionHealthKey = (site: SiteId, field: ExtractionField) => `${site}:${field}`;
+
+/**
+ * Keep only tracked fields whose value is a strategy id string, or null for "not applicable".
+ */
+export function normalizeExtractionReport(value: unknown): ExtractionReport {
+  if (!isObject(value)) return {};
+  const report: ExtractionReport = {};
+  for (const [field, strategy] of Object.entries(value)) {
+    if (!isExtractionField(field)) continue;
+    if (typeof strategy === "string") report[field] = strategy.trim();
+    else if (strategy === null) report[field] = null;
+  }
+  return report;
+}
+
+function normalizeFieldHealth(value: unknown): FieldExtractionHealth | null {
+  if (!isObject(value)) return null;
+  const strategies: Record<string, number> = {};
+  if (isObject(value.strategies)) {
+    for (const [id, count] of Object.entries(value.strategies)) {
+      if (id.trim() && toCount(count) > 0) strategies[id] = toCount(count);
+    }
+  }
+  const attempts = toCount(value.attempts);
+  return {
+    attempts,
+    successes: Math.min(toCount(value.successes), attempts),
+    strategies,
+    notApplicable: toCount(value.notApplicable),
+    lastFailureAt: typeof value.lastFailureAt === "number" && value.lastFailureAt > 0 ? value.lastFailureAt : null
+  };
+}
+
+/**
+ * Drop entries whose key is not "<site>:<field>" and clamp counts to non-negative integers.
+ */
+export function withExtractionHealthDefaults(value: unknown = {}): ExtractionHealth {
+  if (!isObject(value)) return {};
+  const health: ExtractionHealth = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const [site, field] = key.split(":");
+    const normalized = normalizeFieldHealth(entry);
+    if (isSiteId(site) && isExtractionField(field) && normalized) {
+      health[key] = normalized;
+    }
+  }
+  return health;
+}
+
+/**
+ * Add one page's extraction report to `health`: every reported field counts as an attempt, and as
+ * a success for its strategy unless no strategy supplied it. Fields reported as not applicable
+ * (null) are only counted as such and leave the success rate alone.
+ */
+export function recordExtractionReport(
+  health: ExtractionHealth,
+  site: SiteId,
+  report: ExtractionReport,
+  now = Date.now()
+): ExtractionHealth {
+  const next = withExtractionHealthDefaults(health);
+  for (const [field, strategy] of Object.entries(normalizeExtractionReport(report))) {
+    const key = getExtractionHealthKey(site, field as ExtractionField);
+    const entry = next[key] ?? { attempts: 0, successes: 0, strategies: {}, notApplicable: 0, lastFailureAt: null };
+    if (strategy === null) {
+      entry.notApplicable += 1;
+      next[key] = entry;
+      continue;
+    }
+    entry.attempts += 1;
+    if (strategy) {
+      entry.successes += 1;
+      entry.strategies[strategy] = (entry.strategies[strategy] ?? 0) + 1;
+    } else {
+      entry.lastFailureAt = now;
+    }
+    next[key] = entry;
+  }
+  return next;
+}
+
+/**
+ * Share of attempts some strategy succeeded on, in [0, 1]; null before the first attempt. Pages
+ * where the field did not apply are not attempts.
+ */
+export function getExtractionSuccessRate(entry: FieldExtractionHealth): number | null {
+  return entry.attempts > 0 ? entry.successes / entry.attempts : null;
+}
+
+export async function getExtractionHealth(): Promise<ExtractionHealth> {
+  return new Promise((resolve) => {
+    try {
+      chrome.storage.local.get({ extractionHealth: {} }, (result) => {
+        if (chrome.runtime.lastError) {
+          console.warn("extractionHealth:getExtractionHealth falling back to empty:", chrome.runtime.lastError.message);
+          resolve({});
+          return;
+        }
+        resolve(withExtractionHealthDefaults((result as { extractionHealth?: unknown }).extractionHealth));
+      });
+    } catch (error) {
+      console.warn("extractionHealth:getExtractionHealth caught error, using empty:", (error as Error)?.message || error);
+      resolve({});
+    }
+  });
+}
+
+export async function saveExtractionHealth(health: ExtractionHealth): Promise<ExtractionHealth> {
+  const normalized = withExtractionHealthDefaults(health);
+  return new Promise((resolve) => {
+    try {
+      chrome.storage.local.set({ extractionHealth: normalized }, () => {
+        if (chrome.runtime.lastError) {
+          console.warn("extractionHealth:saveExtractionHealth failed to persist:", chrome.runtime.lastError.message);
+        }
+        resolve(normalized);
+      });
+    } catch (error) {
+      console.warn("extractionHealth:saveExtractionHealth caught error:", (error as Error)?.message || error);
+      resolve(normalized);
+    }
+  });
+}
+
+export async function resetExtractionHealth(): Promise<ExtractionHealth> {
+  return saveExtractionHealth({});
+}
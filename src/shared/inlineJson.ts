@@ -0,0 +1,47 @@
+/**
+ * End index (exclusive) of the JSON object starting at `start`, skipping braces inside strings;
+ * -1 when the object is not closed.
+ */
+function findObjectEnd(source: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let index = start; index < source.length; index += 1) {
+    const char = source[index];
+    if (inString) {
+      if (char === "\\") index += 1;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) return index + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The object literal a script assigns to `name`, as in YouTube's inline
+ * `var ytInitialPlayerResponse = {…};` or `window["ytInitialData"] = {…};`. Mentions of `name` that
+ * are not followed by `= {` (e.g. `if (window.ytInitialData)`) are skipped. Returns null when no
+ * assignment holds valid JSON.
+ */
+export function readAssignedJson(source: string, name: string): Record<string, unknown> | null {
+  const assignment = new RegExp(`\\b${name}\\b["'\\]]*\\s*=\\s*\\{`, "g");
+  for (const match of source.matchAll(assignment)) {
+    const start = (match.index ?? 0) + match[0].length - 1;
+    const end = findObjectEnd(source, start);
+    if (end === -1) continue;
+    try {
+      const value: unknown = JSON.parse(source.slice(start, end));
+      if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+        return value as Record<string, unknown>;
+      }
+    } catch {
+      // Not JSON (e.g. a JavaScript object literal); try the next assignment.
+    }
+  }
+  return null;
+}
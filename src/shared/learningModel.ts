@@ -0,0 +1,210 @@
+import type { LearnedCategoryStats, LearnedModel, LearnedPrediction, Metadata } from "./types";
+
+export const LEARNED_MODEL_VERSION = 1;
+
+/** Predictions need this many recorded choices across at least two categories. */
+export const MIN_TRAINING_EXAMPLES = 5;
+export const MIN_LEARNED_PROBABILITY = 0.7;
+
+const MAX_TOKENS_PER_DOCUMENT = 64;
+const MAX_TOKENS_PER_CATEGORY = 2000;
+
+export const createEmptyLearnedModel = (): LearnedModel => ({
+  version: LEARNED_MODEL_VERSION,
+  examples: 0,
+  categories: {},
+  updatedAt: 0
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toCount = (value: unknown) => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && numeric > 0 ? Math.floor(numeric) : 0;
+};
+
+const segmenter =
+  typeof Intl !== "undefined" && typeof Intl.Segmenter === "function"
+    ? new Intl.Segmenter(undefined, { granularity: "word" })
+    : null;
+
+function splitWords(text: string): string[] {
+  if (!text) return [];
+  if (segmenter) {
+    return Array.from(segmenter.segment(text))
+      .filter((segment) => segment.isWordLike)
+      .map((segment) => segment.segment);
+  }
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Distinct model features for a video: title words, the channel, and each tag.
+ * Channel and tag features are prefixed so they never collide with title words.
+ */
+export function tokenizeForLearning(metadata: Partial<Metadata>): string[] {
+  const tokens = new Set<string>();
+
+  for (const word of splitWords(metadata.title || "")) {
+    const token = word.toLocaleLowerCase();
+    if (token.length > 1 || /[^\p{Script=Latin}\p{N}]/u.test(token)) tokens.add(token);
+  }
+  const channel = (metadata.channel || "").trim().toLocaleLowerCase();
+  if (channel) tokens.add(`channel:${channel}`);
+  for (const keyword of metadata.keywords || []) {
+    const tag = keyword.trim().toLocaleLowerCase();
+    if (tag) tokens.add(`tag:${tag}`);
+  }
+
+  return Array.from(tokens).slice(0, MAX_TOKENS_PER_DOCUMENT);
+}
+
+const normalizeCategoryStats = (value: unknown): LearnedCategoryStats | null => {
+  if (!isObject(value)) return null;
+
+  const tokens: Record<string, number> = {};
+  let tokenTotal = 0;
+  if (isObject(value.tokens)) {
+    for (const [token, count] of Object.entries(value.tokens)) {
+      const normalized = toCount(count);
+      if (token && normalized > 0) {
+        tokens[token] = normalized;
+        tokenTotal += normalized;
+      }
+    }
+  }
+
+  const examples = toCount(value.examples);
+  return examples > 0 ? { examples, tokenTotal, tokens } : null;
+};
+
+/**
+ * Validate a stored or imported model; anything unusable becomes an empty model.
+ */
+export function withLearnedModelDefaults(value: unknown): LearnedModel {
+  if (!isObject(value) || !isObject(value.categories)) return createEmptyLearnedModel();
+
+  const categories: Record<string, LearnedCategoryStats> = {};
+  let examples = 0;
+  for (const [category, stats] of Object.entries(value.categories)) {
+    const normalized = normalizeCategoryStats(stats);
+    if (category.trim() && normalized) {
+      categories[category.trim()] = normalized;
+      examples += normalized.examples;
+    }
+  }
+
+  return {
+    version: LEARNED_MODEL_VERSION,
+    examples,
+    categories,
+    updatedAt: toCount(value.updatedAt)
+  };
+}
+
+/**
+ * Drop single-occurrence tokens once a category's vocabulary grows past the cap.
+ */
+function pruneCategory(stats: LearnedCategoryStats) {
+  if (Object.keys(stats.tokens).length <= MAX_TOKENS_PER_CATEGORY) return;
+  for (const [token, count] of Object.entries(stats.tokens)) {
+    if (count <= 1) {
+      delete stats.tokens[token];
+      stats.tokenTotal -= count;
+    }
+  }
+}
+
+/**
+ * Record one explicit category choice. Returns a new model; the input is not modified.
+ */
+export function trainLearnedModel(model: LearnedModel, tokens: string[], category: string): LearnedModel {
+  const target = category.trim();
+  if (!target || tokens.length === 0) return model;
+
+  const next = withLearnedModelDefaults(model);
+  const stats = next.categories[target] ?? { examples: 0, tokenTotal: 0, tokens: {} };
+  stats.examples += 1;
+  for (const token of tokens) {
+    stats.tokens[token] = (stats.tokens[token] || 0) + 1;
+    stats.tokenTotal += 1;
+  }
+  pruneCategory(stats);
+
+  next.categories[target] = stats;
+  next.examples += 1;
+  next.updatedAt = Date.now();
+  return next;
+}
+
+/**
+ * Multinomial naive Bayes with Laplace smoothing. Tokens the model has never seen are ignored;
+ * returns null until the model is trained enough or when the best posterior is below the threshold.
+ */
+export function predictFromLearnedModel(
+  model: LearnedModel | null | undefined,
+  tokens: string[],
+  minProbability = MIN_LEARNED_PROBABILITY
+): LearnedPrediction | null {
+  const categories = Object.entries(model?.categories || {});
+  if (!model || model.examples < MIN_TRAINING_EXAMPLES || categories.length < 2) return null;
+
+  const vocabulary = new Set(categories.flatMap(([, stats]) => Object.keys(stats.tokens)));
+  const known = tokens.filter((token) => vocabulary.has(token));
+  if (known.length === 0) return null;
+
+  const logScores = categories.map(([category, stats]) => {
+    let score = Math.log((stats.examples + 1) / (model.examples + categories.length));
+    for (const token of known) {
+      score += Math.log(((stats.tokens[token] || 0) + 1) / (stats.tokenTotal + vocabulary.size));
+    }
+    return { category, score };
+  });
+
+  const maxScore = Math.max(...logScores.map((entry) => entry.score));
+  const total = logScores.reduce((sum, entry) => sum + Math.exp(entry.score - maxScore), 0);
+  const best = logScores.reduce((a, b) => (b.score > a.score ? b : a));
+  const probability = Math.round((1 / total) * 100) / 100;
+
+  return probability >= minProbability ? { category: best.category, probability } : null;
+}
+
+export function getLearnedModel(): Promise<LearnedModel> {
+  return new Promise((resolve) => {
+    try {
+      chrome.storage.local.get({ learnedModel: null }, (result) => {
+        if (chrome.runtime.lastError) {
+          console.warn("learning:getLearnedModel falling back to empty model:", chrome.runtime.lastError.message);
+          resolve(createEmptyLearnedModel());
+          return;
+        }
+        resolve(withLearnedModelDefaults((result as { learnedModel?: unknown }).learnedModel));
+      });
+    } catch (error) {
+      console.warn("learning:getLearnedModel caught error, using empty model:", (error as Error)?.message || error);
+      resolve(createEmptyLearnedModel());
+    }
+  });
+}
+
+export function saveLearnedModel(model: LearnedModel): Promise<LearnedModel> {
+  const normalized = withLearnedModelDefaults(model);
+  return new Promise((resolve, reject) => {
+    try {
+      chrome.storage.local.set({ learnedModel: normalized }, () => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+        } else {
+          resolve(normalized);
+        }
+      });
+    } catch (error) {
+      reject(error instanceof Error ? error : new Error("Failed to save learned model"));
+    }
+  });
+}
+
+export function resetLearnedModel(): Promise<LearnedModel> {
+  return saveLearnedModel(createEmptyLearnedModel());
+}
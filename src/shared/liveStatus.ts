@@ -0,0 +1,25 @@
+import type { Metadata } from "./types";
+
+/**
+ * What a YouTube page says about its live status. `player` is null when no player response is
+ * available; the DOM flags come from the watch page (live badge, `ytd-watch-flexy[is-live]`, the
+ * upcoming/premiere slate) and `liveUrl` from a `/live/<id>` address.
+ */
+export interface LiveSignals {
+  player: Pick<Metadata, "isLive" | "isUpcoming" | "isLiveContent"> | null;
+  liveBadge: boolean;
+  upcomingBadge: boolean;
+  liveUrl: boolean;
+}
+
+/**
+ * Combine the player's flags with the page's DOM signals; either source marking the video live or
+ * upcoming is enough, and upcoming wins over live. A `/live/` URL also serves finished broadcasts,
+ * so it only counts when there is no player response to say otherwise.
+ */
+export function deriveLiveFlags(signals: LiveSignals): Pick<Metadata, "isLive" | "isUpcoming" | "isLiveContent"> {
+  const { player } = signals;
+  const isUpcoming = player?.isUpcoming === true || signals.upcomingBadge;
+  const isLive = !isUpcoming && (player?.isLive === true || signals.liveBadge || (!player && signals.liveUrl));
+  return { isLive, isUpcoming, isLiveContent: player?.isLiveContent === true || isLive || isUpcoming };
+}
@@ -1,5 +1,5 @@
 import { isVideoMetadata, normalizeVideoMetadata } from "./metadataSchema";
-import type { Metadata, GroupTabRequest, GroupTabResponse } from "./types";
+import type { CategoryTrace, Metadata, GroupTabRequest, GroupTabResponse, ReviewItem } from "./types";
 
 const isObject = (value: unknown): value is Record<string, unknown> =>
   typeof value === "object" && value !== null && !Array.isArray(value);
@@ -11,7 +11,11 @@ export const MESSAGE_ACTIONS = {
   BATCH_GROUP: "batchGroup",
   GET_SETTINGS: "getSettings",
   IS_TAB_GROUPED: "isTabGrouped",
-  GET_VIDEO_METADATA: "getVideoMetadata"
+  GET_VIDEO_METADATA: "getVideoMetadata",
+  EXPLAIN_CATEGORY: "explainCategory",
+  GET_REVIEW_QUEUE: "getReviewQueue",
+  ASSIGN_CATEGORY: "assignCategory",
+  REPORT_EXTRACTION: "reportExtraction"
 } as const;
 
 export type MessageAction = (typeof MESSAGE_ACTIONS)[keyof typeof MESSAGE_ACTIONS];
@@ -27,7 +31,7 @@ export type MessageCatalog = Record<
 
 export const MESSAGE_CATALOG: MessageCatalog = {
   [MESSAGE_ACTIONS.GROUP_TAB]: {
-    description: "Request the background worker to group the active YouTube tab.",
+    description: "Request the background worker to group the sender's tab (the active tab when sent from the popup).",
     request: {
       category: "Optional string override for the category.",
       metadata: "Optional video metadata payload to aid prediction."
@@ -35,13 +39,16 @@ export const MESSAGE_CATALOG: MessageCatalog = {
     response: {
       success: "Boolean success flag.",
       category: "Resolved category name.",
+      group: "Title of the tab group joined (the grouping strategy's group key).",
       color: "Assigned tab group color.",
-      error: "Error message when grouping fails."
+      error: "Error message when grouping fails or the tab's video type is set to be skipped."
     }
   },
   [MESSAGE_ACTIONS.BATCH_GROUP]: {
     description: "Group all YouTube tabs in the current window.",
-    request: {},
+    request: {
+      strategy: "Optional grouping strategy id for this run; defaults to the groupingStrategy setting."
+    },
     response: {
       success: "Boolean success flag.",
       count: "Number of tabs successfully grouped.",
@@ -58,7 +65,7 @@ export const MESSAGE_CATALOG: MessageCatalog = {
     }
   },
   [MESSAGE_ACTIONS.IS_TAB_GROUPED]: {
-    description: "Check if the active tab is already part of a group.",
+    description: "Check if the sender's tab (the active tab when sent from the popup) is already part of a group.",
     request: {},
     response: {
       grouped: "Boolean grouped flag.",
@@ -66,19 +73,84 @@ export const MESSAGE_CATALOG: MessageCatalog = {
     }
   },
   [MESSAGE_ACTIONS.GET_VIDEO_METADATA]: {
-    description: "Ask the content script to return parsed YouTube metadata.",
-    request: {},
+    description: "Ask the content script to return parsed metadata for the page's video or stream.",
+    request: {
+      deadline: "Optional epoch ms by which to answer; the content script waits for complete metadata until then."
+    },
     response: {
       title: "Video title.",
       channel: "Channel name.",
+      channelId: "Channel id (\"UC…\"), empty when unknown.",
+      channelHandle: "Lowercase @handle, empty when unknown.",
       description: "Video description text.",
       keywords: "Array of keyword strings.",
-      youtubeCategory: "Optional YouTube category identifier."
+      hashtags: "Array of hashtags (lowercase, without '#').",
+      youtubeCategory: "Optional YouTube category identifier.",
+      uploadDate: "Upload date (\"YYYY-MM-DD\"), empty when unknown.",
+      durationSeconds: "Video length in seconds, null when unknown.",
+      language: "Spoken language tag (lowercase BCP 47), empty when unknown.",
+      playlistId: "Id of the playlist being played (`list=`), empty when not in a playlist.",
+      playlistTitle: "Playlist title, empty when unknown.",
+      playlistIndex: "1-based position in the playlist, null when unknown.",
+      isShort: "True when the page is a Short.",
+      isLive: "True for a live stream that is on air.",
+      isUpcoming: "True for a premiere or scheduled stream that has not started.",
+      artist: "YouTube Music track artist, empty elsewhere.",
+      album: "YouTube Music album, empty when the track has none.",
+      site: "Site the page belongs to (`youtube`, `vimeo`, `twitch`).",
+      siteCategory: "The site's own category label (Twitch game, Vimeo genre), empty when unknown.",
+      videoId: "Site-specific video id, empty when unknown.",
+      isLiveContent: "True for a live broadcast: on air, upcoming, or past.",
+      version: "Metadata schema version (2); v1 payloads without it are still accepted."
+    }
+  },
+  [MESSAGE_ACTIONS.EXPLAIN_CATEGORY]: {
+    description: "Resolve the active tab's category without grouping and return the decision trace.",
+    request: {},
+    response: {
+      success: "Boolean success flag.",
+      category: "Category the tab would be grouped under.",
+      trace: "Decision trace: deciding step, rule, channel key, keyword scores, YouTube and site category mapping.",
+      metadata: "Metadata the decision was based on.",
+      error: "Error message when the explanation fails."
+    }
+  },
+  [MESSAGE_ACTIONS.GET_REVIEW_QUEUE]: {
+    description: "List open tabs that were grouped under the review category for low keyword confidence.",
+    request: {},
+    response: {
+      success: "Boolean success flag.",
+      items: "Review items: tab id, title, url, candidate categories, confidence.",
+      error: "Error message when the queue cannot be read."
+    }
+  },
+  [MESSAGE_ACTIONS.ASSIGN_CATEGORY]: {
+    description: "Group a specific tab under a chosen category and remove it from the review queue.",
+    request: {
+      tabId: "Id of the tab to regroup.",
+      category: "Final category for the tab."
+    },
+    response: {
+      success: "Boolean success flag.",
+      category: "Assigned category name.",
+      color: "Assigned tab group color.",
+      error: "Error message when grouping fails."
+    }
+  },
+  [MESSAGE_ACTIONS.REPORT_EXTRACTION]: {
+    description: "Record which extraction strategy supplied each metadata field on a page, for the diagnostics view.",
+    request: {
+      site: "Site the page belongs to (`youtube`, `vimeo`, `twitch`).",
+      fields: "Strategy id per field (\"selector:<css>\", \"jsonLd\", \"playerResponse\", ...); empty when no strategy found it, null when the page has no such field."
+    },
+    response: {
+      success: "Boolean success flag.",
+      error: "Error message when the report is rejected."
     }
   }
 };
 
-type FieldType = "string" | "boolean" | "number" | "object" | "string[]" | "metadata";
+type FieldType = "string" | "boolean" | "number" | "object" | "string[]" | "object[]" | "metadata";
 
 interface FieldRule {
   type: FieldType;
@@ -93,16 +165,31 @@ const REQUEST_SCHEMAS: Record<MessageAction, ValidationSchema> = {
     category: { type: "string", required: false, allowEmpty: true },
     metadata: { type: "metadata", required: false }
   },
-  [MESSAGE_ACTIONS.BATCH_GROUP]: {},
+  [MESSAGE_ACTIONS.BATCH_GROUP]: {
+    strategy: { type: "string", required: false, allowEmpty: false }
+  },
   [MESSAGE_ACTIONS.GET_SETTINGS]: {},
   [MESSAGE_ACTIONS.IS_TAB_GROUPED]: {},
-  [MESSAGE_ACTIONS.GET_VIDEO_METADATA]: {}
+  [MESSAGE_ACTIONS.GET_VIDEO_METADATA]: {
+    deadline: { type: "number", required: false }
+  },
+  [MESSAGE_ACTIONS.EXPLAIN_CATEGORY]: {},
+  [MESSAGE_ACTIONS.GET_REVIEW_QUEUE]: {},
+  [MESSAGE_ACTIONS.ASSIGN_CATEGORY]: {
+    tabId: { type: "number", required: true },
+    category: { type: "string", required: true, allowEmpty: false }
+  },
+  [MESSAGE_ACTIONS.REPORT_EXTRACTION]: {
+    site: { type: "string", required: true, allowEmpty: false },
+    fields: { type: "object", required: true }
+  }
 };
 
 const RESPONSE_SCHEMAS: Record<MessageAction, ValidationSchema> = {
   [MESSAGE_ACTIONS.GROUP_TAB]: {
     success: { type: "boolean", required: true },
     category: { type: "string", required: false, allowEmpty: false },
+    group: { type: "string", required: false, allowEmpty: true },
     color: { type: "string", required: false, allowEmpty: false },
     error: { type: "string", required: false, allowEmpty: true }
   },
@@ -120,7 +207,29 @@ const RESPONSE_SCHEMAS: Record<MessageAction, ValidationSchema> = {
     grouped: { type: "boolean", required: true },
     error: { type: "string", required: false, allowEmpty: true }
   },
-  [MESSAGE_ACTIONS.GET_VIDEO_METADATA]: {}
+  [MESSAGE_ACTIONS.GET_VIDEO_METADATA]: {},
+  [MESSAGE_ACTIONS.EXPLAIN_CATEGORY]: {
+    success: { type: "boolean", required: true },
+    category: { type: "string", required: false, allowEmpty: false },
+    trace: { type: "object", required: false },
+    metadata: { type: "metadata", required: false },
+    error: { type: "string", required: false, allowEmpty: true }
+  },
+  [MESSAGE_ACTIONS.GET_REVIEW_QUEUE]: {
+    success: { type: "boolean", required: true },
+    items: { type: "object[]", required: false },
+    error: { type: "string", required: false, allowEmpty: true }
+  },
+  [MESSAGE_ACTIONS.ASSIGN_CATEGORY]: {
+    success: { type: "boolean", required: true },
+    category: { type: "string", required: false, allowEmpty: false },
+    color: { type: "string", required: false, allowEmpty: false },
+    error: { type: "string", required: false, allowEmpty: true }
+  },
+  [MESSAGE_ACTIONS.REPORT_EXTRACTION]: {
+    success: { type: "boolean", required: true },
+    error: { type: "string", required: false, allowEmpty: true }
+  }
 };
 
 interface ValidationResult {
@@ -174,6 +283,11 @@ function validateFields(payload: unknown, schema: ValidationSchema, pathPrefix =
           errors.push(`${label} must be an array of strings`);
         }
         break;
+      case "object[]":
+        if (!Array.isArray(value) || !value.every(isObject)) {
+          errors.push(`${label} must be an array of objects`);
+        }
+        break;
       case "metadata":
         if (!isVideoMetadata(value)) {
           errors.push(`${label} must be a valid metadata payload`);
@@ -237,6 +351,7 @@ export function buildGroupTabResponse(data: Partial<GroupTabResponse> = {}, extr
   const payload = {
     ...extras,
     category: toTrimmedString(data.category),
+    group: toTrimmedString(data.group) || toTrimmedString(data.category),
     color: toTrimmedString(data.color)
   };
   return buildSuccessResponse(payload) as GroupTabResponse;
@@ -261,6 +376,24 @@ export function buildIsGroupedResponse(grouped: boolean, error?: unknown) {
   return response;
 }
 
+export function buildExplainCategoryResponse(
+  category: string,
+  trace: CategoryTrace,
+  metadata: Partial<Metadata> = {},
+  extras: Record<string, unknown> = {}
+) {
+  return buildSuccessResponse({
+    ...extras,
+    category: toTrimmedString(category),
+    trace: isObject(trace) ? trace : {},
+    metadata: normalizeVideoMetadata(metadata as Metadata)
+  });
+}
+
+export function buildReviewQueueResponse(items: ReviewItem[] = [], extras: Record<string, unknown> = {}) {
+  return buildSuccessResponse({ ...extras, items: Array.isArray(items) ? items.filter(isObject) : [] });
+}
+
 export function buildMetadataResponse(metadata: Partial<Metadata> = {}, extras: Record<string, unknown> = {}) {
   const normalized = normalizeVideoMetadata(metadata as Metadata);
   return { ...extras, ...normalized } as Metadata & typeof extras;
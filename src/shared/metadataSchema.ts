@@ -1,18 +1,158 @@
 import type { Metadata } from "./types";
+import { isSiteId } from "./sites";
 
 const isObject = (value: unknown): value is Record<string, unknown> =>
   typeof value === "object" && value !== null && !Array.isArray(value);
 const isString = (value: unknown): value is string => typeof value === "string";
 const toTrimmedString = (value: unknown): string => (isString(value) ? value.trim() : "");
 
+/** Version of the `Metadata` shape produced by `normalizeVideoMetadata`. */
+export const METADATA_VERSION = 2;
+/** Versions accepted from senders; v1 payloads lack `videoId`, `isLiveContent` and `version`. */
+const SUPPORTED_METADATA_VERSIONS: readonly number[] = [1, METADATA_VERSION];
+
 export const EMPTY_METADATA: Metadata = Object.freeze({
   title: "",
   channel: "",
+  channelId: "",
+  channelHandle: "",
   description: "",
   keywords: [],
-  youtubeCategory: null
+  hashtags: [],
+  youtubeCategory: null,
+  uploadDate: "",
+  durationSeconds: null,
+  language: "",
+  playlistId: "",
+  playlistTitle: "",
+  playlistIndex: null,
+  isShort: false,
+  isLive: false,
+  isUpcoming: false,
+  artist: "",
+  album: "",
+  site: "youtube",
+  siteCategory: "",
+  videoId: "",
+  isLiveContent: false,
+  version: METADATA_VERSION
 });
 
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)/gu;
+
+/**
+ * Canonical hashtag form: lowercase, no leading "#".
+ */
+export const normalizeHashtag = (value: unknown): string =>
+  toTrimmedString(value).replace(/^#+/, "").toLowerCase();
+
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+/**
+ * Channel ids from a raw id or a "/channel/UC…" URL; anything else is rejected.
+ */
+export const normalizeChannelId = (value: unknown): string => {
+  const raw = toTrimmedString(value);
+  const id = /(?:^|\/)channel\/([^/?#]+)/.exec(raw)?.[1] ?? raw;
+  return CHANNEL_ID_PATTERN.test(id) ? id : "";
+};
+
+/**
+ * Canonical handle form: "@name", lowercase. Accepts bare handles and "/@name" URLs.
+ */
+export const normalizeChannelHandle = (value: unknown): string => {
+  const raw = toTrimmedString(value);
+  const fromUrl = /\/(@[^/?#]+)/.exec(raw)?.[1];
+  const handle = (fromUrl ?? raw).replace(/^@*/, "");
+  if (!handle || /[\s/?#]/.test(handle)) return "";
+  try {
+    return `@${decodeURIComponent(handle).toLowerCase()}`;
+  } catch {
+    return `@${handle.toLowerCase()}`;
+  }
+};
+
+/**
+ * "YYYY-MM-DD" from an ISO date or date-time string; anything else is rejected.
+ */
+export const normalizeUploadDate = (value: unknown): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(toTrimmedString(value));
+  if (!match) return "";
+  const date = new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? "" : match.slice(1, 4).join("-");
+};
+
+const ISO_DURATION_PATTERN = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+/**
+ * Whole seconds from a number, numeric string, or ISO 8601 duration ("PT1H2M3S"); null when unknown.
+ */
+export const normalizeDurationSeconds = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+  const raw = toTrimmedString(value);
+  if (/^\d+(?:\.\d+)?$/.test(raw)) return Math.round(Number(raw));
+
+  const match = ISO_DURATION_PATTERN.exec(raw);
+  if (!match || raw === "P" || /T$/i.test(raw)) return null;
+  const [days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return Math.round(days * 86400 + hours * 3600 + minutes * 60 + seconds);
+};
+
+/**
+ * Lowercase BCP 47 language tag ("en", "pt-br"); "en_US" style tags are accepted.
+ */
+export const normalizeLanguage = (value: unknown): string => {
+  const tag = toTrimmedString(value).replace(/_/g, "-").toLowerCase();
+  return /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/.test(tag) ? tag : "";
+};
+
+/**
+ * Video ids are URL-safe tokens (YouTube ids, Vimeo and Twitch numeric ids, Twitch clip slugs).
+ */
+export const normalizeVideoId = (value: unknown): string => {
+  const id = toTrimmedString(value);
+  return /^[\w-]{1,100}$/.test(id) ? id : "";
+};
+
+/**
+ * Playlist id from a raw id or any URL with a `list=` parameter.
+ */
+export const normalizePlaylistId = (value: unknown): string => {
+  const raw = toTrimmedString(value);
+  const id = /[?&]list=([^&#]+)/.exec(raw)?.[1] ?? raw;
+  return /^[\w-]{2,}$/.test(id) ? id : "";
+};
+
+/**
+ * Positive 1-based playlist position; anything else is null.
+ */
+export const normalizePlaylistIndex = (value: unknown): number | null => {
+  const index = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof index === "number" && Number.isInteger(index) && index > 0 ? index : null;
+};
+
+/**
+ * Pull "#tag" tokens out of free text (titles, descriptions); numeric-only tags are ignored.
+ */
+export function parseHashtags(...texts: unknown[]): string[] {
+  const found = new Set<string>();
+  for (const text of texts) {
+    if (!isString(text)) continue;
+    for (const match of text.matchAll(HASHTAG_PATTERN)) {
+      const tag = normalizeHashtag(match[1]);
+      if (tag && !/^\d+$/.test(tag)) found.add(tag);
+    }
+  }
+  return [...found];
+}
+
+const normalizeHashtags = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.map(normalizeHashtag).filter(Boolean))];
+};
+
 const normalizeKeywords = (value: unknown): string[] => {
   if (!Array.isArray(value)) return [];
   return value.map(toTrimmedString).filter(Boolean);
@@ -31,14 +171,52 @@ const normalizeCategory = (value: unknown): string | number | null => {
 export function isVideoMetadata(value: unknown): value is Partial<Metadata> {
   if (!isObject(value)) return false;
 
-  const { title, channel, description, keywords, youtubeCategory } = value;
+  const {
+    title,
+    channel,
+    channelId,
+    channelHandle,
+    description,
+    keywords,
+    hashtags,
+    youtubeCategory,
+    uploadDate,
+    durationSeconds,
+    language,
+    playlistId,
+    playlistTitle,
+    playlistIndex,
+    artist,
+    album,
+    siteCategory,
+    videoId,
+    isShort,
+    isLive,
+    isUpcoming,
+    isLiveContent,
+    site,
+    version
+  } = value;
 
-  const stringsAreValid = [title, channel, description].every(
-    (field) => field === undefined || isString(field)
-  );
+  const stringsAreValid = [
+    title,
+    channel,
+    channelId,
+    channelHandle,
+    description,
+    uploadDate,
+    language,
+    playlistId,
+    playlistTitle,
+    artist,
+    album,
+    siteCategory,
+    videoId
+  ].every((field) => field === undefined || isString(field));
 
-  const keywordsAreValid =
-    keywords === undefined || (Array.isArray(keywords) && keywords.every(isString));
+  const keywordsAreValid = [keywords, hashtags].every(
+    (field) => field === undefined || (Array.isArray(field) && field.every(isString))
+  );
 
   const categoryIsValid =
     youtubeCategory === undefined ||
@@ -46,7 +224,21 @@ export function isVideoMetadata(value: unknown): value is Partial<Metadata> {
     isString(youtubeCategory) ||
     typeof youtubeCategory === "number";
 
-  return stringsAreValid && keywordsAreValid && categoryIsValid;
+  const numbersAreValid = [durationSeconds, playlistIndex].every(
+    (field) => field === undefined || field === null || typeof field === "number"
+  );
+
+  const flagsAreValid = [isShort, isLive, isUpcoming, isLiveContent].every(
+    (field) => field === undefined || typeof field === "boolean"
+  );
+
+  const siteIsValid = site === undefined || isSiteId(site);
+
+  const versionIsValid = version === undefined || (typeof version === "number" && SUPPORTED_METADATA_VERSIONS.includes(version));
+
+  return (
+    stringsAreValid && keywordsAreValid && categoryIsValid && numbersAreValid && flagsAreValid && siteIsValid && versionIsValid
+  );
 }
 
 export function normalizeVideoMetadata(
@@ -57,9 +249,28 @@ export function normalizeVideoMetadata(
   return {
     title: toTrimmedString(source.title) || toTrimmedString(fallbackTitle),
     channel: toTrimmedString(source.channel),
+    channelId: normalizeChannelId(source.channelId),
+    channelHandle: normalizeChannelHandle(source.channelHandle),
     description: toTrimmedString(source.description),
     keywords: normalizeKeywords(source.keywords),
-    youtubeCategory: normalizeCategory(source.youtubeCategory)
+    hashtags: normalizeHashtags(source.hashtags),
+    youtubeCategory: normalizeCategory(source.youtubeCategory),
+    uploadDate: normalizeUploadDate(source.uploadDate),
+    durationSeconds: normalizeDurationSeconds(source.durationSeconds),
+    language: normalizeLanguage(source.language),
+    playlistId: normalizePlaylistId(source.playlistId),
+    playlistTitle: toTrimmedString(source.playlistTitle),
+    playlistIndex: normalizePlaylistIndex(source.playlistIndex),
+    isShort: source.isShort === true,
+    isLive: source.isLive === true,
+    isUpcoming: source.isUpcoming === true,
+    artist: toTrimmedString(source.artist),
+    album: toTrimmedString(source.album),
+    site: isSiteId(source.site) ? source.site : "youtube",
+    siteCategory: toTrimmedString(source.siteCategory),
+    videoId: normalizeVideoId(source.videoId),
+    isLiveContent: source.isLiveContent === true || source.isLive === true || source.isUpcoming === true,
+    version: METADATA_VERSION
   };
 }
 
@@ -73,19 +284,48 @@ export function mergeMetadata(
   return {
     title: prioritized.title || base.title,
     channel: prioritized.channel || base.channel,
+    channelId: prioritized.channelId || base.channelId,
+    channelHandle: prioritized.channelHandle || base.channelHandle,
     description: prioritized.description || base.description,
     keywords: prioritized.keywords.length > 0 ? prioritized.keywords : base.keywords,
-    youtubeCategory: prioritized.youtubeCategory ?? base.youtubeCategory ?? null
+    hashtags: prioritized.hashtags.length > 0 ? prioritized.hashtags : base.hashtags,
+    youtubeCategory: prioritized.youtubeCategory ?? base.youtubeCategory ?? null,
+    uploadDate: prioritized.uploadDate || base.uploadDate,
+    durationSeconds: prioritized.durationSeconds ?? base.durationSeconds,
+    language: prioritized.language || base.language,
+    playlistId: prioritized.playlistId || base.playlistId,
+    playlistTitle: prioritized.playlistTitle || base.playlistTitle,
+    playlistIndex: prioritized.playlistIndex ?? base.playlistIndex,
+    isShort: prioritized.isShort || base.isShort,
+    isLive: prioritized.isLive || base.isLive,
+    isUpcoming: prioritized.isUpcoming || base.isUpcoming,
+    artist: prioritized.artist || base.artist,
+    album: prioritized.album || base.album,
+    site: isSiteId(preferred.site) ? prioritized.site : base.site,
+    siteCategory: prioritized.siteCategory || base.siteCategory,
+    videoId: prioritized.videoId || base.videoId,
+    isLiveContent: prioritized.isLiveContent || base.isLiveContent,
+    version: METADATA_VERSION
   };
 }
 
+/**
+ * Enough to classify a video: a title and the channel (name or id) that published it.
+ */
+export function isMetadataComplete(metadata: Partial<Metadata> = {}): boolean {
+  const normalized = normalizeVideoMetadata(metadata);
+  return Boolean(normalized.title && (normalized.channel || normalized.channelId));
+}
+
 export function hasMetadataContent(metadata: Partial<Metadata> = {}): boolean {
   const normalized = normalizeVideoMetadata(metadata);
   return Boolean(
     normalized.title ||
       normalized.channel ||
+      normalized.channelId ||
       normalized.description ||
       (normalized.keywords && normalized.keywords.length > 0) ||
+      normalized.hashtags.length > 0 ||
       normalized.youtubeCategory !== null
   );
 }
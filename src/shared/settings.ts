@@ -1,6 +1,36 @@
-import type { Settings, ChannelCategoryMap, CategoryKeywordsMap } from "./types";
-
-export const SETTINGS_VERSION = 1;
+import { normalizeHashtag } from "./metadataSchema";
+import { DEFAULT_YOUTUBE_CATEGORY_MAP, resolveYouTubeCategoryId } from "./youtubeCategories";
+import { CHANNEL_KEY_TYPES, createChannelMapping, detectChannelKeyType, toChannelMapKey } from "./channelMap";
+import { normalizeCategoryPath } from "./categoryHierarchy";
+import { SITE_IDS } from "./sites";
+import type {
+  Settings,
+  ChannelCategoryMap,
+  ChannelMapping,
+  HashtagCategoryMap,
+  CategoryKeyword,
+  CategoryKeywordsMap,
+  CategoryRule,
+  CategoryRuleCondition,
+  CategoryRuleField,
+  CategoryRuleOperator,
+  CategoryRulesMode,
+  GroupingLevel,
+  GroupingStrategyId,
+  KeywordField,
+  KeywordFieldWeights,
+  MusicGroupingMode,
+  EnabledSites,
+  PageKind,
+  PageKindPolicies,
+  PageKindPolicy,
+  VideoType,
+  VideoTypeAction,
+  VideoTypeRouting,
+  YouTubeCategoryMap
+} from "./types";
+
+export const SETTINGS_VERSION = 5;
 
 export const AVAILABLE_COLORS = [
   "grey",
@@ -13,7 +43,12 @@ export const AVAILABLE_COLORS = [
   "cyan"
 ] as const;
 
-export const CATEGORY_KEYWORDS: CategoryKeywordsMap = {
+const keywordsFromTerms = (terms: Record<string, string[]>): CategoryKeywordsMap =>
+  Object.fromEntries(
+    Object.entries(terms).map(([category, list]) => [category, list.map((term) => ({ term, weight: 1 }))])
+  );
+
+export const CATEGORY_KEYWORDS: CategoryKeywordsMap = keywordsFromTerms({
   Gaming: ["gameplay", "gaming", "twitch", "esports", "fps", "rpg", "speedrun", "fortnite", "minecraft"],
   Music: ["music", "song", "album", "artist", "concert", "cover", "remix", "lyrics"],
   Tech: ["tech", "gadget", "review", "iphone", "laptop", "cpu", "gpu", "software", "coding"],
@@ -22,13 +57,143 @@ export const CATEGORY_KEYWORDS: CategoryKeywordsMap = {
   Education: ["tutorial", "course", "learn", "how to", "guide", "lesson", "education"],
   News: ["news", "breaking", "current events", "politics", "world", "daily"],
   Entertainment: ["movie", "series", "trailer", "reaction", "comedy", "funny", "meme"]
+});
+
+export const KEYWORD_FIELDS: readonly KeywordField[] = ["title", "channel", "keywords", "description"];
+
+/**
+ * Title hits count most; long descriptions full of sponsor text count least.
+ */
+export const DEFAULT_KEYWORD_FIELD_WEIGHTS: KeywordFieldWeights = {
+  title: 3,
+  channel: 2,
+  keywords: 2,
+  description: 1
+};
+
+const MAX_KEYWORD_WEIGHT = 100;
+
+export const RULE_FIELDS: readonly CategoryRuleField[] = [
+  "title",
+  "channel",
+  "description",
+  "keywords",
+  "youtubeCategory",
+  "url"
+];
+
+export const RULE_OPERATORS: readonly CategoryRuleOperator[] = ["contains", "equals", "regex"];
+
+export const RULES_MODES: readonly CategoryRulesMode[] = ["before", "replace"];
+
+export const GROUPING_LEVELS: readonly GroupingLevel[] = ["leaf", "parent", "adaptive"];
+
+const MIN_GROUP_SPLIT_THRESHOLD = 2;
+
+export const GROUPING_STRATEGIES: readonly GroupingStrategyId[] = [
+  "category",
+  "channel",
+  "playlist",
+  "recency",
+  "duration",
+  "language"
+];
+
+export const GROUPING_STRATEGY_LABELS: Record<GroupingStrategyId, string> = {
+  category: "By category",
+  channel: "By channel",
+  playlist: "By playlist",
+  recency: "By upload date",
+  duration: "By video length",
+  language: "By language"
+};
+
+export const isGroupingStrategyId = (value: unknown): value is GroupingStrategyId =>
+  typeof value === "string" && (GROUPING_STRATEGIES as readonly string[]).includes(value);
+
+export const VIDEO_TYPES: readonly VideoType[] = ["short", "live", "upcoming"];
+
+export const VIDEO_TYPE_ACTIONS: readonly VideoTypeAction[] = ["classify", "group", "skip"];
+
+export const VIDEO_TYPE_LABELS: Record<VideoType, string> = {
+  short: "Shorts",
+  live: "Live streams",
+  upcoming: "Premieres & upcoming streams"
 };
 
+const DEFAULT_VIDEO_TYPE_ROUTING: VideoTypeRouting = {
+  short: { action: "classify", group: "Shorts" },
+  live: { action: "classify", group: "Live" },
+  upcoming: { action: "classify", group: "Premieres" }
+};
+
+export const PAGE_KINDS: readonly PageKind[] = [
+  "watch",
+  "shorts",
+  "live",
+  "music",
+  "channel",
+  "search",
+  "playlist",
+  "home",
+  "other"
+];
+
+export const PAGE_KIND_LABELS: Record<PageKind, string> = {
+  watch: "Videos",
+  shorts: "Shorts",
+  live: "Live pages",
+  music: "YouTube Music",
+  channel: "Channel pages",
+  search: "Search results",
+  playlist: "Playlist pages",
+  home: "Home page",
+  other: "Other pages (feeds, settings, …)"
+};
+
+/** Policies that make sense for each page kind; the first one is the default. */
+export const PAGE_KIND_POLICY_OPTIONS: Record<PageKind, readonly PageKindPolicy[]> = {
+  watch: ["classify", "ignore"],
+  shorts: ["classify", "ignore"],
+  live: ["classify", "ignore"],
+  music: ["classify", "ignore"],
+  channel: ["channel", "classify", "ignore"],
+  search: ["query", "ignore"],
+  playlist: ["playlist", "ignore"],
+  home: ["ignore", "classify"],
+  other: ["ignore", "classify"]
+};
+
+export const PAGE_KIND_POLICY_LABELS: Record<PageKindPolicy, string> = {
+  classify: "Group by category",
+  channel: "Group by channel",
+  query: "Group by search query",
+  playlist: "Group by playlist",
+  ignore: "Don't group"
+};
+
+export const MUSIC_GROUPING_MODES: readonly MusicGroupingMode[] = ["artist", "album", "playlist", "category"];
+
+const DEFAULT_ENABLED_SITES: EnabledSites = { youtube: true, vimeo: true, twitch: true };
+
+const DEFAULT_PAGE_KIND_POLICIES = Object.fromEntries(
+  PAGE_KINDS.map((kind) => [kind, PAGE_KIND_POLICY_OPTIONS[kind][0]])
+) as PageKindPolicies;
+
 export const DEFAULT_SETTINGS: Settings = {
   autoGroupDelay: 2500,
   autoGroupDelayMs: 2500, // legacy alias support
   autoCleanupGraceMs: 300000,
   allowedHashtags: ["tech", "music", "gaming", "cooking", "sports", "education", "news"],
+  hashtagCategoryMap: {
+    tech: "Tech",
+    music: "Music",
+    gaming: "Gaming",
+    cooking: "Cooking",
+    sports: "Fitness",
+    education: "Education",
+    news: "News"
+  },
   channelCategoryMap: {},
   extensionEnabled: true,
   debugLogging: false,
@@ -39,6 +204,23 @@ export const DEFAULT_SETTINGS: Settings = {
   autoCleanupEnabled: true,
   aiCategoryDetection: true,
   categoryKeywords: CATEGORY_KEYWORDS,
+  keywordFieldWeights: DEFAULT_KEYWORD_FIELD_WEIGHTS,
+  minKeywordConfidence: 0.2,
+  reviewCategory: "Review",
+  learningEnabled: true,
+  youtubeCategoryMap: DEFAULT_YOUTUBE_CATEGORY_MAP,
+  categoryRules: [],
+  categoryRulesMode: "before",
+  groupingLevel: "leaf",
+  groupSplitThreshold: 6,
+  groupingStrategy: "category",
+  groupPlaylists: false,
+  videoTypeRouting: DEFAULT_VIDEO_TYPE_ROUTING,
+  pageKindPolicies: DEFAULT_PAGE_KIND_POLICIES,
+  musicGrouping: "artist",
+  enabledSites: DEFAULT_ENABLED_SITES,
+  regroupOnNavigation: true,
+  sameColorAcrossWindows: true,
   version: SETTINGS_VERSION
 };
 
@@ -77,6 +259,35 @@ const normalizeEnabledColors = (value: unknown): Record<string, boolean> => {
   return normalized;
 };
 
+const clampWeight = (value: number) => Math.max(-MAX_KEYWORD_WEIGHT, Math.min(MAX_KEYWORD_WEIGHT, value));
+
+/**
+ * Accepts the current `{ term, weight, veto }` form and the legacy plain-string form (weight 1).
+ * Zero weights carry no signal and are dropped.
+ */
+const normalizeCategoryKeyword = (value: unknown): CategoryKeyword | null => {
+  if (typeof value === "string") {
+    const term = value.trim();
+    return term ? { term, weight: 1 } : null;
+  }
+  if (!isObject(value)) return null;
+
+  const term = typeof value.term === "string" ? value.term.trim() : "";
+  const rawWeight = Number(value.weight ?? 1);
+  const weight = Number.isFinite(rawWeight) ? clampWeight(rawWeight) : 1;
+  if (!term) return null;
+
+  if (value.veto === true) {
+    return { term, weight: 0, veto: true };
+  }
+  return weight === 0 ? null : { term, weight };
+};
+
+const normalizeKeywordList = (value: unknown): CategoryKeyword[] => {
+  if (!Array.isArray(value)) return [];
+  return value.map(normalizeCategoryKeyword).filter((item): item is CategoryKeyword => item !== null);
+};
+
 const normalizeCategoryKeywords = (value: unknown): CategoryKeywordsMap => {
   if (!isObject(value)) {
     return { ...DEFAULT_SETTINGS.categoryKeywords };
@@ -86,11 +297,13 @@ const normalizeCategoryKeywords = (value: unknown): CategoryKeywordsMap => {
 
   const combinedKeys = new Set<string>([
     ...Object.keys(DEFAULT_SETTINGS.categoryKeywords),
-    ...Object.keys(value as CategoryKeywordsMap)
+    ...Object.keys(value)
   ]);
 
-  for (const category of combinedKeys) {
-    const keywords = toStringArray((value as CategoryKeywordsMap)[category]);
+  for (const rawCategory of combinedKeys) {
+    const category = normalizeCategoryPath(rawCategory);
+    if (!category) continue;
+    const keywords = normalizeKeywordList(value[rawCategory]);
     if (keywords.length > 0) {
       normalized[category] = keywords;
     } else if (DEFAULT_SETTINGS.categoryKeywords[category]) {
@@ -103,18 +316,227 @@ const normalizeCategoryKeywords = (value: unknown): CategoryKeywordsMap => {
   return normalized;
 };
 
+const normalizeKeywordFieldWeights = (value: unknown): KeywordFieldWeights => {
+  const source = isObject(value) ? value : {};
+  const normalized = { ...DEFAULT_KEYWORD_FIELD_WEIGHTS };
+  for (const field of KEYWORD_FIELDS) {
+    const weight = Number(source[field]);
+    if (source[field] !== undefined && Number.isFinite(weight)) {
+      normalized[field] = Math.max(0, Math.min(MAX_KEYWORD_WEIGHT, weight));
+    }
+  }
+  return normalized;
+};
+
+/**
+ * Parse the options-page keyword syntax: "term", "term:2" (weight), "-term" / "-term:2"
+ * (negative weight), "!term" (veto). Entries are comma-separated.
+ */
+export function parseKeywordList(text: string): CategoryKeyword[] {
+  return (text || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry): CategoryKeyword | null => {
+      if (entry.startsWith("!")) {
+        return normalizeCategoryKeyword({ term: entry.slice(1), veto: true });
+      }
+
+      const negative = entry.startsWith("-");
+      const body = negative ? entry.slice(1) : entry;
+      const weightMatch = /^(.*?):\s*(-?\d+(?:\.\d+)?)$/.exec(body);
+      const term = weightMatch ? weightMatch[1] : body;
+      const weight = weightMatch ? Number(weightMatch[2]) : 1;
+
+      return normalizeCategoryKeyword({ term, weight: negative ? -Math.abs(weight) : weight });
+    })
+    .filter((item): item is CategoryKeyword => item !== null);
+}
+
+/**
+ * Inverse of parseKeywordList.
+ */
+export function formatKeywordList(keywords: CategoryKeyword[] = []): string {
+  return keywords
+    .map(({ term, weight, veto }) => {
+      if (veto) return `!${term}`;
+      if (weight === 1) return term;
+      if (weight === -1) return `-${term}`;
+      return weight < 0 ? `-${term}:${Math.abs(weight)}` : `${term}:${weight}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Accepts typed `{ type, value, category, label? }` entries and legacy `channel -> category`
+ * strings (type detected from the key). Entries are re-keyed canonically.
+ */
 const normalizeChannelCategoryMap = (value: unknown): ChannelCategoryMap => {
   if (!isObject(value)) return {};
   const normalized: ChannelCategoryMap = {};
-  for (const [channel, category] of Object.entries(value as ChannelCategoryMap)) {
-    if (typeof channel === "string" && channel.trim()) {
-      normalized[channel.trim()] =
-        typeof category === "string" && category.trim() ? category.trim() : "Other";
+  for (const [key, raw] of Object.entries(value)) {
+    let entry: ChannelMapping | null = null;
+    if (typeof raw === "string") {
+      entry = createChannelMapping(detectChannelKeyType(key), key, raw);
+    } else if (isObject(raw) && CHANNEL_KEY_TYPES.includes(raw.type as never)) {
+      entry = createChannelMapping(
+        raw.type as ChannelMapping["type"],
+        raw.value,
+        typeof raw.category === "string" ? raw.category : "",
+        typeof raw.label === "string" ? raw.label : ""
+      );
+    }
+    if (entry) {
+      normalized[toChannelMapKey(entry.type, entry.value)] = entry;
+    }
+  }
+  return normalized;
+};
+
+const normalizeHashtagList = (value: unknown): string[] => [
+  ...new Set(toStringArray(value).map(normalizeHashtag).filter(Boolean))
+];
+
+const normalizeHashtagCategoryMap = (value: unknown): HashtagCategoryMap => {
+  if (!isObject(value)) return { ...DEFAULT_SETTINGS.hashtagCategoryMap };
+  const normalized: HashtagCategoryMap = {};
+  for (const [hashtag, category] of Object.entries(value)) {
+    const tag = normalizeHashtag(hashtag);
+    const target = typeof category === "string" ? category.trim() : "";
+    if (tag && target) {
+      normalized[tag] = target;
     }
   }
   return normalized;
 };
 
+/**
+ * Keys are canonicalized to YouTube category ids; an empty target is kept so users can unmap a
+ * built-in entry. Defaults only apply when no map has been stored yet.
+ */
+const normalizeYouTubeCategoryMap = (value: unknown): YouTubeCategoryMap => {
+  if (!isObject(value)) return { ...DEFAULT_SETTINGS.youtubeCategoryMap };
+  const normalized: YouTubeCategoryMap = {};
+  for (const [key, category] of Object.entries(value)) {
+    const id = resolveYouTubeCategoryId(key);
+    if (id) {
+      normalized[id] = typeof category === "string" ? category.trim() : "";
+    }
+  }
+  return normalized;
+};
+
+/**
+ * Fill each video type's route from the defaults; an empty group name falls back to the default name.
+ */
+const normalizeVideoTypeRouting = (value: unknown): VideoTypeRouting => {
+  const source = isObject(value) ? value : {};
+  return VIDEO_TYPES.reduce<VideoTypeRouting>(
+    (routing, type) => {
+      const raw = isObject(source[type]) ? source[type] : {};
+      const defaults = DEFAULT_VIDEO_TYPE_ROUTING[type];
+      routing[type] = {
+        action: VIDEO_TYPE_ACTIONS.includes(raw.action as VideoTypeAction) ? (raw.action as VideoTypeAction) : defaults.action,
+        group: typeof raw.group === "string" && raw.group.trim() ? raw.group.trim() : defaults.group
+      };
+      return routing;
+    },
+    { ...DEFAULT_VIDEO_TYPE_ROUTING }
+  );
+};
+
+/**
+ * Keep each page kind's policy only when it is one of that kind's options.
+ */
+const normalizePageKindPolicies = (value: unknown): PageKindPolicies => {
+  const source = isObject(value) ? value : {};
+  return PAGE_KINDS.reduce<PageKindPolicies>(
+    (policies, kind) => {
+      const policy = source[kind] as PageKindPolicy;
+      if (PAGE_KIND_POLICY_OPTIONS[kind].includes(policy)) policies[kind] = policy;
+      return policies;
+    },
+    { ...DEFAULT_PAGE_KIND_POLICIES }
+  );
+};
+
+/**
+ * One flag per site; sites missing from a stored value stay enabled.
+ */
+const normalizeEnabledSites = (value: unknown): EnabledSites => {
+  const source = isObject(value) ? value : {};
+  return SITE_IDS.reduce<EnabledSites>(
+    (sites, site) => {
+      if (typeof source[site] === "boolean") sites[site] = source[site];
+      return sites;
+    },
+    { ...DEFAULT_ENABLED_SITES }
+  );
+};
+
+export function isValidRulePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const normalizeRuleCondition = (value: unknown): CategoryRuleCondition | null => {
+  if (!isObject(value)) return null;
+
+  const field = value.field as CategoryRuleField;
+  const operator = value.operator as CategoryRuleOperator;
+  const conditionValue = typeof value.value === "string" ? value.value.trim() : "";
+
+  if (!RULE_FIELDS.includes(field) || !RULE_OPERATORS.includes(operator) || !conditionValue) {
+    return null;
+  }
+
+  // Invalid patterns are dropped here so the resolver never has to guard against them.
+  if (operator === "regex" && !isValidRulePattern(conditionValue)) {
+    return null;
+  }
+
+  return { field, operator, value: conditionValue };
+};
+
+const normalizeCategoryRules = (value: unknown): CategoryRule[] => {
+  if (!Array.isArray(value)) return [];
+
+  const seenIds = new Set<string>();
+  const normalized: CategoryRule[] = [];
+
+  value.forEach((raw, index) => {
+    if (!isObject(raw)) return;
+
+    const category = typeof raw.category === "string" ? raw.category.trim() : "";
+    const conditions = Array.isArray(raw.conditions)
+      ? raw.conditions.map(normalizeRuleCondition).filter((item): item is CategoryRuleCondition => item !== null)
+      : [];
+
+    if (!category || conditions.length === 0) return;
+
+    let id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : `rule-${index + 1}`;
+    if (seenIds.has(id)) {
+      id = `${id}-${index + 1}`;
+    }
+    seenIds.add(id);
+
+    normalized.push({
+      id,
+      name: typeof raw.name === "string" ? raw.name.trim() : "",
+      enabled: raw.enabled !== false,
+      match: raw.match === "any" ? "any" : "all",
+      conditions,
+      category
+    });
+  });
+
+  return normalized;
+};
+
 export function withSettingsDefaults(value: Partial<Settings> = {}): Settings {
   const source = isObject(value) ? value : {};
 
@@ -132,7 +554,19 @@ export function withSettingsDefaults(value: Partial<Settings> = {}): Settings {
 
   const autoCleanupGraceMs = rawCleanupGrace >= 0 ? rawCleanupGrace : DEFAULT_SETTINGS.autoCleanupGraceMs;
 
-  const normalizedHashtags = toStringArray(source.allowedHashtags);
+  const normalizedHashtags = normalizeHashtagList(source.allowedHashtags);
+  const rawMinConfidence = Number(source.minKeywordConfidence);
+  const minKeywordConfidence = Number.isFinite(rawMinConfidence)
+    ? Math.max(0, Math.min(1, rawMinConfidence))
+    : DEFAULT_SETTINGS.minKeywordConfidence;
+  const reviewCategory =
+    typeof source.reviewCategory === "string" && source.reviewCategory.trim()
+      ? source.reviewCategory.trim()
+      : DEFAULT_SETTINGS.reviewCategory;
+  const rawSplitThreshold = Math.floor(Number(source.groupSplitThreshold));
+  const groupSplitThreshold = Number.isFinite(rawSplitThreshold)
+    ? Math.max(MIN_GROUP_SPLIT_THRESHOLD, rawSplitThreshold)
+    : DEFAULT_SETTINGS.groupSplitThreshold;
 
   return {
     ...DEFAULT_SETTINGS,
@@ -146,9 +580,27 @@ export function withSettingsDefaults(value: Partial<Settings> = {}): Settings {
     aiCategoryDetection: source.aiCategoryDetection !== false,
     autoCleanupEnabled: source.autoCleanupEnabled !== false,
     allowedHashtags: normalizedHashtags.length > 0 ? normalizedHashtags : [...DEFAULT_SETTINGS.allowedHashtags],
+    hashtagCategoryMap: normalizeHashtagCategoryMap(source.hashtagCategoryMap),
     enabledColors: normalizeEnabledColors(source.enabledColors),
     categoryKeywords: normalizeCategoryKeywords(source.categoryKeywords),
-    channelCategoryMap: normalizeChannelCategoryMap(source.channelCategoryMap)
+    keywordFieldWeights: normalizeKeywordFieldWeights(source.keywordFieldWeights),
+    minKeywordConfidence,
+    reviewCategory,
+    learningEnabled: source.learningEnabled !== false,
+    youtubeCategoryMap: normalizeYouTubeCategoryMap(source.youtubeCategoryMap),
+    channelCategoryMap: normalizeChannelCategoryMap(source.channelCategoryMap),
+    categoryRules: normalizeCategoryRules(source.categoryRules),
+    categoryRulesMode: RULES_MODES.includes(source.categoryRulesMode) ? source.categoryRulesMode : "before",
+    groupingLevel: GROUPING_LEVELS.includes(source.groupingLevel) ? source.groupingLevel : "leaf",
+    groupSplitThreshold,
+    groupingStrategy: isGroupingStrategyId(source.groupingStrategy) ? source.groupingStrategy : "category",
+    groupPlaylists: source.groupPlaylists === true,
+    videoTypeRouting: normalizeVideoTypeRouting(source.videoTypeRouting),
+    pageKindPolicies: normalizePageKindPolicies(source.pageKindPolicies),
+    musicGrouping: MUSIC_GROUPING_MODES.includes(source.musicGrouping) ? source.musicGrouping : "artist",
+    enabledSites: normalizeEnabledSites(source.enabledSites),
+    regroupOnNavigation: source.regroupOnNavigation !== false,
+    sameColorAcrossWindows: source.sameColorAcrossWindows !== false
   };
 }
 
@@ -160,7 +612,9 @@ export function isSettings(value: unknown): value is Settings {
     Array.isArray(normalized.allowedHashtags) &&
     isObject(normalized.enabledColors) &&
     isObject(normalized.categoryKeywords) &&
-    isObject(normalized.channelCategoryMap)
+    isObject(normalized.youtubeCategoryMap) &&
+    isObject(normalized.channelCategoryMap) &&
+    Array.isArray(normalized.categoryRules)
   );
 }
 
@@ -179,47 +633,170 @@ export function migrateSettingsV0ToV1(value: Partial<Settings> = {}): Settings {
   };
 }
 
-export async function getSettings(defaults: Settings = DEFAULT_SETTINGS): Promise<Settings> {
-  const mergedDefaults = withSettingsDefaults(defaults);
+/**
+ * V2 introduces the id-keyed `youtubeCategoryMap`; settings saved before it get the built-in table.
+ */
+export function migrateSettingsV1ToV2(value: Partial<Settings> = {}): Settings {
+  const source = isObject(value) ? value : {};
+  return withSettingsDefaults({
+    ...source,
+    youtubeCategoryMap: isObject(source.youtubeCategoryMap)
+      ? source.youtubeCategoryMap
+      : { ...DEFAULT_SETTINGS.youtubeCategoryMap }
+  });
+}
+
+/**
+ * V3 turns keyword string arrays into weighted `{ term, weight }` entries and adds field weights.
+ */
+export function migrateSettingsV2ToV3(value: Partial<Settings> = {}): Settings {
+  const source = isObject(value) ? value : {};
+  const legacyKeywords = isObject(source.categoryKeywords) ? (source.categoryKeywords as Record<string, unknown>) : null;
+
+  const categoryKeywords = legacyKeywords
+    ? Object.fromEntries(Object.entries(legacyKeywords).map(([category, list]) => [category, normalizeKeywordList(list)]))
+    : undefined;
+
+  return withSettingsDefaults({
+    ...source,
+    categoryKeywords,
+    keywordFieldWeights: isObject(source.keywordFieldWeights) ? source.keywordFieldWeights : DEFAULT_KEYWORD_FIELD_WEIGHTS
+  });
+}
+
+/**
+ * V4 keys `channelCategoryMap` by typed entries (id/handle/name) instead of bare display names.
+ */
+export function migrateSettingsV3ToV4(value: Partial<Settings> = {}): Settings {
+  const source = isObject(value) ? value : {};
+  return withSettingsDefaults({
+    ...source,
+    channelCategoryMap: normalizeChannelCategoryMap(source.channelCategoryMap)
+  });
+}
+
+/**
+ * V5 adds `minKeywordConfidence`. Settings saved before it keep accepting their best keyword match
+ * (0) instead of sending weak matches to review; only new installs start with the default threshold.
+ */
+export function migrateSettingsV4ToV5(value: Partial<Settings> = {}): Settings {
+  const source = isObject(value) ? value : {};
+  return withSettingsDefaults({
+    ...source,
+    minKeywordConfidence: typeof source.minKeywordConfidence === "number" ? source.minKeywordConfidence : 0
+  });
+}
+
+/**
+ * Run every migration step between the stored version and SETTINGS_VERSION.
+ */
+export function migrateSettings(value: Partial<Settings> = {}): Settings {
+  const source = isObject(value) ? value : {};
+  const storedVersion = Number(source.version) || 0;
+
+  let migrated: Partial<Settings> = source;
+  if (storedVersion < 1) migrated = migrateSettingsV0ToV1(migrated);
+  if (storedVersion < 2) migrated = migrateSettingsV1ToV2(migrated);
+  if (storedVersion < 3) migrated = migrateSettingsV2ToV3(migrated);
+  if (storedVersion < 4) migrated = migrateSettingsV3ToV4(migrated);
+  if (storedVersion < 5) migrated = migrateSettingsV4ToV5(migrated);
+
+  return {
+    ...withSettingsDefaults(migrated),
+    version: SETTINGS_VERSION
+  };
+}
+
+/**
+ * `channelCategoryMap` lives in `chrome.storage.local` under this key: a subscriptions import easily
+ * outgrows `chrome.storage.sync`'s 8 KB per-item quota. Settings saved before the move still hold
+ * it in sync, where it is read from until the first local write.
+ */
+export const CHANNEL_MAP_STORAGE_KEY = "channelCategoryMap";
+
+/** The locally stored channel map; undefined when none was saved yet or local storage failed. */
+async function getLocalChannelMap(): Promise<unknown> {
   return new Promise((resolve) => {
     try {
-      chrome.storage.sync.get(mergedDefaults, (result) => {
+      chrome.storage.local.get(CHANNEL_MAP_STORAGE_KEY, (result) => {
         if (chrome.runtime.lastError) {
-          console.warn("settings:getSettings falling back to defaults:", chrome.runtime.lastError.message);
-          resolve(withSettingsDefaults(mergedDefaults));
+          console.warn("settings:getLocalChannelMap falling back to sync:", chrome.runtime.lastError.message);
+          resolve(undefined);
           return;
         }
-        resolve(withSettingsDefaults(result));
+        resolve((result as Record<string, unknown>)[CHANNEL_MAP_STORAGE_KEY]);
       });
     } catch (error) {
-      console.warn("settings:getSettings caught error, using defaults:", (error as Error)?.message || error);
-      resolve(withSettingsDefaults(mergedDefaults));
+      console.warn("settings:getLocalChannelMap caught error, falling back to sync:", (error as Error)?.message || error);
+      resolve(undefined);
+    }
+  });
+}
+
+/**
+ * Save the channel map locally, then drop the copy settings saved before the move left in sync.
+ */
+async function setLocalChannelMap(channelCategoryMap: ChannelCategoryMap): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    chrome.storage.local.set({ [CHANNEL_MAP_STORAGE_KEY]: channelCategoryMap }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+  chrome.storage.sync.remove(CHANNEL_MAP_STORAGE_KEY, () => {
+    if (chrome.runtime.lastError) {
+      console.warn("settings:setLocalChannelMap failed to drop the synced copy:", chrome.runtime.lastError.message);
     }
   });
 }
 
+export async function getSettings(defaults: Settings = DEFAULT_SETTINGS): Promise<Settings> {
+  const mergedDefaults = withSettingsDefaults(defaults);
+  const [synced, localChannelMap] = await Promise.all([
+    new Promise<Record<string, unknown>>((resolve) => {
+      try {
+        chrome.storage.sync.get(mergedDefaults, (result) => {
+          if (chrome.runtime.lastError) {
+            console.warn("settings:getSettings falling back to defaults:", chrome.runtime.lastError.message);
+            resolve(mergedDefaults as unknown as Record<string, unknown>);
+            return;
+          }
+          resolve(result);
+        });
+      } catch (error) {
+        console.warn("settings:getSettings caught error, using defaults:", (error as Error)?.message || error);
+        resolve(mergedDefaults as unknown as Record<string, unknown>);
+      }
+    }),
+    getLocalChannelMap()
+  ]);
+  return withSettingsDefaults(
+    isObject(localChannelMap) ? { ...synced, channelCategoryMap: localChannelMap as ChannelCategoryMap } : synced
+  );
+}
+
+/**
+ * Write `settings` to sync storage (the channel map to local storage). Rejects when either write
+ * fails, e.g. over the sync quota, so callers can tell the user nothing was saved.
+ */
+async function persistSettings(settings: Settings): Promise<Settings> {
+  await Promise.all([scheduleSyncWrite(settings), setLocalChannelMap(settings.channelCategoryMap || {})]);
+  return settings;
+}
+
 export async function updateSettings(update: SettingsUpdater): Promise<Settings> {
   const current = await getSettings();
   const next =
     typeof update === "function" ? (update as (s: Settings) => Settings)({ ...current }) : { ...current, ...update };
 
-  const normalized = withSettingsDefaults(next);
-  try {
-    await scheduleSyncWrite(normalized);
-  } catch (error) {
-    console.warn("settings:updateSettings failed to persist; will retry next session:", (error as Error)?.message || error);
-  }
-  return normalized;
+  return persistSettings(withSettingsDefaults(next));
 }
 
 export async function resetSettings(defaults: Settings = DEFAULT_SETTINGS): Promise<Settings> {
-  const normalized = withSettingsDefaults(defaults);
-  try {
-    await scheduleSyncWrite(normalized);
-  } catch (error) {
-    console.warn("settings:resetSettings failed to persist; will retry next session:", (error as Error)?.message || error);
-  }
-  return normalized;
+  return persistSettings(withSettingsDefaults(defaults));
 }
 
 // -----------------------------------------------------------------------------
@@ -232,19 +809,49 @@ let pendingSyncResolvers: { resolve: (value: Settings | PromiseLike<Settings>) =
   [];
 let pendingSyncTimer: ReturnType<typeof setTimeout> | null = null;
 
+/**
+ * `categoryKeywords` as written to sync: plain weight-1 terms are saved as bare strings, which
+ * `normalizeCategoryKeyword` reads back, keeping the lists well inside the 8 KB per-item quota.
+ */
+function compactCategoryKeywords(categoryKeywords: CategoryKeywordsMap): Record<string, (string | CategoryKeyword)[]> {
+  return Object.fromEntries(
+    Object.entries(categoryKeywords).map(([category, keywords]) => [
+      category,
+      keywords.map((keyword) => (keyword.weight === 1 && !keyword.veto ? keyword.term : keyword))
+    ])
+  );
+}
+
 function sanitizeSettingsPayload(settings: Settings) {
-  const payload: Partial<Settings> = {
+  const payload: Omit<Partial<Settings>, "categoryKeywords"> & { categoryKeywords?: ReturnType<typeof compactCategoryKeywords> } = {
     version: settings.version ?? SETTINGS_VERSION,
     autoGroupDelay: settings.autoGroupDelay,
     autoGroupDelayMs: settings.autoGroupDelay,
     autoCleanupGraceMs: settings.autoCleanupGraceMs,
     allowedHashtags: settings.allowedHashtags || [],
-    channelCategoryMap: settings.channelCategoryMap || {},
+    hashtagCategoryMap: settings.hashtagCategoryMap || {},
     extensionEnabled: settings.extensionEnabled !== false,
     aiCategoryDetection: settings.aiCategoryDetection !== false,
     autoCleanupEnabled: settings.autoCleanupEnabled !== false,
     enabledColors: settings.enabledColors || {},
-    categoryKeywords: settings.categoryKeywords || {}
+    categoryKeywords: compactCategoryKeywords(settings.categoryKeywords || {}),
+    keywordFieldWeights: settings.keywordFieldWeights || DEFAULT_KEYWORD_FIELD_WEIGHTS,
+    minKeywordConfidence: settings.minKeywordConfidence ?? DEFAULT_SETTINGS.minKeywordConfidence,
+    reviewCategory: settings.reviewCategory || DEFAULT_SETTINGS.reviewCategory,
+    learningEnabled: settings.learningEnabled !== false,
+    youtubeCategoryMap: settings.youtubeCategoryMap || {},
+    categoryRules: settings.categoryRules || [],
+    categoryRulesMode: settings.categoryRulesMode || "before",
+    groupingLevel: settings.groupingLevel || DEFAULT_SETTINGS.groupingLevel,
+    groupSplitThreshold: settings.groupSplitThreshold ?? DEFAULT_SETTINGS.groupSplitThreshold,
+    groupingStrategy: settings.groupingStrategy || DEFAULT_SETTINGS.groupingStrategy,
+    groupPlaylists: settings.groupPlaylists === true,
+    videoTypeRouting: settings.videoTypeRouting || DEFAULT_SETTINGS.videoTypeRouting,
+    pageKindPolicies: settings.pageKindPolicies || DEFAULT_SETTINGS.pageKindPolicies,
+    musicGrouping: settings.musicGrouping || DEFAULT_SETTINGS.musicGrouping,
+    enabledSites: settings.enabledSites || DEFAULT_SETTINGS.enabledSites,
+    regroupOnNavigation: settings.regroupOnNavigation !== false,
+    sameColorAcrossWindows: settings.sameColorAcrossWindows !== false
   };
 
   return Object.entries(payload).reduce<Record<string, unknown>>((acc, [key, value]) => {
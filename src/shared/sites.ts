@@ -0,0 +1,132 @@
+import type { EnabledSites, Metadata, ParsedSiteUrl, SiteId } from "./types";
+import { YOUTUBE_URL_PATTERNS, parseYouTubeUrl, stripYouTubeTitle } from "./youtubeUrl";
+import { VIMEO_URL_PATTERNS, parseVimeoUrl, stripVimeoTitle } from "./vimeoUrl";
+import { TWITCH_URL_PATTERNS, parseTwitchUrl, stripTwitchTitle } from "./twitchUrl";
+
+/**
+ * Everything the background and UI need to know about a supported site. The content script adds
+ * page metadata extraction on top (see `src/content/siteAdapters.ts`).
+ */
+export interface SiteDefinition {
+  id: SiteId;
+  label: string;
+  /** Match patterns for every host the site's parser recognizes. */
+  urlPatterns: readonly string[];
+  /** Page kind and ids; null when the URL is not on this site. */
+  parseUrl: (url: string | undefined) => ParsedSiteUrl | null;
+  /** Tab title without the site's suffix. */
+  stripTitle: (title: string | undefined) => string;
+  /** Extension category suggested by `metadata.siteCategory`; empty when the site has no opinion. */
+  getCategoryHint: (metadata: Metadata) => string;
+}
+
+export const SITE_IDS: readonly SiteId[] = ["youtube", "vimeo", "twitch"];
+
+export const isSiteId = (value: unknown): value is SiteId => SITE_IDS.includes(value as SiteId);
+
+/**
+ * Twitch categories that are not games; any other category is a game and maps to "Gaming".
+ * Keys are lowercase.
+ */
+const TWITCH_CATEGORY_MAP: Record<string, string> = {
+  "just chatting": "Entertainment",
+  "talk shows & podcasts": "Entertainment",
+  "special events": "Entertainment",
+  asmr: "Entertainment",
+  art: "Entertainment",
+  "travel & outdoors": "Entertainment",
+  music: "Music",
+  "science & technology": "Tech",
+  "software and game development": "Tech",
+  "food & drink": "Cooking",
+  "fitness & health": "Fitness",
+  sports: "Fitness",
+  "makers & crafting": "Education",
+  politics: "News"
+};
+
+/** Vimeo's staff categories (vimeo.com/categories); keys are lowercase. */
+const VIMEO_CATEGORY_MAP: Record<string, string> = {
+  animation: "Entertainment",
+  comedy: "Entertainment",
+  documentary: "Education",
+  experimental: "Entertainment",
+  fashion: "Entertainment",
+  food: "Cooking",
+  instructionals: "Education",
+  music: "Music",
+  narrative: "Entertainment",
+  sports: "Fitness",
+  travel: "Entertainment"
+};
+
+const toCategoryKey = (metadata: Metadata) => metadata.siteCategory.trim().toLowerCase();
+
+export const SITE_DEFINITIONS: Record<SiteId, SiteDefinition> = {
+  youtube: {
+    id: "youtube",
+    label: "YouTube",
+    urlPatterns: YOUTUBE_URL_PATTERNS,
+    parseUrl: parseYouTubeUrl,
+    stripTitle: stripYouTubeTitle,
+    // YouTube's own categories go through `youtubeCategoryMap` instead.
+    getCategoryHint: () => ""
+  },
+  vimeo: {
+    id: "vimeo",
+    label: "Vimeo",
+    urlPatterns: VIMEO_URL_PATTERNS,
+    parseUrl: parseVimeoUrl,
+    stripTitle: stripVimeoTitle,
+    getCategoryHint: (metadata) => VIMEO_CATEGORY_MAP[toCategoryKey(metadata)] ?? ""
+  },
+  twitch: {
+    id: "twitch",
+    label: "Twitch",
+    urlPatterns: TWITCH_URL_PATTERNS,
+    parseUrl: parseTwitchUrl,
+    stripTitle: stripTwitchTitle,
+    getCategoryHint: (metadata) => {
+      const key = toCategoryKey(metadata);
+      return key ? TWITCH_CATEGORY_MAP[key] ?? "Gaming" : "";
+    }
+  }
+};
+
+const isEnabled = (site: SiteId, enabledSites?: Partial<EnabledSites>) => enabledSites?.[site] !== false;
+
+/**
+ * Definition of the site serving `url`; null for unsupported URLs and sites turned off in `enabledSites`.
+ */
+export function getSiteForUrl(url: string | undefined, enabledSites?: Partial<EnabledSites>): SiteDefinition | null {
+  return (
+    SITE_IDS.map((id) => SITE_DEFINITIONS[id]).find(
+      (site) => isEnabled(site.id, enabledSites) && site.parseUrl(url) !== null
+    ) ?? null
+  );
+}
+
+/**
+ * Parsed URL from whichever enabled site serves it; null when none does.
+ */
+export function parseSiteUrl(url: string | undefined, enabledSites?: Partial<EnabledSites>): ParsedSiteUrl | null {
+  return getSiteForUrl(url, enabledSites)?.parseUrl(url) ?? null;
+}
+
+export function isSupportedUrl(url: string | undefined, enabledSites?: Partial<EnabledSites>): boolean {
+  return getSiteForUrl(url, enabledSites) !== null;
+}
+
+/**
+ * Match patterns for every enabled site (tabs.query, context menus).
+ */
+export function getSiteUrlPatterns(enabledSites?: Partial<EnabledSites>): string[] {
+  return SITE_IDS.filter((id) => isEnabled(id, enabledSites)).flatMap((id) => SITE_DEFINITIONS[id].urlPatterns);
+}
+
+/**
+ * Extension category the metadata's site suggests from its own category label.
+ */
+export function getSiteCategoryHint(metadata: Metadata): string {
+  return SITE_DEFINITIONS[metadata.site]?.getCategoryHint(metadata) ?? "";
+}
@@ -0,0 +1,144 @@
+import { createChannelMapping, findChannelMapping, toChannelMapKey } from "./channelMap";
+import { normalizeChannelId } from "./metadataSchema";
+import type { ChannelCategoryMap, ChannelMapping } from "./types";
+
+export interface TakeoutSubscription {
+  channelId: string;
+  url: string;
+  title: string;
+}
+
+export interface ChannelImportConflict {
+  entry: ChannelMapping;
+  existing: ChannelMapping;
+}
+
+export interface ChannelImportPreview {
+  added: ChannelMapping[];
+  unchanged: ChannelMapping[];
+  conflicts: ChannelImportConflict[];
+}
+
+/**
+ * RFC 4180 rows: quoted fields may contain commas, newlines and doubled quotes.
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Parse Takeout's `subscriptions.csv` (Channel Id, Channel Url, Channel Title). Columns are found
+ * by header name when present, otherwise by position; rows without a valid channel id are skipped.
+ */
+export function parseSubscriptionsCsv(text: string): TakeoutSubscription[] {
+  const rows = parseCsvRows(text || "");
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const hasHeader = !normalizeChannelId(rows[0][0]);
+  const column = (name: string, fallback: number) => {
+    const index = header.indexOf(name);
+    return hasHeader && index >= 0 ? index : fallback;
+  };
+  const idColumn = column("channel id", 0);
+  const urlColumn = column("channel url", 1);
+  const titleColumn = column("channel title", 2);
+
+  const seen = new Set<string>();
+  const subscriptions: TakeoutSubscription[] = [];
+  for (const cells of hasHeader ? rows.slice(1) : rows) {
+    const url = (cells[urlColumn] || "").trim();
+    const channelId = normalizeChannelId(cells[idColumn]) || normalizeChannelId(url);
+    if (!channelId || seen.has(channelId)) continue;
+    seen.add(channelId);
+    subscriptions.push({ channelId, url, title: (cells[titleColumn] || "").trim() || channelId });
+  }
+  return subscriptions;
+}
+
+/**
+ * Build id-keyed mappings for the chosen subscriptions.
+ */
+export function toSubscriptionMappings(assignments: { subscription: TakeoutSubscription; category: string }[]) {
+  return assignments
+    .map(({ subscription, category }) =>
+      createChannelMapping("id", subscription.channelId, category, subscription.title)
+    )
+    .filter((entry): entry is ChannelMapping => entry !== null);
+}
+
+/**
+ * Compare incoming mappings with the existing map. An existing entry for the same id, or a name
+ * entry for the same channel title, with a different category is a conflict.
+ */
+export function previewChannelImport(existing: ChannelCategoryMap, incoming: ChannelMapping[]): ChannelImportPreview {
+  const preview: ChannelImportPreview = { added: [], unchanged: [], conflicts: [] };
+
+  for (const entry of incoming) {
+    const match = findChannelMapping(existing, { channelId: entry.value, channelHandle: "", channel: entry.label || "" });
+    if (!match) {
+      preview.added.push(entry);
+    } else if (match.entry.category === entry.category) {
+      preview.unchanged.push(entry);
+    } else {
+      preview.conflicts.push({ entry, existing: match.entry });
+    }
+  }
+  return preview;
+}
+
+/**
+ * Merge imported mappings. Conflicting entries replace existing ones only when `overwrite` is set;
+ * a replaced name entry is removed so the id entry is the only mapping for that channel.
+ */
+export function mergeChannelImport(
+  existing: ChannelCategoryMap,
+  preview: ChannelImportPreview,
+  overwrite: boolean
+): ChannelCategoryMap {
+  const merged = { ...existing };
+  const accepted = overwrite ? [...preview.added, ...preview.conflicts.map((conflict) => conflict.entry)] : preview.added;
+
+  for (const entry of accepted) {
+    if (entry.label) delete merged[toChannelMapKey("name", entry.label)];
+    merged[toChannelMapKey(entry.type, entry.value)] = entry;
+  }
+  return merged;
+}
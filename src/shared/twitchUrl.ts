@@ -0,0 +1,73 @@
+import type { ParsedSiteUrl } from "./types";
+
+/** Match patterns for twitch.tv pages (tabs.query, context menus). */
+export const TWITCH_URL_PATTERNS: readonly string[] = [
+  "https://www.twitch.tv/*",
+  "https://twitch.tv/*",
+  "https://m.twitch.tv/*"
+];
+
+const HOSTS = new Set(["www.twitch.tv", "twitch.tv", "m.twitch.tv"]);
+
+/** First path segments that are Twitch's own pages rather than a channel login. */
+const RESERVED_SECTIONS = new Set([
+  "directory",
+  "downloads",
+  "drops",
+  "friends",
+  "inventory",
+  "jobs",
+  "messages",
+  "moderator",
+  "p",
+  "popout",
+  "prime",
+  "settings",
+  "subscriptions",
+  "turbo",
+  "u",
+  "wallet"
+]);
+
+/** Channel sub-pages that list content rather than show the stream. */
+const CHANNEL_SUBPAGES = new Set(["about", "clips", "schedule", "videos"]);
+
+const LOGIN_PATTERN = /^\w{3,25}$/;
+
+/**
+ * Page kind of a twitch.tv URL; null for anything else. VODs ("/videos/<id>") and clips are watch
+ * pages; a bare channel ("/<login>") is a live page whether or not the channel is on air.
+ */
+export function parseTwitchUrl(url: string | undefined): ParsedSiteUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url || "");
+  } catch {
+    return null;
+  }
+  if (!HOSTS.has(parsed.hostname.toLowerCase()) || (parsed.protocol !== "https:" && parsed.protocol !== "http:")) {
+    return null;
+  }
+
+  const [section = "", id = "", clipId = ""] = parsed.pathname.split("/").filter(Boolean);
+  const base: ParsedSiteUrl = { site: "twitch", kind: "other", videoId: "", playlistId: "", channel: "", searchQuery: "" };
+
+  if (!section) return { ...base, kind: "home" };
+  if (section === "videos" && /^\d+$/.test(id)) return { ...base, kind: "watch", videoId: id };
+  if (section === "search") return { ...base, kind: "search", searchQuery: parsed.searchParams.get("term")?.trim() || "" };
+  if (section === "collections" && id) return { ...base, kind: "playlist", playlistId: id };
+  if (RESERVED_SECTIONS.has(section) || !LOGIN_PATTERN.test(section)) return base;
+
+  const channel = section.toLowerCase();
+  if (!id) return { ...base, kind: "live", channel };
+  if (id === "clip" && clipId) return { ...base, kind: "watch", videoId: clipId, channel };
+  if (CHANNEL_SUBPAGES.has(id)) return { ...base, kind: "channel", channel };
+  return { ...base, channel };
+}
+
+/**
+ * Page title without Twitch's " - Twitch" suffix.
+ */
+export function stripTwitchTitle(title: string | undefined): string {
+  return (title || "").replace(/\s+-\s+Twitch$/, "").trim();
+}
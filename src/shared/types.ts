@@ -1,9 +1,45 @@
 export interface Metadata {
   title: string;
   channel: string;
+  /** Stable channel id ("UC…"); empty when the page did not expose it. */
+  channelId: string;
+  /** Lowercase "@handle"; empty when unknown. */
+  channelHandle: string;
   description: string;
   keywords: string[];
+  hashtags: string[];
   youtubeCategory: string | number | null;
+  /** Upload date as "YYYY-MM-DD"; empty when unknown. */
+  uploadDate: string;
+  /** Video length in seconds; null when unknown (e.g. live streams). */
+  durationSeconds: number | null;
+  /** Lowercase BCP 47 tag of the spoken language ("en", "pt-br"); empty when unknown. */
+  language: string;
+  /** Playlist the video was opened from (`list=`); empty when none. */
+  playlistId: string;
+  playlistTitle: string;
+  /** 1-based position in the playlist; null when unknown. */
+  playlistIndex: number | null;
+  /** Opened as a Short (`/shorts/<id>`). */
+  isShort: boolean;
+  /** A live stream that is on air now. */
+  isLive: boolean;
+  /** A premiere or scheduled stream that has not started yet. */
+  isUpcoming: boolean;
+  /** YouTube Music track artist(s); empty outside YouTube Music. */
+  artist: string;
+  /** YouTube Music album; empty for singles, videos and outside YouTube Music. */
+  album: string;
+  /** Site the page belongs to; "youtube" when a sender omits it. */
+  site: SiteId;
+  /** The site's own category label (Twitch game/category, Vimeo genre); empty on YouTube and when unknown. */
+  siteCategory: string;
+  /** Site-specific id of the video, VOD or clip (YouTube's 11-character id); empty when unknown. */
+  videoId: string;
+  /** Broadcast as a live stream: on air, upcoming, or a past broadcast. */
+  isLiveContent: boolean;
+  /** Schema version; normalized metadata is always v2. Payloads without it are v1 (no `videoId`/`isLiveContent`). */
+  version: number;
 }
 
 export interface MessageEnvelope {
@@ -17,9 +53,15 @@ export interface GroupTabRequest {
   metadata?: Metadata;
 }
 
+export interface BatchGroupRequest {
+  strategy?: GroupingStrategyId;
+}
+
 export interface GroupTabResponse {
   success: boolean;
   category?: string;
+  /** Title of the tab group the tab joined; differs from `category` for non-category strategies. */
+  group?: string;
   color?: string;
   error?: string;
 }
@@ -38,20 +80,151 @@ export interface HandleMessageOptions {
   onUnknown?: (action: string, msg: unknown, sender: unknown) => unknown;
 }
 
-export type ChannelCategoryMap = Record<string, string>;
-export type CategoryKeywordsMap = Record<string, string[]>;
+export type ChannelKeyType = "id" | "handle" | "name";
+
+export interface ChannelMapping {
+  type: ChannelKeyType;
+  /** Channel id ("UC…"), handle ("@name", lowercase), or display name. */
+  value: string;
+  category: string;
+  /** Display name last seen for an id/handle entry. */
+  label?: string;
+}
+
+/** Keyed by `toChannelMapKey(type, value)`, e.g. "id:UC…", "handle:@name", "name:display name". */
+export type ChannelCategoryMap = Record<string, ChannelMapping>;
+export type HashtagCategoryMap = Record<string, string>;
+export type YouTubeCategoryMap = Record<string, string>;
+/**
+ * A scored keyword: positive weights add to the category, negative weights subtract,
+ * and a veto keyword rules the category out whenever it appears.
+ */
+export interface CategoryKeyword {
+  term: string;
+  weight: number;
+  veto?: boolean;
+}
+
+export type CategoryKeywordsMap = Record<string, CategoryKeyword[]>;
+
+export type KeywordField = "title" | "channel" | "keywords" | "description";
+export type KeywordFieldWeights = Record<KeywordField, number>;
+
+export type CategoryRuleField = "title" | "channel" | "description" | "keywords" | "youtubeCategory" | "url";
+export type CategoryRuleOperator = "contains" | "equals" | "regex";
+export type CategoryRuleMatch = "all" | "any";
+export type CategoryRulesMode = "before" | "replace";
+
+/**
+ * Which level of a nested category ("Tech/Programming") becomes the tab group:
+ * the category itself, its top-level parent, or the parent until it holds more than
+ * `groupSplitThreshold` tabs and is then split into child groups.
+ */
+export type GroupingLevel = "leaf" | "parent" | "adaptive";
+
+/** How tabs are bucketed into groups; "category" is the resolved category, the rest bypass it. */
+export type GroupingStrategyId = "category" | "channel" | "playlist" | "recency" | "duration" | "language";
+
+/** How YouTube Music tabs are grouped; "category" groups them like any other video. */
+export type MusicGroupingMode = "category" | "artist" | "album" | "playlist";
+
+/** Video sites with a site adapter (see `src/shared/sites.ts`). */
+export type SiteId = "youtube" | "vimeo" | "twitch";
+
+export type EnabledSites = Record<SiteId, boolean>;
+
+/** Kind of page a URL opens on a supported site (see `parseSiteUrl`). */
+export type PageKind =
+  | "watch"
+  | "shorts"
+  | "live"
+  | "channel"
+  | "search"
+  | "playlist"
+  | "home"
+  | "music"
+  | "other";
+
+/**
+ * What grouping does on a page kind: "classify" resolves a category from the page's metadata,
+ * "channel"/"query"/"playlist" group by the channel, search query or playlist, "ignore" leaves it alone.
+ */
+export type PageKindPolicy = "classify" | "channel" | "query" | "playlist" | "ignore";
+
+export type PageKindPolicies = Record<PageKind, PageKindPolicy>;
+
+/** What a site adapter reads from a page URL. */
+export interface ParsedSiteUrl {
+  site: SiteId;
+  kind: PageKind;
+  /** Site-specific video id; empty on pages that are not about one video. */
+  videoId: string;
+  /** Playlist, showcase or collection id; empty when none. */
+  playlistId: string;
+  /** Channel page key: YouTube "@handle"/"UC…" id, Vimeo user or channel name, Twitch login. */
+  channel: string;
+  /** Search page query; empty elsewhere. */
+  searchQuery: string;
+}
+
+/** Videos that can be routed away from normal classification via `videoTypeRouting`. */
+export type VideoType = "short" | "live" | "upcoming";
+
+/** "classify" groups like any video, "group" sends the tab to `group`, "skip" leaves it ungrouped. */
+export type VideoTypeAction = "classify" | "group" | "skip";
+
+export interface VideoTypeRoute {
+  action: VideoTypeAction;
+  group: string;
+}
+
+export type VideoTypeRouting = Record<VideoType, VideoTypeRoute>;
+
+export interface CategoryRuleCondition {
+  field: CategoryRuleField;
+  operator: CategoryRuleOperator;
+  value: string;
+}
+
+export interface CategoryRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: CategoryRuleMatch;
+  conditions: CategoryRuleCondition[];
+  category: string;
+}
 
 export interface Settings {
   autoGroupDelay: number;
   autoGroupDelayMs: number;
   autoCleanupGraceMs: number;
   allowedHashtags: string[];
+  hashtagCategoryMap: HashtagCategoryMap;
   channelCategoryMap: ChannelCategoryMap;
   extensionEnabled: boolean;
   enabledColors: Record<string, boolean>;
   autoCleanupEnabled: boolean;
   aiCategoryDetection: boolean;
   categoryKeywords: CategoryKeywordsMap;
+  keywordFieldWeights: KeywordFieldWeights;
+  minKeywordConfidence: number;
+  reviewCategory: string;
+  learningEnabled: boolean;
+  youtubeCategoryMap: YouTubeCategoryMap;
+  categoryRules: CategoryRule[];
+  categoryRulesMode: CategoryRulesMode;
+  groupingLevel: GroupingLevel;
+  groupSplitThreshold: number;
+  groupingStrategy: GroupingStrategyId;
+  groupPlaylists: boolean;
+  videoTypeRouting: VideoTypeRouting;
+  pageKindPolicies: PageKindPolicies;
+  musicGrouping: MusicGroupingMode;
+  enabledSites: EnabledSites;
+  regroupOnNavigation: boolean;
+  /** A group key keeps one color in every window; off picks a color per window, avoiding its neighbors. */
+  sameColorAcrossWindows: boolean;
   debugLogging?: boolean;
   version?: number;
 }
@@ -64,9 +237,169 @@ export interface GroupingStats {
   version?: number;
 }
 
+export interface LearnedCategoryStats {
+  /** Explicit choices recorded for this category. */
+  examples: number;
+  /** Sum of all token counts, the naive Bayes denominator. */
+  tokenTotal: number;
+  tokens: Record<string, number>;
+}
+
+export interface LearnedModel {
+  version: number;
+  examples: number;
+  categories: Record<string, LearnedCategoryStats>;
+  updatedAt: number;
+}
+
+export interface LearnedPrediction {
+  category: string;
+  probability: number;
+}
+
+/**
+ * Tab group colors and ids, keyed by "<windowId>:<groupKey>".
+ */
 export interface GroupingState {
+  /** Keyed by "<windowId>:<groupKey>" from version 2 on, by bare group key before. */
   groupColorMap: Record<string, string>;
   groupIdMap: Record<string, number>;
+  /** Last color of each group key, kept after its groups close so a reopened group gets it back. */
+  categoryColorMap: Record<string, string>;
+  version: number;
+}
+
+/**
+ * Tab parked in the review category because keyword scoring was not confident enough.
+ */
+export interface ReviewItem {
+  tabId: number;
+  title: string;
+  url: string;
+  /** Best-scoring keyword categories, most likely first. */
+  candidates: string[];
+  confidence: number | null;
+  addedAt: number;
+}
+
+/**
+ * Metadata remembered for one video so it can be classified again without asking its tab.
+ */
+export interface MetadataCacheEntry {
+  metadata: Metadata;
+  storedAt: number;
+}
+
+/**
+ * How the extension last grouped a tab, used to regroup it when its video changes.
+ */
+export interface TabPlacement {
+  /** Video id (per `parseSiteUrl`) the tab showed when grouped; empty for pages without one. */
+  videoId: string;
+  groupId: number;
+  /** Grouped by an explicit category choice; such tabs are never moved automatically. */
+  manual: boolean;
+}
+
+/** Metadata fields whose extraction strategies are tracked for diagnostics. */
+export type ExtractionField =
+  | "title"
+  | "channel"
+  | "channelId"
+  | "channelHandle"
+  | "description"
+  | "keywords"
+  | "uploadDate"
+  | "durationSeconds"
+  | "language"
+  | "youtubeCategory";
+
+/**
+ * Strategy id that supplied each field on one page ("selector:<css>", "jsonLd", ...); "" when every
+ * strategy came up empty, null when the page legitimately has no such field (a channel without a
+ * handle, the length of a live stream).
+ */
+export type ExtractionReport = Partial<Record<ExtractionField, string | null>>;
+
+export interface ExtractionReportRequest {
+  site: SiteId;
+  fields: ExtractionReport;
+}
+
+/**
+ * Running extraction results for one field on one site.
+ */
+export interface FieldExtractionHealth {
+  /** Pages the field was extracted on, excluding pages where it did not apply. */
+  attempts: number;
+  /** Pages some strategy supplied it on. */
+  successes: number;
+  /** Successes per strategy id. */
+  strategies: Record<string, number>;
+  /** Pages that legitimately lacked the field; not counted in the success rate. */
+  notApplicable: number;
+  lastFailureAt: number | null;
+}
+
+/** Extraction health keyed by "<site>:<field>". */
+export type ExtractionHealth = Record<string, FieldExtractionHealth>;
+
+export type CategoryDecisionStep =
+  | "rule"
+  | "channelMap"
+  | "override"
+  | "learned"
+  | "hashtag"
+  | "keywords"
+  | "youtubeCategory"
+  | "siteCategory"
+  | "review"
+  | "fallback";
+
+export interface KeywordScore {
+  category: string;
+  score: number;
+  matchedTerms: string[];
+  negativeTerms: string[];
+  vetoedBy: string | null;
+}
+
+export interface CategoryTrace {
+  step: CategoryDecisionStep;
+  rule: { id: string; name: string } | null;
+  rulesMode: CategoryRulesMode;
+  channelKey: string;
+  channelMatched: boolean;
+  override: string;
+  /** Local classifier's guess; null when disabled, untrained, or unsure. */
+  learned: LearnedPrediction | null;
+  hashtags: string[];
+  matchedHashtag: string;
+  aiEnabled: boolean;
+  keywordScores: KeywordScore[];
+  /** Keyword winner's confidence in [0, 1); null when no category scored. */
+  confidence: number | null;
+  minConfidence: number;
+  youtubeCategory: string | number | null;
+  youtubeCategoryId: string | null;
+  youtubeMappedCategory: string;
+  site: SiteId;
+  /** The site's own category label and the extension category its adapter maps it to. */
+  siteCategory: string;
+  siteMappedCategory: string;
+}
+
+export interface CategoryDecision {
+  category: string;
+  trace: CategoryTrace;
+}
+
+export interface ExplainCategoryResponse {
+  success: boolean;
+  category?: string;
+  trace?: CategoryTrace;
+  metadata?: Metadata;
+  error?: string;
 }
 
 export type StoredSettings = Settings;
@@ -0,0 +1,64 @@
+import type { ParsedSiteUrl } from "./types";
+
+/** Match patterns for vimeo.com pages (tabs.query, context menus). */
+export const VIMEO_URL_PATTERNS: readonly string[] = ["https://vimeo.com/*", "https://www.vimeo.com/*"];
+
+const HOSTS = new Set(["vimeo.com", "www.vimeo.com"]);
+
+/** First path segments that are Vimeo's own pages rather than a user profile. */
+const RESERVED_SECTIONS = new Set([
+  "about",
+  "blog",
+  "categories",
+  "create",
+  "features",
+  "help",
+  "join",
+  "log_in",
+  "manage",
+  "ondemand",
+  "settings",
+  "stock",
+  "upload",
+  "watch"
+]);
+
+const isVideoId = (value: string | undefined) => Boolean(value && /^\d+$/.test(value));
+
+/**
+ * Page kind of a vimeo.com URL; null for anything else. Numeric paths (including unlisted
+ * "/<id>/<hash>" links and videos opened inside a channel or group) are watch pages.
+ */
+export function parseVimeoUrl(url: string | undefined): ParsedSiteUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url || "");
+  } catch {
+    return null;
+  }
+  if (!HOSTS.has(parsed.hostname.toLowerCase()) || (parsed.protocol !== "https:" && parsed.protocol !== "http:")) {
+    return null;
+  }
+
+  const [section = "", id = "", nested = "", nestedId = ""] = parsed.pathname.split("/").filter(Boolean);
+  const base: ParsedSiteUrl = { site: "vimeo", kind: "other", videoId: "", playlistId: "", channel: "", searchQuery: "" };
+
+  if (!section) return { ...base, kind: "home" };
+  if (isVideoId(section)) return { ...base, kind: "watch", videoId: section };
+  if (section === "channels" && isVideoId(nested)) return { ...base, kind: "watch", videoId: nested, channel: id.toLowerCase() };
+  if (section === "groups" && nested === "videos" && isVideoId(nestedId)) return { ...base, kind: "watch", videoId: nestedId };
+  if (section === "channels" && id) return { ...base, kind: "channel", channel: id.toLowerCase() };
+  if ((section === "showcase" || section === "album") && id) return { ...base, kind: "playlist", playlistId: id };
+  if (section === "search") return { ...base, kind: "search", searchQuery: parsed.searchParams.get("q")?.trim() || "" };
+  if (!RESERVED_SECTIONS.has(section) && /^[\w-]+$/.test(section)) {
+    return { ...base, kind: "channel", channel: section.toLowerCase() };
+  }
+  return base;
+}
+
+/**
+ * Page title without Vimeo's " on Vimeo" suffix.
+ */
+export function stripVimeoTitle(title: string | undefined): string {
+  return (title || "").replace(/\s+(?:on|-|\|)\s+Vimeo$/, "").trim();
+}
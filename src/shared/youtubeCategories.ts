@@ -0,0 +1,113 @@
+export interface YouTubeCategoryInfo {
+  id: string;
+  name: string;
+  aliases?: string[];
+}
+
+/**
+ * YouTube's video category ids (videoCategories.list) with their English names.
+ * Ids are stable across locales; names are only used to recognize textual category values.
+ */
+export const YOUTUBE_CATEGORIES: readonly YouTubeCategoryInfo[] = [
+  { id: "1", name: "Film & Animation" },
+  { id: "2", name: "Autos & Vehicles", aliases: ["Autos", "Cars & Vehicles"] },
+  { id: "10", name: "Music" },
+  { id: "15", name: "Pets & Animals" },
+  { id: "17", name: "Sports" },
+  { id: "18", name: "Short Movies" },
+  { id: "19", name: "Travel & Events" },
+  { id: "20", name: "Gaming" },
+  { id: "21", name: "Videoblogging" },
+  { id: "22", name: "People & Blogs" },
+  { id: "23", name: "Comedy" },
+  { id: "24", name: "Entertainment" },
+  { id: "25", name: "News & Politics" },
+  { id: "26", name: "Howto & Style", aliases: ["How-to & Style", "How to & Style"] },
+  { id: "27", name: "Education" },
+  { id: "28", name: "Science & Technology", aliases: ["Science & Tech"] },
+  { id: "29", name: "Nonprofits & Activism" },
+  { id: "30", name: "Movies" },
+  { id: "31", name: "Anime/Animation" },
+  { id: "32", name: "Action/Adventure" },
+  { id: "33", name: "Classics" },
+  { id: "34", name: "Comedy (Movies)" },
+  { id: "35", name: "Documentary" },
+  { id: "36", name: "Drama" },
+  { id: "37", name: "Family" },
+  { id: "38", name: "Foreign" },
+  { id: "39", name: "Horror" },
+  { id: "40", name: "Sci-Fi/Fantasy" },
+  { id: "41", name: "Thriller" },
+  { id: "42", name: "Shorts" },
+  { id: "43", name: "Shows" },
+  { id: "44", name: "Trailers" }
+];
+
+/**
+ * Built-in YouTube category id -> extension category mapping. Ids without an entry stay unmapped.
+ */
+export const DEFAULT_YOUTUBE_CATEGORY_MAP: Record<string, string> = {
+  "1": "Entertainment",
+  "2": "Tech",
+  "10": "Music",
+  "15": "Entertainment",
+  "17": "Fitness",
+  "19": "Entertainment",
+  "20": "Gaming",
+  "22": "Entertainment",
+  "23": "Entertainment",
+  "24": "Entertainment",
+  "25": "News",
+  "26": "Education",
+  "27": "Education",
+  "28": "Tech",
+  "29": "News",
+  "30": "Entertainment",
+  "44": "Entertainment"
+};
+
+/**
+ * Fold case, diacritics, "&"/"and" and punctuation so "Science and technology" matches "Science & Technology".
+ */
+const toLookupKey = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const CATEGORY_IDS = new Set(YOUTUBE_CATEGORIES.map((category) => category.id));
+
+const CATEGORY_IDS_BY_NAME = YOUTUBE_CATEGORIES.reduce<Map<string, string>>((map, category) => {
+  for (const name of [category.name, ...(category.aliases || [])]) {
+    const key = toLookupKey(name);
+    // First entry wins so "Comedy" resolves to the video category (23), not the movie one (34).
+    if (!map.has(key)) map.set(key, category.id);
+  }
+  return map;
+}, new Map());
+
+/**
+ * Resolve a numeric id, numeric string, or category name to a known YouTube category id.
+ */
+export function resolveYouTubeCategoryId(value: unknown): string | null {
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return CATEGORY_IDS.has(String(value)) ? String(value) : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) {
+    const id = String(Number(trimmed));
+    return CATEGORY_IDS.has(id) ? id : null;
+  }
+
+  return CATEGORY_IDS_BY_NAME.get(toLookupKey(trimmed)) ?? null;
+}
+
+export function getYouTubeCategoryName(id: string): string {
+  return YOUTUBE_CATEGORIES.find((category) => category.id === id)?.name ?? "";
+}
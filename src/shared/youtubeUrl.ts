@@ -0,0 +1,114 @@
+import type { ParsedSiteUrl } from "./types";
+
+/** Which YouTube front end served the URL. */
+export type YouTubeHost = "www" | "mobile" | "music" | "short-link" | "nocookie";
+
+/**
+ * `videoId` is the 11-character video id, `playlistId` the `list=` parameter and `channel` an "@handle"
+ * (lowercase), "UC…" id, or a legacy /c/ or /user/ name.
+ */
+export interface ParsedYouTubeUrl extends ParsedSiteUrl {
+  site: "youtube";
+  host: YouTubeHost;
+}
+
+/** Match patterns for every host the parser recognizes (tabs.query, context menus). */
+export const YOUTUBE_URL_PATTERNS: readonly string[] = [
+  "https://www.youtube.com/*",
+  "https://youtube.com/*",
+  "https://m.youtube.com/*",
+  "https://music.youtube.com/*",
+  "https://youtu.be/*",
+  "https://www.youtube-nocookie.com/*"
+];
+
+const HOSTS: Record<string, YouTubeHost> = {
+  "www.youtube.com": "www",
+  "youtube.com": "www",
+  "m.youtube.com": "mobile",
+  "music.youtube.com": "music",
+  "youtu.be": "short-link",
+  "www.youtube-nocookie.com": "nocookie",
+  "youtube-nocookie.com": "nocookie"
+};
+
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+
+const toVideoId = (value: string | null | undefined) => (value && VIDEO_ID_PATTERN.test(value) ? value : "");
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Page kind and ids from the path of a www/m.youtube.com URL.
+ */
+function parseSitePath(
+  segments: string[],
+  params: URLSearchParams
+): Omit<ParsedYouTubeUrl, "site" | "host" | "playlistId"> {
+  const [section = "", id = ""] = segments;
+  const empty = { videoId: "", channel: "", searchQuery: "" };
+
+  if (!section) return { ...empty, kind: "home" };
+  if (section === "watch" && toVideoId(params.get("v"))) return { ...empty, kind: "watch", videoId: toVideoId(params.get("v")) };
+  if (section === "embed" && toVideoId(id)) return { ...empty, kind: "watch", videoId: id };
+  if (section === "shorts" && toVideoId(id)) return { ...empty, kind: "shorts", videoId: id };
+  if (section === "live" && toVideoId(id)) return { ...empty, kind: "live", videoId: id };
+  if (section === "results") return { ...empty, kind: "search", searchQuery: params.get("search_query")?.trim() || "" };
+  if (section === "playlist" && params.get("list")) return { ...empty, kind: "playlist" };
+  if (section.startsWith("@")) return { ...empty, kind: "channel", channel: decodeSegment(section).toLowerCase() };
+  if (section === "channel" && /^UC[\w-]{22}$/.test(id)) return { ...empty, kind: "channel", channel: id };
+  if ((section === "c" || section === "user") && id) return { ...empty, kind: "channel", channel: decodeSegment(id) };
+  return { ...empty, kind: "other" };
+}
+
+/**
+ * Host and page kind of a YouTube URL; null for anything that is not YouTube. youtu.be links and
+ * nocookie embeds count as watch pages; every music.youtube.com page is "music".
+ */
+export function parseYouTubeUrl(url: string | undefined): ParsedYouTubeUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url || "");
+  } catch {
+    return null;
+  }
+
+  const host = HOSTS[parsed.hostname.toLowerCase()];
+  if (!host || (parsed.protocol !== "https:" && parsed.protocol !== "http:")) return null;
+
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const params = parsed.searchParams;
+  const playlistId = params.get("list")?.trim() || "";
+  const base = { site: "youtube" as const, host, playlistId, videoId: "", channel: "", searchQuery: "" };
+
+  switch (host) {
+    case "short-link": {
+      const videoId = toVideoId(segments[0]);
+      return { ...base, kind: videoId ? "watch" : "other", videoId };
+    }
+    case "nocookie": {
+      const videoId = segments[0] === "embed" ? toVideoId(segments[1]) : "";
+      return { ...base, kind: videoId ? "watch" : "other", videoId };
+    }
+    case "music":
+      return { ...base, kind: "music", videoId: toVideoId(params.get("v")) };
+    default:
+      return { ...base, ...parseSitePath(segments, params) };
+  }
+}
+
+/**
+ * Page title without YouTube's " - YouTube" suffix and "(3) " notification count.
+ */
+export function stripYouTubeTitle(title: string | undefined): string {
+  return (title || "")
+    .replace(/^\(\d+\+?\)\s*/, "")
+    .replace(/\s+-\s+YouTube(?: Music)?$/, "")
+    .trim();
+}
@@ -1,21 +1,84 @@
 import {
   AVAILABLE_COLORS,
+  RULE_FIELDS,
+  RULE_OPERATORS,
+  DEFAULT_KEYWORD_FIELD_WEIGHTS,
+  KEYWORD_FIELDS,
+  formatKeywordList,
+  isValidRulePattern,
+  parseKeywordList,
   withSettingsDefaults,
+  DEFAULT_SETTINGS,
+  GROUPING_LEVELS,
+  VIDEO_TYPES,
+  VIDEO_TYPE_ACTIONS,
+  VIDEO_TYPE_LABELS,
+  MUSIC_GROUPING_MODES,
+  PAGE_KINDS,
+  PAGE_KIND_LABELS,
+  PAGE_KIND_POLICY_LABELS,
+  PAGE_KIND_POLICY_OPTIONS,
+  isGroupingStrategyId,
   getSettings,
   resetSettings,
   updateSettings
 } from "../../src/shared/settings";
-import type { Settings } from "../../src/shared/types";
+import { YOUTUBE_CATEGORIES } from "../../src/shared/youtubeCategories";
+import { SITE_DEFINITIONS, SITE_IDS, isSiteId } from "../../src/shared/sites";
+import { getCategorySegments, getParentCategory, isCategoryWithin, normalizeCategoryPath } from "../../src/shared/categoryHierarchy";
+import { CHANNEL_KEY_TYPES, createChannelMapping, findChannelMapping, toChannelMapKey } from "../../src/shared/channelMap";
+import {
+  mergeChannelImport,
+  parseSubscriptionsCsv,
+  previewChannelImport,
+  toSubscriptionMappings
+} from "../../src/shared/subscriptionsImport";
+import type { ChannelImportPreview, TakeoutSubscription } from "../../src/shared/subscriptionsImport";
+import {
+  getLearnedModel,
+  resetLearnedModel,
+  saveLearnedModel,
+  withLearnedModelDefaults
+} from "../../src/shared/learningModel";
+import type {
+  CategoryKeywordsMap,
+  ChannelCategoryMap,
+  ChannelKeyType,
+  ChannelMapping,
+  CategoryRule,
+  CategoryRuleCondition,
+  CategoryRuleField,
+  CategoryRuleOperator,
+  CategoryRulesMode,
+  EnabledSites,
+  GroupingLevel,
+  GroupingStrategyId,
+  KeywordFieldWeights,
+  LearnedModel,
+  MusicGroupingMode,
+  PageKind,
+  PageKindPolicies,
+  PageKindPolicy,
+  Settings,
+  VideoType,
+  VideoTypeAction,
+  VideoTypeRouting
+} from "../../src/shared/types";
 
 /**
  * YouTube Tab Grouper - Settings Page
  * 
  * Manages user preferences:
- * - General settings (enable/disable, delays)
+ * - General settings (enable/disable, delays, grouping strategy, nested category grouping level)
+ * - Enabled sites (YouTube, Vimeo, Twitch)
+ * - Per page kind policies (videos, channels, search, playlists, home) and Shorts/live/premiere routing
  * - Color preferences
- * - Category keywords
- * - Hashtag whitelist
- * - Channel-to-category mappings
+ * - Category keywords (including Parent/Child subcategories) and per-field keyword weights
+ * - Learning model (enable, reset, export/import)
+ * - YouTube category mapping
+ * - Category rules
+ * - Hashtag whitelist and hashtag-to-category mappings
+ * - Channel-to-category mappings, including bulk import from a Takeout subscriptions.csv
  * - Import/export functionality
  */
 
@@ -25,6 +88,9 @@ const COLOR_HEX = {
     green: "#34a853", pink: "#f538a0", purple: "#a142f4", cyan: "#24c6eb"
 };
 
+/** Why a save failed, for the status line (e.g. a storage quota error). */
+const toErrorMessage = (error: unknown) => (error instanceof Error && error.message ? error.message : "Unknown error");
+
 // ============================================================================
 // DOM ELEMENTS
 // ============================================================================
@@ -33,11 +99,47 @@ const extensionEnabledCheckbox = document.getElementById("extensionEnabled");
 const aiCategoryDetectionCheckbox = document.getElementById("aiCategoryDetection");
 const autoCleanupEnabledCheckbox = document.getElementById("autoCleanupEnabled");
 const autoGroupDelayInput = document.getElementById("autoGroupDelay");
+const groupingStrategySelect = document.getElementById("groupingStrategy");
+const groupPlaylistsCheckbox = document.getElementById("groupPlaylists");
+const regroupOnNavigationCheckbox = document.getElementById("regroupOnNavigation");
+const musicGroupingSelect = document.getElementById("musicGrouping");
+const groupingLevelSelect = document.getElementById("groupingLevel");
+const groupSplitThresholdInput = document.getElementById("groupSplitThreshold");
+const videoTypeRoutingContainer = document.getElementById("videoTypeRouting");
+const pageKindPoliciesContainer = document.getElementById("pageKindPolicies");
+const enabledSitesContainer = document.getElementById("enabledSites");
 const allowedHashtagsTextarea = document.getElementById("allowedHashtags");
+const hashtagMappingsContainer = document.getElementById("hashtagMappings");
+const addHashtagMappingBtn = document.getElementById("addHashtagMappingBtn");
 const colorTogglesContainer = document.getElementById("colorToggles");
+const sameColorAcrossWindowsCheckbox = document.getElementById("sameColorAcrossWindows");
 const keywordsEditorContainer = document.getElementById("keywordsEditor");
+const newCategoryNameInput = document.getElementById("newCategoryName");
+const addCategoryBtn = document.getElementById("addCategoryBtn");
+const minKeywordConfidenceInput = document.getElementById("minKeywordConfidence");
+const reviewCategoryInput = document.getElementById("reviewCategory");
+const learningEnabledCheckbox = document.getElementById("learningEnabled");
+const learningSummaryEl = document.getElementById("learningSummary");
+const resetModelBtn = document.getElementById("resetModelBtn");
+const exportModelBtn = document.getElementById("exportModelBtn");
+const importModelBtn = document.getElementById("importModelBtn");
+const youtubeCategoryMappingsContainer = document.getElementById("youtubeCategoryMappings");
+const categoryRulesContainer = document.getElementById("categoryRules");
+const categoryRulesModeSelect = document.getElementById("categoryRulesMode");
+const addRuleBtn = document.getElementById("addRuleBtn");
 const channelMappingsContainer = document.getElementById("channelMappings");
 const addMappingBtn = document.getElementById("addMappingBtn");
+const importSubscriptionsBtn = document.getElementById("importSubscriptionsBtn");
+const subscriptionImportPanel = document.getElementById("subscriptionImport");
+const subscriptionFilterInput = document.getElementById("subscriptionFilter");
+const subscriptionCategorySelect = document.getElementById("subscriptionCategory");
+const assignSubscriptionsBtn = document.getElementById("assignSubscriptionsBtn");
+const subscriptionSelectAll = document.getElementById("subscriptionSelectAll");
+const subscriptionRowsBody = document.getElementById("subscriptionRows");
+const subscriptionPreviewEl = document.getElementById("subscriptionPreview");
+const subscriptionOverwriteCheckbox = document.getElementById("subscriptionOverwrite");
+const saveSubscriptionsBtn = document.getElementById("saveSubscriptionsBtn");
+const cancelSubscriptionsBtn = document.getElementById("cancelSubscriptionsBtn");
 const saveBtn = document.getElementById("saveBtn");
 const resetBtn = document.getElementById("resetBtn");
 const exportBtn = document.getElementById("exportBtn");
@@ -54,6 +156,18 @@ resetBtn?.addEventListener("click", () => { void handleResetSettings(); });
 exportBtn?.addEventListener("click", () => { void handleExportSettings(); });
 importBtn?.addEventListener("click", () => { void handleImportSettings(); });
 addMappingBtn?.addEventListener("click", addChannelMapping);
+importSubscriptionsBtn?.addEventListener("click", handleImportSubscriptions);
+subscriptionFilterInput?.addEventListener("input", renderSubscriptionRows);
+subscriptionSelectAll?.addEventListener("change", handleSelectAllSubscriptions);
+assignSubscriptionsBtn?.addEventListener("click", handleAssignSubscriptions);
+saveSubscriptionsBtn?.addEventListener("click", () => { void handleSaveSubscriptions(); });
+cancelSubscriptionsBtn?.addEventListener("click", closeSubscriptionImport);
+addRuleBtn?.addEventListener("click", addCategoryRule);
+addCategoryBtn?.addEventListener("click", addCategory);
+addHashtagMappingBtn?.addEventListener("click", addHashtagMapping);
+resetModelBtn?.addEventListener("click", () => { void handleResetModel(); });
+exportModelBtn?.addEventListener("click", () => { void handleExportModel(); });
+importModelBtn?.addEventListener("click", handleImportModel);
 
 // ============================================================================
 // INITIALIZATION
@@ -76,22 +190,138 @@ async function initializeSettings() {
   if (cleanupEl) cleanupEl.checked = settings.autoCleanupEnabled !== false;
   if (delayEl) delayEl.value = String(settings.autoGroupDelay || 2500);
 
+  const groupingStrategyEl = groupingStrategySelect as HTMLSelectElement | null;
+  if (groupingStrategyEl) groupingStrategyEl.value = settings.groupingStrategy || "category";
+  const groupPlaylistsEl = groupPlaylistsCheckbox as HTMLInputElement | null;
+  if (groupPlaylistsEl) groupPlaylistsEl.checked = settings.groupPlaylists === true;
+  const regroupEl = regroupOnNavigationCheckbox as HTMLInputElement | null;
+  if (regroupEl) regroupEl.checked = settings.regroupOnNavigation !== false;
+  const sameColorEl = sameColorAcrossWindowsCheckbox as HTMLInputElement | null;
+  if (sameColorEl) sameColorEl.checked = settings.sameColorAcrossWindows !== false;
+  const musicGroupingEl = musicGroupingSelect as HTMLSelectElement | null;
+  if (musicGroupingEl) musicGroupingEl.value = settings.musicGrouping || "artist";
+
+  const groupingLevelEl = groupingLevelSelect as HTMLSelectElement | null;
+  const splitThresholdEl = groupSplitThresholdInput as HTMLInputElement | null;
+  if (groupingLevelEl) groupingLevelEl.value = settings.groupingLevel || "leaf";
+  if (splitThresholdEl) splitThresholdEl.value = String(settings.groupSplitThreshold);
+  displayEnabledSites(settings.enabledSites);
+  displayPageKindPolicies(settings.pageKindPolicies);
+  displayVideoTypeRouting(settings.videoTypeRouting);
+
     // Load hashtags
   const hashtagsEl = allowedHashtagsTextarea as HTMLTextAreaElement | null;
   if (hashtagsEl) {
     hashtagsEl.value = (settings.allowedHashtags || []).join(", ");
   }
+  displayHashtagMappings(settings.hashtagCategoryMap || {});
 
     // Load color toggles
   displayColorToggles(settings.enabledColors);
 
     // Load category keywords
   displayCategoryKeywords(settings.categoryKeywords);
+  displayKeywordFieldWeights(settings.keywordFieldWeights);
+  const minConfidenceEl = minKeywordConfidenceInput as HTMLInputElement | null;
+  const reviewCategoryEl = reviewCategoryInput as HTMLInputElement | null;
+  if (minConfidenceEl) minConfidenceEl.value = String(settings.minKeywordConfidence);
+  if (reviewCategoryEl) reviewCategoryEl.value = settings.reviewCategory;
+
+    // Load learning model state
+  const learningEl = learningEnabledCheckbox as HTMLInputElement | null;
+  if (learningEl) learningEl.checked = settings.learningEnabled !== false;
+  displayLearningSummary(await getLearnedModel());
+
+    // Load YouTube category mapping
+  displayYouTubeCategoryMappings(settings.youtubeCategoryMap || {});
+
+    // Load category rules
+  const rulesModeEl = categoryRulesModeSelect as HTMLSelectElement | null;
+  if (rulesModeEl) rulesModeEl.value = settings.categoryRulesMode || "before";
+  displayCategoryRules(settings.categoryRules || []);
 
     // Load channel mappings
+  knownCategories = [...new Set([...Object.keys(settings.categoryKeywords || {}), "Other"])];
   displayChannelMappings(settings.channelCategoryMap || {});
 }
 
+// ============================================================================
+// HASHTAG MAPPING
+// ============================================================================
+
+/**
+ * Display hashtag-to-category mappings
+ */
+function displayHashtagMappings(hashtagMap: Record<string, string>) {
+  if (!hashtagMappingsContainer) {
+    console.warn("hashtagMappingsContainer not found");
+    return;
+  }
+
+  hashtagMappingsContainer.innerHTML = "";
+
+  Object.entries(hashtagMap).forEach(([hashtag, category]) => {
+    hashtagMappingsContainer.appendChild(createHashtagMappingElement(hashtag, category));
+  });
+}
+
+/**
+ * Create a single hashtag mapping row
+ */
+function createHashtagMappingElement(hashtag: string, category: string) {
+  const div = document.createElement("div");
+  div.className = "mapping-item hashtag-mapping-item";
+
+  const hashtagInput = document.createElement("input");
+  hashtagInput.type = "text";
+  hashtagInput.className = "channel-input hashtag-input";
+  hashtagInput.value = hashtag ? `#${hashtag}` : "";
+  hashtagInput.placeholder = "#hashtag";
+
+  const categoryInput = document.createElement("input");
+  categoryInput.type = "text";
+  categoryInput.className = "channel-input hashtag-category-input";
+  categoryInput.value = category;
+  categoryInput.placeholder = "Category";
+
+  const deleteBtn = document.createElement("button");
+  deleteBtn.className = "btn-delete";
+  deleteBtn.title = "Delete";
+  deleteBtn.type = "button";
+  deleteBtn.addEventListener("click", () => div.remove());
+
+  div.appendChild(hashtagInput);
+  div.appendChild(categoryInput);
+  div.appendChild(deleteBtn);
+
+  return div;
+}
+
+/**
+ * Add new hashtag mapping row
+ */
+function addHashtagMapping() {
+  hashtagMappingsContainer?.appendChild(createHashtagMappingElement("", ""));
+}
+
+/**
+ * Collect hashtag mappings from UI; keys are normalized by withSettingsDefaults
+ */
+function getHashtagMappingsFromUI() {
+  const mappings: Record<string, string> = {};
+
+  document.querySelectorAll(".hashtag-mapping-item").forEach((item) => {
+    const hashtag = item.querySelector<HTMLInputElement>(".hashtag-input")?.value.trim() || "";
+    const category = item.querySelector<HTMLInputElement>(".hashtag-category-input")?.value.trim() || "";
+
+    if (hashtag && category) {
+      mappings[hashtag] = category;
+    }
+  });
+
+  return mappings;
+}
+
 // ============================================================================
 // COLOR SETTINGS
 // ============================================================================
@@ -146,7 +376,7 @@ function getEnabledColorsFromUI() {
  * Display category keywords editor
  *  NEW: Allows users to customize keywords
  */
-function displayCategoryKeywords(categoryKeywords: Record<string, string[]>) {
+function displayCategoryKeywords(categoryKeywords: CategoryKeywordsMap) {
   if (!keywordsEditorContainer) {
     console.warn("keywordsEditorContainer not found");
     return;
@@ -155,50 +385,571 @@ function displayCategoryKeywords(categoryKeywords: Record<string, string[]>) {
   keywordsEditorContainer.innerHTML = "";
 
   Object.entries(categoryKeywords).forEach(([category, keywords]) => {
-    const section = document.createElement("div");
-    section.className = "keyword-section";
+    keywordsEditorContainer.appendChild(createKeywordSection(category, formatKeywordList(keywords)));
+  });
+}
 
-    const label = document.createElement("label");
-    label.className = "keyword-label";
-    label.textContent = category;
+/**
+ * Create a keyword editor for one category; subcategories are indented by depth.
+ * Built-in categories cannot be deleted because settings normalization restores them.
+ */
+function createKeywordSection(category: string, keywordText: string) {
+  const section = document.createElement("div");
+  section.className = "keyword-section";
+  section.dataset.depth = String(Math.min(getCategorySegments(category).length, 3));
+
+  const label = document.createElement("label");
+  label.className = "keyword-label";
+  label.textContent = category;
+
+  if (!DEFAULT_SETTINGS.categoryKeywords[category]) {
+    const deleteBtn = document.createElement("button");
+    deleteBtn.className = "btn-delete";
+    deleteBtn.title = "Delete category";
+    deleteBtn.type = "button";
+    deleteBtn.addEventListener("click", () => section.remove());
+    label.appendChild(deleteBtn);
+  }
 
-    const textarea = document.createElement("textarea");
-    textarea.className = "keyword-textarea";
-    textarea.placeholder = "Enter keywords separated by commas";
-    textarea.value = keywords.join(", ");
-    textarea.dataset.category = category;
+  const textarea = document.createElement("textarea");
+  textarea.className = "keyword-textarea";
+  textarea.placeholder = "keyword, phrase:2, -negative, !veto";
+  textarea.value = keywordText;
+  textarea.dataset.category = category;
 
-    section.appendChild(label);
-    section.appendChild(textarea);
+  section.appendChild(label);
+  section.appendChild(textarea);
+  return section;
+}
+
+/**
+ * Add an empty category editor, placed after its parent's existing subcategories
+ */
+function addCategory() {
+  if (!keywordsEditorContainer) return;
+  const input = newCategoryNameInput as HTMLInputElement | null;
+  const category = normalizeCategoryPath(input?.value);
+  if (!category) {
+    showStatus("Enter a category name", "error");
+    return;
+  }
+
+  const textareas = Array.from(document.querySelectorAll<HTMLTextAreaElement>(".keyword-textarea"));
+  if (textareas.some((textarea) => textarea.dataset.category === category)) {
+    showStatus(`Category "${category}" already exists`, "error");
+    return;
+  }
+
+  const section = createKeywordSection(category, "");
+  const parent = getParentCategory(category);
+  const siblings = parent ? textareas.filter((textarea) => isCategoryWithin(textarea.dataset.category || "", parent)) : [];
+  const anchor = siblings.at(-1)?.closest(".keyword-section");
+  if (anchor) {
+    anchor.after(section);
+  } else {
     keywordsEditorContainer.appendChild(section);
+  }
+
+  if (!knownCategories.includes(category)) knownCategories.push(category);
+  if (input) input.value = "";
+  section.querySelector("textarea")?.focus();
+}
+
+/**
+ * Collect the global grouping strategy from UI
+ */
+function getGroupingStrategyFromUI(): GroupingStrategyId {
+  const value = (groupingStrategySelect as HTMLSelectElement | null)?.value;
+  return isGroupingStrategyId(value) ? value : "category";
+}
+
+/**
+ * Collect the YouTube Music grouping mode from UI
+ */
+function getMusicGroupingFromUI(): MusicGroupingMode {
+  const value = (musicGroupingSelect as HTMLSelectElement | null)?.value as MusicGroupingMode;
+  return MUSIC_GROUPING_MODES.includes(value) ? value : "artist";
+}
+
+/**
+ * Collect the nested category grouping level from UI
+ */
+function getGroupingLevelFromUI(): GroupingLevel {
+  const value = (groupingLevelSelect as HTMLSelectElement | null)?.value as GroupingLevel;
+  return GROUPING_LEVELS.includes(value) ? value : "leaf";
+}
+
+/**
+ * Display one on/off toggle per supported site
+ */
+function displayEnabledSites(enabledSites: EnabledSites) {
+  if (!enabledSitesContainer) {
+    console.warn("enabledSitesContainer not found");
+    return;
+  }
+
+  enabledSitesContainer.innerHTML = "";
+  SITE_IDS.forEach((site) => {
+    const label = document.createElement("label");
+    label.className = "setting-item site-toggle";
+
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.value = site;
+    checkbox.checked = enabledSites[site] !== false;
+
+    const span = document.createElement("span");
+    span.textContent = SITE_DEFINITIONS[site].label;
+
+    label.appendChild(checkbox);
+    label.appendChild(span);
+    enabledSitesContainer.appendChild(label);
+  });
+}
+
+/**
+ * Collect enabled sites from UI
+ */
+function getEnabledSitesFromUI(): EnabledSites {
+  const enabledSites: EnabledSites = { ...DEFAULT_SETTINGS.enabledSites };
+  document.querySelectorAll<HTMLInputElement>('.site-toggle input[type="checkbox"]').forEach((checkbox) => {
+    if (isSiteId(checkbox.value)) enabledSites[checkbox.value] = checkbox.checked;
   });
+  return enabledSites;
+}
+
+/**
+ * Display one policy select per page kind, offering only that kind's options
+ */
+function displayPageKindPolicies(policies: PageKindPolicies) {
+  if (!pageKindPoliciesContainer) {
+    console.warn("pageKindPoliciesContainer not found");
+    return;
+  }
+
+  pageKindPoliciesContainer.innerHTML = "";
+  PAGE_KINDS.forEach((kind) => {
+    const div = document.createElement("div");
+    div.className = "mapping-item page-kind-policy";
+    div.dataset.pageKind = kind;
+
+    const label = document.createElement("span");
+    label.className = "video-type-label";
+    label.textContent = PAGE_KIND_LABELS[kind];
+
+    div.appendChild(label);
+    div.appendChild(createOptionSelect("page-kind-select", PAGE_KIND_POLICY_OPTIONS[kind], PAGE_KIND_POLICY_LABELS, policies[kind]));
+    pageKindPoliciesContainer.appendChild(div);
+  });
+}
+
+/**
+ * Collect page kind policies from UI
+ */
+function getPageKindPoliciesFromUI(): PageKindPolicies {
+  const policies: PageKindPolicies = { ...DEFAULT_SETTINGS.pageKindPolicies };
+  document.querySelectorAll<HTMLElement>(".page-kind-policy").forEach((row) => {
+    const kind = row.dataset.pageKind as PageKind;
+    const policy = row.querySelector<HTMLSelectElement>(".page-kind-select")?.value as PageKindPolicy;
+    if (PAGE_KINDS.includes(kind) && PAGE_KIND_POLICY_OPTIONS[kind].includes(policy)) {
+      policies[kind] = policy;
+    }
+  });
+  return policies;
+}
+
+const VIDEO_TYPE_ACTION_LABELS: Record<VideoTypeAction, string> = {
+  classify: "Classify like other videos",
+  group: "Put in their own group",
+  skip: "Don't group"
+};
+
+/**
+ * Display one routing row per video type (Shorts, live, upcoming)
+ */
+function displayVideoTypeRouting(routing: VideoTypeRouting) {
+  if (!videoTypeRoutingContainer) {
+    console.warn("videoTypeRoutingContainer not found");
+    return;
+  }
+
+  videoTypeRoutingContainer.innerHTML = "";
+  VIDEO_TYPES.forEach((type) => {
+    const div = document.createElement("div");
+    div.className = "mapping-item video-type-route";
+    div.dataset.videoType = type;
+
+    const label = document.createElement("span");
+    label.className = "video-type-label";
+    label.textContent = VIDEO_TYPE_LABELS[type];
+
+    const actionSelect = createOptionSelect("video-type-action", VIDEO_TYPE_ACTIONS, VIDEO_TYPE_ACTION_LABELS, routing[type].action);
+
+    const groupInput = document.createElement("input");
+    groupInput.type = "text";
+    groupInput.className = "channel-input video-type-group";
+    groupInput.value = routing[type].group;
+    groupInput.placeholder = "Group name";
+    groupInput.disabled = routing[type].action !== "group";
+    actionSelect.addEventListener("change", () => {
+      groupInput.disabled = actionSelect.value !== "group";
+    });
+
+    div.appendChild(label);
+    div.appendChild(actionSelect);
+    div.appendChild(groupInput);
+    videoTypeRoutingContainer.appendChild(div);
+  });
+}
+
+/**
+ * Collect video type routing from UI; blank group names fall back to the defaults on save
+ */
+function getVideoTypeRoutingFromUI(): VideoTypeRouting {
+  const routing: VideoTypeRouting = { ...DEFAULT_SETTINGS.videoTypeRouting };
+  document.querySelectorAll<HTMLElement>(".video-type-route").forEach((row) => {
+    const type = row.dataset.videoType as VideoType;
+    if (!VIDEO_TYPES.includes(type)) return;
+    const action = row.querySelector<HTMLSelectElement>(".video-type-action")?.value as VideoTypeAction;
+    routing[type] = {
+      action: VIDEO_TYPE_ACTIONS.includes(action) ? action : "classify",
+      group: row.querySelector<HTMLInputElement>(".video-type-group")?.value.trim() || ""
+    };
+  });
+  return routing;
 }
 
 /**
  * Collect category keywords from UI
  */
 function getCategoryKeywordsFromUI() {
-  const keywords: Record<string, string[]> = {};
+  const keywords: CategoryKeywordsMap = {};
 
   document.querySelectorAll<HTMLTextAreaElement>(".keyword-textarea").forEach((textarea) => {
     const category = textarea.dataset.category || "";
-    keywords[category] = textarea.value
-      .split(",")
-      .map((k) => k.trim())
-      .filter((k) => k.length > 0);
+    keywords[category] = parseKeywordList(textarea.value);
   });
 
   return keywords;
 }
 
+/**
+ * Display how much a keyword hit counts in each metadata field
+ */
+function displayKeywordFieldWeights(fieldWeights: KeywordFieldWeights) {
+  document.querySelectorAll<HTMLInputElement>(".field-weight-input").forEach((input) => {
+    const field = input.dataset.field as keyof KeywordFieldWeights;
+    input.value = String(fieldWeights?.[field] ?? DEFAULT_KEYWORD_FIELD_WEIGHTS[field]);
+  });
+}
+
+/**
+ * Collect per-field keyword weights from UI; empty or invalid inputs fall back to defaults
+ */
+function getKeywordFieldWeightsFromUI(): KeywordFieldWeights {
+  const fieldWeights = { ...DEFAULT_KEYWORD_FIELD_WEIGHTS };
+
+  document.querySelectorAll<HTMLInputElement>(".field-weight-input").forEach((input) => {
+    const field = input.dataset.field as keyof KeywordFieldWeights;
+    const value = Number(input.value);
+    if (KEYWORD_FIELDS.includes(field) && input.value.trim() !== "" && Number.isFinite(value)) {
+      fieldWeights[field] = value;
+    }
+  });
+
+  return fieldWeights;
+}
+
+// ============================================================================
+// YOUTUBE CATEGORY MAPPING
+// ============================================================================
+
+/**
+ * Display one row per built-in YouTube category with its target category
+ */
+function displayYouTubeCategoryMappings(youtubeCategoryMap: Record<string, string>) {
+  if (!youtubeCategoryMappingsContainer) {
+    console.warn("youtubeCategoryMappingsContainer not found");
+    return;
+  }
+
+  youtubeCategoryMappingsContainer.innerHTML = "";
+
+  YOUTUBE_CATEGORIES.forEach(({ id, name }) => {
+    const div = document.createElement("div");
+    div.className = "mapping-item youtube-category-item";
+
+    const label = document.createElement("span");
+    label.className = "youtube-category-name";
+    label.textContent = name;
+
+    const idLabel = document.createElement("span");
+    idLabel.className = "youtube-category-id";
+    idLabel.textContent = `#${id}`;
+    label.appendChild(document.createTextNode(" "));
+    label.appendChild(idLabel);
+
+    const categoryInput = document.createElement("input");
+    categoryInput.type = "text";
+    categoryInput.className = "channel-input youtube-category-input";
+    categoryInput.dataset.youtubeCategoryId = id;
+    categoryInput.value = youtubeCategoryMap[id] || "";
+    categoryInput.placeholder = "(not mapped)";
+
+    div.appendChild(label);
+    div.appendChild(categoryInput);
+    youtubeCategoryMappingsContainer.appendChild(div);
+  });
+}
+
+/**
+ * Collect YouTube category mapping; empty inputs are kept so built-in entries stay unmapped
+ */
+function getYouTubeCategoryMappingsFromUI() {
+  const mappings: Record<string, string> = {};
+
+  document.querySelectorAll<HTMLInputElement>(".youtube-category-input").forEach((input) => {
+    const id = input.dataset.youtubeCategoryId || "";
+    if (id) {
+      mappings[id] = input.value.trim();
+    }
+  });
+
+  return mappings;
+}
+
+// ============================================================================
+// CATEGORY RULES
+// ============================================================================
+
+const RULE_FIELD_LABELS: Record<CategoryRuleField, string> = {
+  title: "Title",
+  channel: "Channel",
+  description: "Description",
+  keywords: "Keywords",
+  youtubeCategory: "YouTube category",
+  url: "URL"
+};
+
+const RULE_OPERATOR_LABELS: Record<CategoryRuleOperator, string> = {
+  contains: "contains",
+  equals: "equals",
+  regex: "matches regex"
+};
+
+/**
+ * Display the ordered rule list
+ */
+function displayCategoryRules(rules: CategoryRule[]) {
+  if (!categoryRulesContainer) {
+    console.warn("categoryRulesContainer not found");
+    return;
+  }
+
+  categoryRulesContainer.innerHTML = "";
+  rules.forEach((rule) => categoryRulesContainer.appendChild(createRuleElement(rule)));
+}
+
+function createOptionSelect<T extends string>(className: string, values: readonly T[], labels: Record<T, string>, selected: T) {
+  const select = document.createElement("select");
+  select.className = `category-select ${className}`;
+  values.forEach((value) => {
+    const option = document.createElement("option");
+    option.value = value;
+    option.textContent = labels[value];
+    option.selected = value === selected;
+    select.appendChild(option);
+  });
+  return select;
+}
+
+/**
+ * Create a single condition row inside a rule card
+ */
+function createConditionElement(condition: CategoryRuleCondition) {
+  const div = document.createElement("div");
+  div.className = "rule-condition";
+
+  const fieldSelect = createOptionSelect("rule-field", RULE_FIELDS, RULE_FIELD_LABELS, condition.field);
+  const operatorSelect = createOptionSelect("rule-operator", RULE_OPERATORS, RULE_OPERATOR_LABELS, condition.operator);
+
+  const valueInput = document.createElement("input");
+  valueInput.type = "text";
+  valueInput.className = "channel-input rule-value";
+  valueInput.value = condition.value;
+  valueInput.placeholder = "Value";
+
+  const validate = () => {
+    const invalid = operatorSelect.value === "regex" && !isValidRulePattern(valueInput.value.trim());
+    valueInput.classList.toggle("invalid", invalid);
+    valueInput.title = invalid ? "Invalid regular expression; this condition will be ignored" : "";
+  };
+  valueInput.addEventListener("input", validate);
+  operatorSelect.addEventListener("change", validate);
+  validate();
+
+  const deleteBtn = document.createElement("button");
+  deleteBtn.className = "btn-delete";
+  deleteBtn.title = "Delete condition";
+  deleteBtn.type = "button";
+  deleteBtn.addEventListener("click", () => div.remove());
+
+  div.appendChild(fieldSelect);
+  div.appendChild(operatorSelect);
+  div.appendChild(valueInput);
+  div.appendChild(deleteBtn);
+
+  return div;
+}
+
+/**
+ * Button that moves a rule card one place in the list
+ */
+function createMoveButton(label: string, title: string, move: () => void) {
+  const button = document.createElement("button");
+  button.className = "btn-move";
+  button.type = "button";
+  button.textContent = label;
+  button.title = title;
+  button.setAttribute("aria-label", title);
+  button.addEventListener("click", move);
+  return button;
+}
+
+/**
+ * Create a rule card with its header and condition rows
+ */
+function createRuleElement(rule: CategoryRule) {
+  const card = document.createElement("div");
+  card.className = "rule-card";
+  card.dataset.ruleId = rule.id;
+  card.classList.toggle("disabled", !rule.enabled);
+
+  const header = document.createElement("div");
+  header.className = "rule-header";
+
+  const enabledInput = document.createElement("input");
+  enabledInput.type = "checkbox";
+  enabledInput.className = "rule-enabled";
+  enabledInput.checked = rule.enabled;
+  enabledInput.title = "Enabled";
+  enabledInput.addEventListener("change", () => card.classList.toggle("disabled", !enabledInput.checked));
+
+  const nameInput = document.createElement("input");
+  nameInput.type = "text";
+  nameInput.className = "channel-input rule-name";
+  nameInput.value = rule.name;
+  nameInput.placeholder = "Rule name";
+
+  const matchSelect = createOptionSelect("rule-match", ["all", "any"] as const, { all: "All conditions", any: "Any condition" }, rule.match);
+
+  const categoryInput = document.createElement("input");
+  categoryInput.type = "text";
+  categoryInput.className = "channel-input rule-category";
+  categoryInput.value = rule.category;
+  categoryInput.placeholder = "Category";
+
+  // Rules are evaluated first-match in list order, so the order is part of the rule.
+  const moveUpBtn = createMoveButton("↑", "Move rule up", () => card.previousElementSibling?.before(card));
+  const moveDownBtn = createMoveButton("↓", "Move rule down", () => card.nextElementSibling?.after(card));
+
+  const deleteBtn = document.createElement("button");
+  deleteBtn.className = "btn-delete";
+  deleteBtn.title = "Delete rule";
+  deleteBtn.type = "button";
+  deleteBtn.addEventListener("click", () => card.remove());
+
+  header.appendChild(enabledInput);
+  header.appendChild(nameInput);
+  header.appendChild(matchSelect);
+  header.appendChild(categoryInput);
+  header.appendChild(moveUpBtn);
+  header.appendChild(moveDownBtn);
+  header.appendChild(deleteBtn);
+
+  const conditions = document.createElement("div");
+  conditions.className = "rule-conditions";
+  rule.conditions.forEach((condition) => conditions.appendChild(createConditionElement(condition)));
+
+  const addConditionBtn = document.createElement("button");
+  addConditionBtn.className = "btn btn-secondary";
+  addConditionBtn.type = "button";
+  addConditionBtn.textContent = "+ Condition";
+  addConditionBtn.addEventListener("click", () => {
+    conditions.appendChild(createConditionElement({ field: "title", operator: "contains", value: "" }));
+  });
+
+  card.appendChild(header);
+  card.appendChild(conditions);
+  card.appendChild(addConditionBtn);
+
+  return card;
+}
+
+/**
+ * Add new rule card with a single empty condition
+ */
+function addCategoryRule() {
+  const ruleEl = createRuleElement({
+    id: `rule-${Date.now().toString(36)}`,
+    name: "",
+    enabled: true,
+    match: "all",
+    conditions: [{ field: "title", operator: "contains", value: "" }],
+    category: ""
+  });
+  categoryRulesContainer?.appendChild(ruleEl);
+}
+
+/**
+ * Collect rules from UI in display order; incomplete rules are dropped by withSettingsDefaults
+ */
+function getCategoryRulesFromUI(): CategoryRule[] {
+  const rules: CategoryRule[] = [];
+
+  document.querySelectorAll<HTMLElement>(".rule-card").forEach((card) => {
+    const conditions: CategoryRuleCondition[] = [];
+    card.querySelectorAll(".rule-condition").forEach((row) => {
+      conditions.push({
+        field: (row.querySelector<HTMLSelectElement>(".rule-field")?.value || "title") as CategoryRuleField,
+        operator: (row.querySelector<HTMLSelectElement>(".rule-operator")?.value || "contains") as CategoryRuleOperator,
+        value: row.querySelector<HTMLInputElement>(".rule-value")?.value.trim() || ""
+      });
+    });
+
+    rules.push({
+      id: card.dataset.ruleId || "",
+      name: card.querySelector<HTMLInputElement>(".rule-name")?.value.trim() || "",
+      enabled: card.querySelector<HTMLInputElement>(".rule-enabled")?.checked ?? true,
+      match: card.querySelector<HTMLSelectElement>(".rule-match")?.value === "any" ? "any" : "all",
+      conditions,
+      category: card.querySelector<HTMLInputElement>(".rule-category")?.value.trim() || ""
+    });
+  });
+
+  return rules;
+}
+
 // ============================================================================
 // CHANNEL MAPPING
 // ============================================================================
 
+const CHANNEL_KEY_TYPE_LABELS: Record<ChannelKeyType, string> = {
+  id: "Channel ID",
+  handle: "@Handle",
+  name: "Name"
+};
+
+const CHANNEL_KEY_PLACEHOLDERS: Record<ChannelKeyType, string> = {
+  id: "UC…",
+  handle: "@handle",
+  name: "Channel name"
+};
+
 /**
  * Display channel mappings
  */
-function displayChannelMappings(channelMap: Record<string, string>) {
+function displayChannelMappings(channelMap: ChannelCategoryMap) {
   if (!channelMappingsContainer) {
     console.warn("channelMappingsContainer not found");
     return;
@@ -206,34 +957,44 @@ function displayChannelMappings(channelMap: Record<string, string>) {
 
   channelMappingsContainer.innerHTML = "";
 
-  Object.entries(channelMap).forEach(([channel, category]) => {
-    const mappingEl = createMappingElement(channel, category);
+  Object.values(channelMap).forEach((entry) => {
+    const mappingEl = createMappingElement(entry);
     channelMappingsContainer.appendChild(mappingEl);
   });
 }
 
 /**
- * Create a single channel mapping element
+ * Create a single channel mapping element; id/handle rows show the last seen channel name
  */
-function createMappingElement(channel: string, category: string) {
+function createMappingElement(entry: ChannelMapping) {
   const div = document.createElement("div");
   div.className = "mapping-item";
+  div.dataset.label = entry.label || "";
+
+  const typeSelect = createOptionSelect("channel-type-select", CHANNEL_KEY_TYPES, CHANNEL_KEY_TYPE_LABELS, entry.type);
 
   const channelInput = document.createElement("input");
   channelInput.type = "text";
   channelInput.className = "channel-input";
-  channelInput.value = channel;
-  channelInput.placeholder = "Channel name";
+  channelInput.value = entry.value;
+  channelInput.placeholder = CHANNEL_KEY_PLACEHOLDERS[entry.type];
+  channelInput.title = entry.label || "";
+  typeSelect.addEventListener("change", () => {
+    channelInput.placeholder = CHANNEL_KEY_PLACEHOLDERS[typeSelect.value as ChannelKeyType];
+  });
 
   const categorySelect = document.createElement("select");
-  categorySelect.className = "category-select";
+  categorySelect.className = "category-select channel-category-select";
   const categories = ["Gaming", "Music", "Tech", "Cooking", "Fitness", "Education", "News", "Entertainment", "Other"];
+  if (entry.category && !categories.includes(entry.category)) {
+    categories.unshift(entry.category);
+  }
 
   categories.forEach((cat) => {
     const option = document.createElement("option");
     option.value = cat;
     option.textContent = cat;
-    option.selected = category === cat;
+    option.selected = entry.category === cat;
     categorySelect.appendChild(option);
   });
 
@@ -244,6 +1005,7 @@ function createMappingElement(channel: string, category: string) {
   deleteBtn.type = "button";
   deleteBtn.addEventListener("click", () => div.remove());
 
+  div.appendChild(typeSelect);
   div.appendChild(channelInput);
   div.appendChild(categorySelect);
   div.appendChild(deleteBtn);
@@ -255,30 +1017,226 @@ function createMappingElement(channel: string, category: string) {
  * Add new channel mapping row
  */
 function addChannelMapping() {
-  const mappingEl = createMappingElement("", "Other");
+  const mappingEl = createMappingElement({ type: "handle", value: "", category: "Other" });
   channelMappingsContainer?.appendChild(mappingEl);
 }
 
 /**
- * Collect all channel mappings from UI
+ * Collect all channel mappings from UI; rows whose value is invalid for their type are skipped
  */
 function getChannelMappingsFromUI() {
-  const mappings: Record<string, string> = {};
+  const mappings: ChannelCategoryMap = {};
 
-  document.querySelectorAll(".mapping-item").forEach((item) => {
+  document.querySelectorAll<HTMLElement>("#channelMappings .mapping-item").forEach((item) => {
+    const typeSelect = item.querySelector<HTMLSelectElement>(".channel-type-select");
     const channelInput = item.querySelector<HTMLInputElement>(".channel-input");
-    const categorySelect = item.querySelector<HTMLSelectElement>(".category-select");
-    const channel = channelInput?.value.trim() || "";
-    const category = categorySelect?.value || "";
+    const categorySelect = item.querySelector<HTMLSelectElement>(".channel-category-select");
+    const type = (typeSelect?.value || "name") as ChannelKeyType;
+    const entry = createChannelMapping(type, channelInput?.value || "", categorySelect?.value || "", item.dataset.label);
 
-    if (channel) {
-      mappings[channel] = category;
+    if (entry) {
+      mappings[toChannelMapKey(entry.type, entry.value)] = entry;
     }
   });
 
   return mappings;
 }
 
+// ============================================================================
+// TAKEOUT SUBSCRIPTION IMPORT
+// ============================================================================
+
+interface SubscriptionImportRow {
+  subscription: TakeoutSubscription;
+  category: string;
+  selected: boolean;
+}
+
+let subscriptionRows: SubscriptionImportRow[] = [];
+let knownCategories: string[] = [];
+
+/**
+ * Read a Takeout subscriptions.csv and open the bulk-assign table
+ */
+function handleImportSubscriptions() {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".csv,text/csv";
+
+  input.addEventListener("change", (e) => {
+    const file = (e.target as HTMLInputElement | null)?.files?.[0];
+    if (!file) return;
+
+    file
+      .text()
+      .then((text) => {
+        const subscriptions = parseSubscriptionsCsv(text);
+        if (subscriptions.length === 0) {
+          throw new Error("No channels found in file");
+        }
+        openSubscriptionImport(subscriptions);
+        showStatus(`Loaded ${subscriptions.length} subscriptions`, "info");
+      })
+      .catch((error) => {
+        console.error("Subscription import error:", error);
+        showStatus("Failed to read subscriptions file", "error");
+      });
+  });
+
+  input.click();
+}
+
+function openSubscriptionImport(subscriptions: TakeoutSubscription[]) {
+  subscriptionRows = subscriptions
+    .map((subscription) => ({ subscription, category: "", selected: false }))
+    .sort((a, b) => a.subscription.title.localeCompare(b.subscription.title));
+
+  if (subscriptionCategorySelect instanceof HTMLSelectElement) {
+    subscriptionCategorySelect.innerHTML = "";
+    [...knownCategories, ""].forEach((category) => {
+      const option = document.createElement("option");
+      option.value = category;
+      option.textContent = category || "(clear)";
+      subscriptionCategorySelect.appendChild(option);
+    });
+  }
+  if (subscriptionFilterInput instanceof HTMLInputElement) subscriptionFilterInput.value = "";
+  if (subscriptionImportPanel) subscriptionImportPanel.hidden = false;
+  renderSubscriptionRows();
+}
+
+function closeSubscriptionImport() {
+  subscriptionRows = [];
+  if (subscriptionRowsBody) subscriptionRowsBody.innerHTML = "";
+  if (subscriptionImportPanel) subscriptionImportPanel.hidden = true;
+}
+
+function getVisibleSubscriptionRows() {
+  const filter = (subscriptionFilterInput as HTMLInputElement | null)?.value.trim().toLowerCase() || "";
+  if (!filter) return subscriptionRows;
+  return subscriptionRows.filter(
+    ({ subscription }) =>
+      subscription.title.toLowerCase().includes(filter) || subscription.channelId.toLowerCase().includes(filter)
+  );
+}
+
+/**
+ * Render the filtered table; rows whose assignment differs from an existing mapping are highlighted
+ */
+function renderSubscriptionRows() {
+  if (!subscriptionRowsBody) return;
+  subscriptionRowsBody.innerHTML = "";
+
+  const existing = getChannelMappingsFromUI();
+  const visible = getVisibleSubscriptionRows();
+
+  visible.forEach((row) => {
+    const { subscription } = row;
+    const tr = document.createElement("tr");
+
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.checked = row.selected;
+    checkbox.addEventListener("change", () => {
+      row.selected = checkbox.checked;
+    });
+    tr.insertCell().appendChild(checkbox);
+
+    const link = document.createElement("a");
+    link.href = subscription.url || `https://www.youtube.com/channel/${subscription.channelId}`;
+    link.target = "_blank";
+    link.rel = "noopener noreferrer";
+    link.textContent = subscription.title;
+    tr.insertCell().appendChild(link);
+
+    tr.insertCell().textContent = row.category || "—";
+
+    const match = findChannelMapping(existing, {
+      channelId: subscription.channelId,
+      channelHandle: "",
+      channel: subscription.title
+    });
+    tr.insertCell().textContent = match ? `${match.entry.category} (by ${CHANNEL_KEY_TYPE_LABELS[match.entry.type]})` : "—";
+    tr.classList.toggle("conflict", Boolean(match && row.category && match.entry.category !== row.category));
+
+    subscriptionRowsBody.appendChild(tr);
+  });
+
+  if (subscriptionSelectAll instanceof HTMLInputElement) {
+    subscriptionSelectAll.checked = visible.length > 0 && visible.every((row) => row.selected);
+  }
+  updateSubscriptionPreview(existing);
+}
+
+function handleSelectAllSubscriptions() {
+  const checked = (subscriptionSelectAll as HTMLInputElement | null)?.checked ?? false;
+  getVisibleSubscriptionRows().forEach((row) => {
+    row.selected = checked;
+  });
+  renderSubscriptionRows();
+}
+
+function handleAssignSubscriptions() {
+  const category = (subscriptionCategorySelect as HTMLSelectElement | null)?.value ?? "";
+  const selected = subscriptionRows.filter((row) => row.selected);
+  if (selected.length === 0) {
+    showStatus("Select channels to assign first", "info");
+    return;
+  }
+
+  selected.forEach((row) => {
+    row.category = category;
+    row.selected = false;
+  });
+  renderSubscriptionRows();
+}
+
+function updateSubscriptionPreview(existing: ChannelCategoryMap = getChannelMappingsFromUI()): ChannelImportPreview {
+  const incoming = toSubscriptionMappings(
+    subscriptionRows.filter((row) => row.category).map(({ subscription, category }) => ({ subscription, category }))
+  );
+  const preview = previewChannelImport(existing, incoming);
+
+  if (subscriptionPreviewEl) {
+    subscriptionPreviewEl.textContent =
+      incoming.length === 0
+        ? "Select channels and assign a category to preview changes."
+        : `${preview.added.length} new, ${preview.unchanged.length} unchanged, ${preview.conflicts.length} conflicting with existing mappings.`;
+  }
+  return preview;
+}
+
+/**
+ * Merge assignments into the mappings shown on the page and save them
+ */
+async function handleSaveSubscriptions() {
+  if (!(saveSubscriptionsBtn instanceof HTMLButtonElement)) return;
+  const existing = getChannelMappingsFromUI();
+  const preview = updateSubscriptionPreview(existing);
+  const overwrite = (subscriptionOverwriteCheckbox as HTMLInputElement | null)?.checked ?? false;
+
+  if (preview.added.length === 0 && (!overwrite || preview.conflicts.length === 0)) {
+    showStatus("Nothing to import", "info");
+    return;
+  }
+
+  try {
+    saveSubscriptionsBtn.disabled = true;
+    const merged = mergeChannelImport(existing, preview, overwrite);
+    await updateSettings({ channelCategoryMap: merged });
+    displayChannelMappings(merged);
+    closeSubscriptionImport();
+
+    const imported = preview.added.length + (overwrite ? preview.conflicts.length : 0);
+    showStatus(`Imported ${imported} channel mapping${imported === 1 ? "" : "s"}`, "success");
+  } catch (error) {
+    console.error("Subscription save error:", error);
+    showStatus(`Failed to save imported mappings: ${toErrorMessage(error)}`, "error");
+  } finally {
+    saveSubscriptionsBtn.disabled = false;
+  }
+}
+
 // ============================================================================
 // SAVE & RESET
 // ============================================================================
@@ -302,9 +1260,28 @@ async function handleSaveSettings() {
           .split(",")
           .map((tag) => tag.trim())
           .filter((tag) => tag.length > 0),
+      hashtagCategoryMap: getHashtagMappingsFromUI(),
       enabledColors: getEnabledColorsFromUI(),
       categoryKeywords: getCategoryKeywordsFromUI(),
-      channelCategoryMap: getChannelMappingsFromUI()
+      keywordFieldWeights: getKeywordFieldWeightsFromUI(),
+      minKeywordConfidence: Number((minKeywordConfidenceInput as HTMLInputElement | null)?.value || 0),
+      reviewCategory: (reviewCategoryInput as HTMLInputElement | null)?.value.trim() || "Review",
+      learningEnabled: (learningEnabledCheckbox as HTMLInputElement | null)?.checked ?? true,
+      youtubeCategoryMap: getYouTubeCategoryMappingsFromUI(),
+      channelCategoryMap: getChannelMappingsFromUI(),
+      categoryRules: getCategoryRulesFromUI(),
+      categoryRulesMode: ((categoryRulesModeSelect as HTMLSelectElement | null)?.value || "before") as CategoryRulesMode,
+      groupingStrategy: getGroupingStrategyFromUI(),
+      groupPlaylists: (groupPlaylistsCheckbox as HTMLInputElement | null)?.checked ?? false,
+      regroupOnNavigation: (regroupOnNavigationCheckbox as HTMLInputElement | null)?.checked ?? true,
+      sameColorAcrossWindows: (sameColorAcrossWindowsCheckbox as HTMLInputElement | null)?.checked ?? true,
+      musicGrouping: getMusicGroupingFromUI(),
+      enabledSites: getEnabledSitesFromUI(),
+      videoTypeRouting: getVideoTypeRoutingFromUI(),
+      pageKindPolicies: getPageKindPoliciesFromUI(),
+      groupingLevel: getGroupingLevelFromUI(),
+      groupSplitThreshold:
+        Number((groupSplitThresholdInput as HTMLInputElement | null)?.value) || DEFAULT_SETTINGS.groupSplitThreshold
     };
 
     await updateSettings(settings);
@@ -312,7 +1289,7 @@ async function handleSaveSettings() {
     console.log("Saved settings:", settings);
   } catch (error) {
     console.error("Error saving settings:", error);
-    showStatus("Failed to save settings", "error");
+    showStatus(`Failed to save settings: ${toErrorMessage(error)}`, "error");
   } finally {
     saveBtn.disabled = false;
   }
@@ -354,17 +1331,7 @@ async function handleResetSettings() {
 async function handleExportSettings() {
   try {
     const settings = await getSettings();
-    const dataStr = JSON.stringify(settings, null, 2);
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(dataBlob);
-
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `youtube-tab-grouper-settings-${new Date().toISOString().slice(0, 10)}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadJson(settings, "settings");
 
     showStatus("Settings exported", "success");
   } catch (error) {
@@ -402,7 +1369,80 @@ function handleImportSettings() {
       })
       .catch((error) => {
         console.error("Import error:", error);
-        showStatus("Failed to import settings", "error");
+        showStatus(`Failed to import settings: ${toErrorMessage(error)}`, "error");
+      });
+  });
+
+  input.click();
+}
+
+// ============================================================================
+// LEARNING MODEL
+// ============================================================================
+
+/**
+ * Summarize how much the local model has been trained
+ */
+function displayLearningSummary(model: LearnedModel) {
+  if (!learningSummaryEl) return;
+  const categories = Object.keys(model.categories);
+  learningSummaryEl.textContent =
+    model.examples === 0
+      ? "The model has not been trained yet."
+      : `Trained on ${model.examples} choice${model.examples === 1 ? "" : "s"} across ${categories.length} categor${categories.length === 1 ? "y" : "ies"}.`;
+}
+
+async function handleResetModel() {
+  if (!confirm("Forget everything learned from your category choices?")) {
+    return;
+  }
+  try {
+    displayLearningSummary(await resetLearnedModel());
+    showStatus("Learning model reset", "success");
+  } catch (error) {
+    console.error("Model reset error:", error);
+    showStatus("Failed to reset learning model", "error");
+  }
+}
+
+async function handleExportModel() {
+  try {
+    downloadJson(await getLearnedModel(), "model");
+    showStatus("Learning model exported", "success");
+  } catch (error) {
+    console.error("Model export error:", error);
+    showStatus("Failed to export learning model", "error");
+  }
+}
+
+/**
+ * Import a model file; invalid entries are dropped by withLearnedModelDefaults
+ */
+function handleImportModel() {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".json";
+
+  input.addEventListener("change", (e) => {
+    const file = (e.target as HTMLInputElement | null)?.files?.[0];
+    if (!file) return;
+
+    file
+      .text()
+      .then((text) => {
+        const imported = JSON.parse(text) as unknown;
+        if (typeof imported !== "object" || imported === null || !("categories" in imported)) {
+          throw new Error("Invalid model file");
+        }
+        return saveLearnedModel(withLearnedModelDefaults(imported));
+      })
+      .then((model) => {
+        displayLearningSummary(model);
+        showStatus("Learning model imported", "success");
+      })
+      .catch((error) => {
+        console.error("Model import error:", error);
+        showStatus("Failed to import learning model", "error");
       });
   });
 
@@ -413,6 +1453,22 @@ function handleImportSettings() {
 // UI UTILITIES
 // ============================================================================
 
+/**
+ * Download a value as a dated JSON file
+ */
+function downloadJson(data: unknown, kind: string) {
+  const dataBlob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(dataBlob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `youtube-tab-grouper-${kind}-${new Date().toISOString().slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Show status message
  */
@@ -1,6 +1,9 @@
 import { MESSAGE_ACTIONS, validateResponse } from "../../src/shared/messageContracts";
 import { sendMessageSafe } from "../../src/shared/messageTransport";
-import type { GroupTabResponse } from "../../src/shared/types";
+import { getYouTubeCategoryName } from "../../src/shared/youtubeCategories";
+import { SITE_DEFINITIONS } from "../../src/shared/sites";
+import { GROUPING_STRATEGIES, GROUPING_STRATEGY_LABELS, isGroupingStrategyId } from "../../src/shared/settings";
+import type { CategoryDecisionStep, CategoryTrace, GroupTabResponse, ReviewItem } from "../../src/shared/types";
 
 /**
  * YouTube Tab Grouper - Popup Script
@@ -10,9 +13,14 @@ import type { GroupTabResponse } from "../../src/shared/types";
 
 const groupButton = document.getElementById("groupButton");
 const batchButton = document.getElementById("batchButton");
+const batchStrategySelect = document.getElementById("batchStrategy");
+const explainButton = document.getElementById("explainButton");
+const explainPanel = document.getElementById("explainPanel");
+const reviewSection = document.getElementById("reviewSection");
+const reviewList = document.getElementById("reviewList");
 const categoryInput = document.getElementById("categoryInput");
 const statusEl = document.getElementById("status");
-const buttons: HTMLButtonElement[] = [groupButton, batchButton].filter(
+const buttons: HTMLButtonElement[] = [groupButton, batchButton, explainButton].filter(
   (btn): btn is HTMLButtonElement => btn instanceof HTMLButtonElement
 );
 
@@ -56,6 +64,11 @@ function handleGuard(response: GroupTabResponse) {
   return false;
 }
 
+function formatGroupedMessage(response: GroupTabResponse) {
+  const { category, group } = response;
+  return group && group !== category ? `Grouped into "${group}" (${category})` : `Grouped as "${category}"`;
+}
+
 function formatError(response: GroupTabResponse & { errors?: string[] }) {
   if (!response) return "Unknown error";
   const base = response.error || "Unknown error";
@@ -76,7 +89,7 @@ groupButton?.addEventListener("click", () => {
     const response = await sendPopupMessage(MESSAGE_ACTIONS.GROUP_TAB, { category });
 
     if (response?.success) {
-      showNotification(`Grouped as "${response.category}"`, "success");
+      showNotification(formatGroupedMessage(response), "success");
       if (categoryInput instanceof HTMLInputElement) categoryInput.value = "";
     } else if (!handleGuard(response)) {
       showNotification(`Error: ${formatError(response)}`, "error");
@@ -95,7 +108,8 @@ batchButton?.addEventListener("click", () => {
     batchButton.disabled = true;
 
     try {
-      const response = await sendPopupMessage(MESSAGE_ACTIONS.BATCH_GROUP);
+      const strategy = batchStrategySelect instanceof HTMLSelectElement ? batchStrategySelect.value : "";
+      const response = await sendPopupMessage(MESSAGE_ACTIONS.BATCH_GROUP, strategy ? { strategy } : {});
 
     if (response?.success) {
       const count = typeof response.count === "number" ? response.count : Number(response.count) || 0;
@@ -111,6 +125,219 @@ batchButton?.addEventListener("click", () => {
   })();
 });
 
+const STEP_LABELS: Record<CategoryDecisionStep, string> = {
+  rule: "User rule",
+  channelMap: "Channel mapping",
+  override: "Explicit category",
+  learned: "Learned from your choices",
+  hashtag: "Hashtag",
+  keywords: "Keyword scoring",
+  youtubeCategory: "YouTube category",
+  siteCategory: "Site category",
+  review: "Low-confidence keywords (needs review)",
+  fallback: "Fallback"
+};
+
+explainButton?.addEventListener("click", () => {
+  void (async () => {
+    if (!(explainButton instanceof HTMLButtonElement)) return;
+    explainButton.disabled = true;
+
+    try {
+      const response = await sendPopupMessage(MESSAGE_ACTIONS.EXPLAIN_CATEGORY);
+      if (response?.success && response.trace) {
+        renderExplanation(String(response.category), response.trace as CategoryTrace);
+      } else {
+        showNotification(`Error: ${formatError(response)}`, "error");
+      }
+    } catch (error) {
+      showNotification(`Error: ${(error as Error).message}`, "error");
+    } finally {
+      explainButton.disabled = false;
+    }
+  })();
+});
+
+function appendDefinition(list: HTMLDListElement, term: string, description: string) {
+  const dt = document.createElement("dt");
+  dt.textContent = term;
+  const dd = document.createElement("dd");
+  dd.textContent = description;
+  list.appendChild(dt);
+  list.appendChild(dd);
+}
+
+function formatYouTubeCategory(trace: CategoryTrace) {
+  if (!trace.youtubeCategoryId) return `${String(trace.youtubeCategory)} (unknown)`;
+  return `${getYouTubeCategoryName(trace.youtubeCategoryId)} (#${trace.youtubeCategoryId})`;
+}
+
+/**
+ * Render the decision trace for the active tab; built with textContent since titles are page-controlled.
+ */
+function renderExplanation(category: string, trace: CategoryTrace) {
+  if (!explainPanel) return;
+  explainPanel.innerHTML = "";
+  explainPanel.hidden = false;
+
+  const heading = document.createElement("h3");
+  heading.textContent = `"${category}" via ${STEP_LABELS[trace.step] ?? trace.step}`;
+  explainPanel.appendChild(heading);
+
+  const details = document.createElement("dl");
+  if (trace.rule) {
+    appendDefinition(details, "Rule", trace.rule.name || trace.rule.id);
+  }
+  if (trace.learned) {
+    appendDefinition(details, "Learned", `${trace.learned.category} (p = ${trace.learned.probability.toFixed(2)})`);
+  }
+  if (trace.matchedHashtag) {
+    appendDefinition(details, "Hashtag", `#${trace.matchedHashtag}`);
+  } else if (trace.hashtags.length > 0) {
+    appendDefinition(details, "Hashtags", `${trace.hashtags.map((tag) => `#${tag}`).join(" ")} (none whitelisted)`);
+  }
+  if (trace.rulesMode === "replace") {
+    appendDefinition(details, "Rules mode", "Rules replace built-in detection");
+  }
+  appendDefinition(
+    details,
+    "Channel key",
+    trace.channelKey ? `${trace.channelKey} (${trace.channelMatched ? "mapped" : "not mapped"})` : "(none)"
+  );
+  if (trace.site === "youtube") {
+    appendDefinition(
+      details,
+      "YouTube category",
+      trace.youtubeCategory === null
+        ? "(none)"
+        : `${formatYouTubeCategory(trace)} → ${trace.youtubeMappedCategory || "unmapped"}`
+    );
+  } else {
+    appendDefinition(
+      details,
+      `${SITE_DEFINITIONS[trace.site].label} category`,
+      trace.siteCategory ? `${trace.siteCategory} → ${trace.siteMappedCategory || "unmapped"}` : "(none)"
+    );
+  }
+  if (!trace.aiEnabled) {
+    appendDefinition(details, "Keywords", "AI detection disabled; scores shown for reference");
+  }
+  if (trace.confidence !== null) {
+    appendDefinition(details, "Confidence", `${trace.confidence.toFixed(2)} (minimum ${trace.minConfidence.toFixed(2)})`);
+  }
+  explainPanel.appendChild(details);
+
+  if (trace.keywordScores.length === 0) {
+    const empty = document.createElement("p");
+    empty.textContent = "No keyword matches.";
+    explainPanel.appendChild(empty);
+    return;
+  }
+
+  const table = document.createElement("table");
+  const headerRow = table.insertRow();
+  ["Category", "Score", "Matched terms", "Negative terms"].forEach((label) => {
+    const th = document.createElement("th");
+    th.textContent = label;
+    headerRow.appendChild(th);
+  });
+
+  trace.keywordScores.forEach((entry) => {
+    const row = table.insertRow();
+    row.classList.toggle("winner", trace.step === "keywords" && entry.category === category);
+    row.insertCell().textContent = entry.category;
+    row.insertCell().textContent = entry.vetoedBy ? `vetoed by "${entry.vetoedBy}"` : String(entry.score);
+    row.insertCell().textContent = entry.matchedTerms.join(", ");
+    row.insertCell().textContent = entry.negativeTerms.join(", ");
+  });
+
+  explainPanel.appendChild(table);
+}
+
+document.addEventListener("DOMContentLoaded", () => {
+  void loadReviewQueue();
+  void loadBatchStrategies();
+});
+
+/**
+ * Fill the batch strategy picker, preselecting the global `groupingStrategy` setting.
+ */
+async function loadBatchStrategies() {
+  if (!(batchStrategySelect instanceof HTMLSelectElement)) return;
+
+  GROUPING_STRATEGIES.forEach((strategy) => {
+    const option = document.createElement("option");
+    option.value = strategy;
+    option.textContent = GROUPING_STRATEGY_LABELS[strategy];
+    batchStrategySelect.appendChild(option);
+  });
+
+  const response = await sendPopupMessage(MESSAGE_ACTIONS.GET_SETTINGS);
+  const settings = response?.success ? (response.settings as { groupingStrategy?: unknown } | undefined) : undefined;
+  if (isGroupingStrategyId(settings?.groupingStrategy)) {
+    batchStrategySelect.value = settings.groupingStrategy;
+  }
+}
+
+async function loadReviewQueue() {
+  const response = await sendPopupMessage(MESSAGE_ACTIONS.GET_REVIEW_QUEUE);
+  const items = response?.success && Array.isArray(response.items) ? (response.items as ReviewItem[]) : [];
+  renderReviewQueue(items);
+}
+
+/**
+ * One row per low-confidence tab; each candidate button assigns that category in one click.
+ */
+function renderReviewQueue(items: ReviewItem[]) {
+  if (!reviewSection || !reviewList) return;
+  reviewList.innerHTML = "";
+  reviewSection.hidden = items.length === 0;
+
+  items.forEach((item) => {
+    const li = document.createElement("li");
+    li.className = "review-item";
+
+    const title = document.createElement("span");
+    title.className = "review-title";
+    title.textContent = item.title || item.url;
+    title.title = item.title || item.url;
+
+    const actions = document.createElement("div");
+    actions.className = "review-actions";
+    item.candidates.forEach((candidate) => {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = candidate;
+      button.addEventListener("click", () => { void assignReviewCategory(item, candidate, li); });
+      actions.appendChild(button);
+    });
+
+    li.appendChild(title);
+    li.appendChild(actions);
+    reviewList.appendChild(li);
+  });
+}
+
+async function assignReviewCategory(item: ReviewItem, category: string, row: HTMLElement) {
+  row.querySelectorAll("button").forEach((button) => {
+    button.disabled = true;
+  });
+
+  const response = await sendPopupMessage(MESSAGE_ACTIONS.ASSIGN_CATEGORY, { tabId: item.tabId, category });
+  if (response?.success) {
+    row.remove();
+    if (reviewSection && reviewList?.childElementCount === 0) reviewSection.hidden = true;
+    showNotification(`Grouped as "${response.category}"`, "success");
+  } else {
+    row.querySelectorAll("button").forEach((button) => {
+      button.disabled = false;
+    });
+    if (!handleGuard(response)) {
+      showNotification(`Error: ${formatError(response)}`, "error");
+    }
+  }
+}
+
 function showNotification(message: string, type: "info" | "success" | "error" = "info") {
   if (!statusEl) return;
   statusEl.textContent = message;
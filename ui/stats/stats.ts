@@ -1,5 +1,13 @@
 import { getStats, resetStats } from "../../src/shared/stats";
-import type { GroupingStats } from "../../src/shared/types";
+import {
+  EXTRACTION_FIELDS,
+  EXTRACTION_HEALTH_WARN_RATE,
+  getExtractionHealth,
+  getExtractionSuccessRate,
+  resetExtractionHealth
+} from "../../src/shared/extractionHealth";
+import { SITE_DEFINITIONS, SITE_IDS } from "../../src/shared/sites";
+import type { ExtractionHealth, GroupingStats } from "../../src/shared/types";
 
 /**
  * YouTube Tab Grouper - Statistics Page
@@ -13,8 +21,14 @@ const topCountEl = document.getElementById("topCount");
 const chartContainerEl = document.getElementById("categoryChart");
 const resetStatsBtn = document.getElementById("resetStats");
 const backBtn = document.getElementById("backBtn");
+const healthRowsEl = document.getElementById("extractionHealthRows");
+const healthEmptyEl = document.getElementById("extractionHealthEmpty");
+const resetHealthBtn = document.getElementById("resetExtractionHealth");
 
-document.addEventListener("DOMContentLoaded", () => { void loadAndDisplayStats(); });
+document.addEventListener("DOMContentLoaded", () => {
+  void loadAndDisplayStats();
+  void loadAndDisplayExtractionHealth();
+});
 
 resetStatsBtn?.addEventListener("click", () => {
   void (async () => {
@@ -26,6 +40,15 @@ resetStatsBtn?.addEventListener("click", () => {
   })();
 });
 
+resetHealthBtn?.addEventListener("click", () => {
+  void (async () => {
+    if (!confirm("Reset extraction health for all sites?")) return;
+
+    await resetExtractionHealth();
+    await loadAndDisplayExtractionHealth();
+  })();
+});
+
 backBtn?.addEventListener("click", () => window.close());
 
 async function loadAndDisplayStats() {
@@ -84,3 +107,62 @@ function displayChart(categoryCount: GroupingStats["categoryCount"]) {
 
   chartContainerEl.innerHTML = chartHTML;
 }
+
+async function loadAndDisplayExtractionHealth() {
+  try {
+    displayExtractionHealth(await getExtractionHealth());
+  } catch (error) {
+    console.error("Error loading extraction health:", error);
+  }
+}
+
+/**
+ * One row per site and field, in field order; fields under `EXTRACTION_HEALTH_WARN_RATE` are
+ * highlighted. Strategies are listed most successful first; pages where the field did not apply
+ * are shown apart and do not affect the rate.
+ */
+function displayExtractionHealth(health: ExtractionHealth) {
+  if (!healthRowsEl) return;
+  healthRowsEl.innerHTML = "";
+
+  const rows = SITE_IDS.flatMap((site) =>
+    EXTRACTION_FIELDS.map((field) => ({ site, field, entry: health[`${site}:${field}`] })).filter(
+      (row) => row.entry && (row.entry.attempts > 0 || row.entry.notApplicable > 0)
+    )
+  );
+  if (healthEmptyEl) healthEmptyEl.hidden = rows.length > 0;
+
+  rows.forEach(({ site, field, entry }) => {
+    const rate = getExtractionSuccessRate(entry);
+    const tr = document.createElement("tr");
+    if (rate !== null && rate < EXTRACTION_HEALTH_WARN_RATE) tr.classList.add("health-low");
+
+    const cells = [
+      SITE_DEFINITIONS[site].label,
+      field,
+      rate === null ? "-" : `${Math.round(rate * 100)}%`,
+      `${entry.successes} / ${entry.attempts}`,
+      String(entry.notApplicable)
+    ].map((text) => {
+      const td = document.createElement("td");
+      td.textContent = text;
+      return td;
+    });
+
+    const strategiesCell = document.createElement("td");
+    Object.entries(entry.strategies)
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([id, count]) => {
+        const line = document.createElement("span");
+        line.className = "strategy";
+        line.textContent = `${id} (${count})`;
+        strategiesCell.appendChild(line);
+      });
+
+    const lastFailureCell = document.createElement("td");
+    lastFailureCell.textContent = entry.lastFailureAt ? new Date(entry.lastFailureAt).toLocaleString() : "-";
+
+    tr.append(...cells, strategiesCell, lastFailureCell);
+    healthRowsEl.appendChild(tr);
+  });
+}